@@ -8,6 +8,10 @@ local defaults = {
 	max_buffered_events = 200, -- auto flush after this many events
 	capture_modes = {
 		n = true,
+		no = true, -- operator-pending: keys that complete d/c/y/...
+		nov = true,
+		noV = true,
+		["no\22"] = true,
 		i = true,
 		v = true,
 		V = true,
@@ -29,6 +33,9 @@ local defaults = {
 	},
 }
 
+-- Matches LOG_SCHEMA_VERSION in src/schema.ts; bump both when the event shape changes
+local SCHEMA_VERSION = 2
+
 local config = vim.deepcopy(defaults)
 
 local state = {
@@ -105,6 +112,8 @@ local function record_command_execution()
 			local name = vim.api.nvim_buf_get_name(buf)
 
 			local event = {
+				v = SCHEMA_VERSION,
+				type = "command",
 				seq = state.seq,
 				raw = cmdline,
 				key = cmdline,
@@ -116,7 +125,9 @@ local function record_command_execution()
 			if config.include_buffer_metadata then
 				event.bufnr = buf
 				event.filetype = ft
-				event.file = name ~= "" and vim.fn.fnamemodify(name, ":~") or ""
+				if name ~= "" then
+					event.file = vim.fn.fnamemodify(name, ":~")
+				end
 			end
 
 			table.insert(state.pending, event)
@@ -128,7 +139,7 @@ local function record_command_execution()
 	})
 end
 
-local function record_key(char)
+local function record_key(char, typed)
 	if not state.active then
 		return
 	end
@@ -149,6 +160,8 @@ local function record_key(char)
 	local name = vim.api.nvim_buf_get_name(buf)
 
 	local event = {
+		v = SCHEMA_VERSION,
+		type = "key",
 		seq = state.seq,
 		raw = char,
 		key = vim.fn.keytrans(char),
@@ -157,10 +170,17 @@ local function record_key(char)
 		timestamp = vim.loop.hrtime(),
 	}
 
+	-- Keys produced by a mapping differ from what was typed; keep the typed lhs
+	if typed ~= nil and typed ~= char then
+		event.typed = vim.fn.keytrans(typed)
+	end
+
 	if config.include_buffer_metadata then
 		event.bufnr = buf
 		event.filetype = ft
-		event.file = name ~= "" and vim.fn.fnamemodify(name, ":~") or ""
+		if name ~= "" then
+			event.file = vim.fn.fnamemodify(name, ":~")
+		end
 	end
 
 	table.insert(state.pending, event)
@@ -170,6 +190,23 @@ local function record_key(char)
 	end
 end
 
+-- Session markers let the analyzer avoid stitching sequences across capture runs
+local function record_session_marker(kind)
+	state.seq = state.seq + 1
+	-- Wall-clock time anchors the hrtime timestamps of the events that follow
+	local sec, usec = vim.loop.gettimeofday()
+	table.insert(state.pending, {
+		v = SCHEMA_VERSION,
+		type = "session",
+		seq = state.seq,
+		raw = "",
+		key = kind,
+		mode = "session",
+		timestamp = vim.loop.hrtime(),
+		time = sec * 1000 + math.floor(usec / 1000),
+	})
+end
+
 local function start_capture()
 	if state.active then
 		notify("keystroke capture already running", vim.log.levels.WARN)
@@ -177,6 +214,7 @@ local function start_capture()
 	end
 
 	state.active = true
+	record_session_marker("start")
 	vim.on_key(record_key, state.ns)
 	record_command_execution()
 	notify("keystroke capture started → " .. config.log_path)
@@ -190,6 +228,7 @@ local function stop_capture()
 
 	state.active = false
 	vim.on_key(nil, state.ns)
+	record_session_marker("stop")
 	flush_pending()
 	notify("keystroke capture stopped")
 end
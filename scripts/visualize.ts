@@ -103,6 +103,8 @@ async function readLog(path: string): Promise<LogEvent[]> {
       if (!line.trim()) continue
       try {
         const parsed = JSON.parse(line) as LogEvent
+        // capture start/stop markers are not keystrokes
+        if (parsed.mode === "session") continue
         events.push(parsed)
       } catch (error) {
         console.warn(`Skipping malformed line: ${line}`)
@@ -0,0 +1,237 @@
+import { readTextFile } from "./fs.ts"
+import { splitKeyNotation } from "./grammar.ts"
+import { extractStringLiteral } from "./keymaps.ts"
+import { resolveLogPaths, streamKeystrokeLog } from "./log.ts"
+import { canonicalKey, canonicalLhs, DEFAULT_LEADERS, literalKeys } from "./notation.ts"
+import { sequenceCost } from "./scoring.ts"
+import { isSessionMarker } from "./sessions.ts"
+import {
+  AdoptedMapping,
+  AdoptionPeriod,
+  AdoptionReport,
+  AdoptionVerdict,
+  KeymapDefinition,
+  KeystrokeEvent,
+  Leaders,
+} from "./types.ts"
+
+// Share of (lhs + old sequence) uses after adoption that must go through the lhs
+const STUCK_SHARE = 0.75
+
+type PeriodCounts = Omit<AdoptionPeriod, "sequenceRate">
+
+type MappingTracker = {
+  mapping: AdoptedMapping
+  adoptedAtMs: number
+  lhs: string[]
+  /** Ex command typed by the old sequence, for `:cmd<CR>` style sequences */
+  exCommand: string | null
+  lhsWindow: string[]
+  sequenceWindow: string[]
+  commandRuns: { before: number; after: number }
+  before: PeriodCounts
+  after: PeriodCounts
+}
+
+/**
+ * Read an adoption ledger: a JSON array (or `{ "mappings": [...] }`) of
+ * `{ mode, lhs, sequence, adoptedAt }`, where `sequence` is the replaced key
+ * sequence either as a key-notation string (`ciw`) or an array of keys.
+ */
+export async function loadAdoptionLedger(path: string): Promise<AdoptedMapping[]> {
+  const parsed = JSON.parse(await readTextFile(path))
+  const entries = Array.isArray(parsed) ? parsed : parsed?.mappings
+  if (!Array.isArray(entries)) {
+    throw new Error(`Adoption ledger ${path} must be a JSON array or { "mappings": [...] }`)
+  }
+
+  return entries.map((entry, index) => {
+    const sequence = typeof entry?.sequence === "string" ? splitKeyNotation(entry.sequence) : entry?.sequence
+    if (typeof entry?.lhs !== "string" || !Array.isArray(sequence) || !sequence.length) {
+      throw new Error(`Invalid adoption ledger entry ${index + 1} in ${path}: lhs and sequence are required`)
+    }
+    parseAdoptionDate(entry.adoptedAt)
+    return {
+      mode: typeof entry.mode === "string" ? entry.mode : "n",
+      lhs: entry.lhs,
+      sequence: sequence.map(String),
+      adoptedAt: entry.adoptedAt,
+      source: path,
+    }
+  })
+}
+
+/**
+ * Turn mappings parsed from dotfiles into adopted mappings. Only mappings with
+ * a string rhs qualify: a Lua function has no key sequence to compare against.
+ */
+export function mappingsFromKeymaps(
+  keymaps: KeymapDefinition[],
+  adoptedAt: string,
+  lhsFilter: string[] = [],
+): AdoptedMapping[] {
+  parseAdoptionDate(adoptedAt)
+  const mappings: AdoptedMapping[] = []
+  for (const keymap of keymaps) {
+    if (lhsFilter.length && !lhsFilter.includes(keymap.lhs)) continue
+    const rhs = keymap.rhs ? extractStringLiteral(keymap.rhs) : null
+    if (!rhs) continue
+    // `<cmd>w<CR>` runs the same ex command the user used to type as `:w<CR>`
+    const sequence = splitKeyNotation(rhs.replace(/^<cmd>/i, ":"))
+    mappings.push({
+      mode: keymap.mode,
+      lhs: keymap.lhs,
+      sequence,
+      adoptedAt,
+      source: `${keymap.source}:${keymap.line}`,
+    })
+  }
+  return mappings
+}
+
+/**
+ * Compare the log before and after each mapping's adoption date: how often the
+ * lhs is typed, how often the old sequence is still typed by hand, and the
+ * keystrokes the mapping saved. Wall-clock time comes from the session markers
+ * the plugin writes; events recorded before the first marker cannot be dated.
+ */
+export async function analyzeAdoption(
+  logPath: string | string[],
+  mappings: AdoptedMapping[],
+  { leader = "\\" }: { leader?: string } = {},
+): Promise<{ reports: AdoptionReport[]; undatedEvents: number }> {
+  const leaders = { ...DEFAULT_LEADERS, leader: literalKeys(leader) }
+  const trackers = mappings.map((mapping) => createTracker(mapping, leaders))
+  let anchor: { timeMs: number; timestamp: number } | null = null
+  let undatedEvents = 0
+
+  for (const path of await resolveLogPaths(logPath)) {
+    // hrtime anchors never carry over from one file to the next
+    anchor = null
+    trackers.forEach(resetWindows)
+    for await (const { event } of streamKeystrokeLog(path)) {
+      if (isSessionMarker(event)) {
+        anchor = typeof event.time === "number" ? { timeMs: event.time, timestamp: event.timestamp } : null
+        trackers.forEach(resetWindows)
+        continue
+      }
+      if (!anchor || !event.timestamp) {
+        undatedEvents++
+        continue
+      }
+
+      const wallMs = anchor.timeMs + (event.timestamp - anchor.timestamp) / 1_000_000
+      for (const tracker of trackers) {
+        trackEvent(tracker, event, wallMs >= tracker.adoptedAtMs ? "after" : "before")
+      }
+    }
+  }
+
+  return { reports: trackers.map(buildReport), undatedEvents }
+}
+
+function createTracker(mapping: AdoptedMapping, leaders: Leaders): MappingTracker {
+  const sequence = mapping.sequence
+  const last = sequence[sequence.length - 1]
+  const exCommand = sequence[0] === ":" && last === "<CR>" ? sequence.slice(1, -1).join("") : null
+  return {
+    mapping,
+    adoptedAtMs: parseAdoptionDate(mapping.adoptedAt),
+    lhs: splitKeyNotation(canonicalLhs(mapping.lhs, leaders)),
+    exCommand,
+    lhsWindow: [],
+    sequenceWindow: [],
+    commandRuns: { before: 0, after: 0 },
+    before: { events: 0, lhsUses: 0, sequenceUses: 0 },
+    after: { events: 0, lhsUses: 0, sequenceUses: 0 },
+  }
+}
+
+function resetWindows(tracker: MappingTracker) {
+  tracker.lhsWindow = []
+  tracker.sequenceWindow = []
+}
+
+function trackEvent(tracker: MappingTracker, event: KeystrokeEvent, period: "before" | "after") {
+  const counts = tracker[period]
+
+  if (event.mode === "command") {
+    if (tracker.exCommand !== null && event.key.trim() === tracker.exCommand) {
+      tracker.commandRuns[period]++
+    }
+    return
+  }
+
+  counts.events++
+  if (!modeMatches(tracker.mapping.mode, event.mode)) {
+    resetWindows(tracker)
+    return
+  }
+
+  // A mapping's first produced key carries the whole typed lhs (`<Space>w`), the rest an empty `typed`
+  for (const key of splitKeyNotation((event.typed ?? event.key).trim())) {
+    if (pushAndMatch(tracker.lhsWindow, canonicalKey(key), tracker.lhs)) counts.lhsUses++
+  }
+
+  // Keys a mapping produced were not typed by hand, so they never count as the old sequence
+  const byHand = event.typed === undefined || event.typed === event.key
+  if (tracker.exCommand === null && byHand && pushAndMatch(tracker.sequenceWindow, event.key.trim(), tracker.mapping.sequence)) {
+    counts.sequenceUses++
+  }
+}
+
+// Non-overlapping match of `target` at the end of the rolling `window`
+function pushAndMatch(window: string[], key: string, target: string[]): boolean {
+  if (!key || !target.length) return false
+  window.push(key)
+  if (window.length > target.length) window.shift()
+  if (window.length === target.length && window.every((entry, index) => entry === target[index])) {
+    window.length = 0
+    return true
+  }
+  return false
+}
+
+function buildReport(tracker: MappingTracker): AdoptionReport {
+  const { mapping } = tracker
+  if (tracker.exCommand !== null) {
+    // Ex command events do not say whether a mapping ran them, so take the lhs uses off
+    tracker.before.sequenceUses = Math.max(0, tracker.commandRuns.before - tracker.before.lhsUses)
+    tracker.after.sequenceUses = Math.max(0, tracker.commandRuns.after - tracker.after.lhsUses)
+  }
+
+  const before = withRate(tracker.before)
+  const after = withRate(tracker.after)
+  const saving = sequenceCost({ mode: mapping.mode, keys: mapping.sequence }) - sequenceCost({ mode: mapping.mode, keys: tracker.lhs })
+
+  return {
+    mapping,
+    before,
+    after,
+    netSavedKeystrokes: after.lhsUses * saving,
+    verdict: verdictFor(after),
+  }
+}
+
+function withRate(counts: PeriodCounts): AdoptionPeriod {
+  return { ...counts, sequenceRate: counts.events ? (counts.sequenceUses * 1000) / counts.events : 0 }
+}
+
+function verdictFor(after: AdoptionPeriod): AdoptionVerdict {
+  if (after.events === 0) return "no-data"
+  if (after.lhsUses === 0) return "unused"
+  return after.lhsUses / (after.lhsUses + after.sequenceUses) >= STUCK_SHARE ? "stuck" : "partial"
+}
+
+function modeMatches(mappingMode: string, eventMode: string): boolean {
+  if (mappingMode === "v" || mappingMode === "x") return /^[vV\u0016]/.test(eventMode)
+  return eventMode.startsWith(mappingMode)
+}
+
+function parseAdoptionDate(value: unknown): number {
+  const time = typeof value === "string" ? Date.parse(value) : NaN
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid adoption date '${value}'`)
+  }
+  return time
+}
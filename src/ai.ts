@@ -1,82 +1,300 @@
-import { generateText } from "ai"
-import { openai } from "@ai-sdk/openai"
-import { DEFAULT_MODEL } from "./consts.ts"
-import { KeymapDefinition, ModelSuggestion, SequenceStat, SuggestionResponse } from "./types.ts"
+import { generateText, jsonSchema, LanguageModel, ModelMessage, NoObjectGeneratedError, Output } from "ai"
+import { ModelCall, ResponseStore } from "./cache.ts"
+import { describeKeymapSource } from "./keymaps.ts"
+import { canonicalLhs, DEFAULT_LEADERS } from "./notation.ts"
+import { redactInput } from "./redact.ts"
+import {
+  CommandClusterStat,
+  KeymapDefinition,
+  LedgerEntry,
+  Leaders,
+  ModelSuggestion,
+  PatternTemplateStat,
+  RedactionLevel,
+  RejectedSuggestion,
+  SequenceStat,
+  SuggestionResponse,
+  SuggestionScope,
+} from "./types.ts"
 
-type SuggestionParams = {
+export type SuggestionParams = {
   sequences: SequenceStat[]
+  templates?: PatternTemplateStat[]
+  commands?: CommandClusterStat[]
+  scope?: SuggestionScope
   existingKeymaps: KeymapDefinition[]
+  /** Leaders read from the dotfiles, used to normalise suggested lhs */
+  leaders?: Leaders
+  /** Suggestions the user rejected in the ledger, shown to the model as what not to propose */
+  negativeExamples?: LedgerEntry[]
   model?: string
   temperature?: number
   topN?: number
+  redact?: RedactionLevel
 }
 
-export async function requestSuggestions({
-  sequences,
-  existingKeymaps,
-  model = DEFAULT_MODEL,
-  temperature = 0.1,
-  topN = 5,
-}: SuggestionParams): Promise<SuggestionResponse> {
-  if (sequences.length === 0) {
+export type SuggestionPrompt = {
+  system: string
+  prompt: string
+}
+
+const SYSTEM_PROMPT =
+  "You are an HCI-focused Neovim mentor who proposes ergonomic keymaps. " +
+  "You must output strict JSON. Avoid conflicts with provided keymaps. " +
+  "Focus on repetitive motions (like jjjj, wwww) or complex command sequences. " +
+  "NEVER suggest mappings for simple insert mode text typing. " +
+  "Suggest concise leader mappings that compress repetitive keystroke sequences."
+
+/** Repair rounds after the first answer when it fails validation */
+export const MAX_REPAIR_ATTEMPTS = 2
+
+const SUGGESTION_MODES = ["n", "v", "x", "s", "o", "i", "c", "t"]
+
+// Declared to the provider as the response format; answers are still validated here
+const SUGGESTION_OUTPUT = Output.object({
+  schema: jsonSchema<{ suggestions: ModelSuggestion[] }>({
+    type: "object",
+    properties: {
+      suggestions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            mode: { type: "string", enum: SUGGESTION_MODES },
+            lhs: { type: "string", minLength: 1 },
+            sequence: { type: "array", items: { type: "string" }, minItems: 1 },
+            recommendedMapping: { type: "string" },
+            rationale: { type: "string" },
+          },
+          required: ["mode", "lhs", "sequence", "rationale"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["suggestions"],
+    additionalProperties: false,
+  }),
+})
+
+/**
+ * Ask a chat model for suggestions. `params.model` names the model for the
+ * provider that built `model`; this function only talks to it. Answers that
+ * fail validation are sent back with the errors, up to `MAX_REPAIR_ATTEMPTS`
+ * times, and the answer with the most valid suggestions is kept. With a
+ * `cache`, every model call is first looked up there and its answer stored,
+ * keyed by `baseURL` too when the model is served from one.
+ */
+export async function requestSuggestions(
+  params: SuggestionParams,
+  model: LanguageModel,
+  { cache, baseURL }: { cache?: ResponseStore; baseURL?: string } = {},
+): Promise<SuggestionResponse> {
+  const { scope, leaders = DEFAULT_LEADERS, temperature = 0.1 } = params
+  const built = buildSuggestionPrompt(params)
+  if (!built) {
     return { suggestions: [], raw: "No recurring sequences available for suggestion." }
   }
 
-  const trimmedSequences = sequences.slice(0, topN)
-  const existingContext = formatExistingKeymaps(existingKeymaps)
-
-  const prompt = buildPrompt(trimmedSequences, existingContext)
-
-  const { text } = await generateText({
-    model: openai(model),
-    temperature,
-    maxOutputTokens: 800,
-    system:
-      "You are an HCI-focused Neovim mentor who proposes ergonomic keymaps. " +
-      "You must output strict JSON. Avoid conflicts with provided keymaps. " +
-      "Focus on repetitive motions (like jjjj, wwww) or complex command sequences. " +
-      "NEVER suggest mappings for simple insert mode text typing. " +
-      "Suggest concise leader mappings that compress repetitive keystroke sequences.",
-    prompt,
-  })
+  const messages: ModelMessage[] = [{ role: "user", content: built.prompt }]
+  const rejected: RejectedSuggestion[] = []
+  let best = { suggestions: [] as ModelSuggestion[], raw: "" }
+  let attempts = 0
+  while (attempts <= MAX_REPAIR_ATTEMPTS) {
+    attempts++
+    const call: ModelCall = { model: modelLabel(model), ...(baseURL ? { baseURL } : {}), temperature, system: built.system, messages }
+    const text = await generateAnswer(model, call, cache)
+    const result = validateSuggestionOutput(text)
+    rejected.push(...result.rejected.map((entry) => ({ attempt: attempts, ...entry })))
+    if (attempts === 1 || result.suggestions.length >= best.suggestions.length) {
+      best = { suggestions: result.suggestions, raw: text }
+    }
+    if (!result.rejected.length) break
+    messages.push({ role: "assistant", content: text }, { role: "user", content: buildRepairPrompt(result.rejected) })
+  }
 
-  const suggestions = parseSuggestions(text)
+  const suggestions = best.suggestions.map((suggestion) => ({
+    ...suggestion,
+    canonicalLhs: canonicalLhs(suggestion.lhs, leaders),
+    ...(scope ? { scope } : {}),
+  }))
 
   return {
     suggestions,
-    raw: text,
+    raw: best.raw,
+    attempts,
+    rejected,
+  }
+}
+
+/**
+ * Check a model answer against the suggestion schema. Valid entries are kept
+ * and every invalid one is listed with its reasons; an answer that is not JSON
+ * at all is rejected as a whole. A bare array is accepted for servers that
+ * ignore the declared response format, as is a surrounding code fence.
+ */
+export function validateSuggestionOutput(text: string): {
+  suggestions: ModelSuggestion[]
+  rejected: Omit<RejectedSuggestion, "attempt">[]
+} {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(stripCodeFence(text))
+  } catch (error) {
+    return { suggestions: [], rejected: [{ reasons: [`answer is not valid JSON (${(error as Error).message})`] }] }
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.suggestions) ? parsed.suggestions : null
+  if (!entries) {
+    return { suggestions: [], rejected: [{ entry: parsed, reasons: ['answer must be an object with a "suggestions" array'] }] }
   }
+
+  const suggestions: ModelSuggestion[] = []
+  const rejected: Omit<RejectedSuggestion, "attempt">[] = []
+  entries.forEach((entry: unknown, index: number) => {
+    const reasons = checkSuggestionEntry(entry)
+    if (reasons.length || !isRecord(entry)) {
+      rejected.push({ index, entry, reasons })
+      return
+    }
+    suggestions.push({
+      mode: entry.mode as string,
+      lhs: entry.lhs as string,
+      sequence: entry.sequence as string[],
+      recommendedMapping: entry.recommendedMapping as string | undefined,
+      rationale: entry.rationale as string,
+    })
+  })
+  return { suggestions, rejected }
 }
 
-function buildPrompt(sequences: SequenceStat[], existing: string): string {
+/**
+ * Build the exact system and user prompt sent to the model, after redaction.
+ * Returns null when there is nothing to ask about.
+ */
+export function buildSuggestionPrompt({
+  sequences,
+  templates = [],
+  commands = [],
+  scope,
+  existingKeymaps,
+  leaders = DEFAULT_LEADERS,
+  negativeExamples = [],
+  topN = 5,
+  redact = "standard",
+}: SuggestionParams): SuggestionPrompt | null {
+  const redacted = redactInput(
+    {
+      sequences: sequences.slice(0, topN),
+      templates: templates.slice(0, topN),
+      commands: commands.slice(0, topN),
+      scope,
+      existingKeymaps,
+      negativeExamples,
+    },
+    redact,
+  )
+  if (redacted.sequences.length === 0 && redacted.commands.length === 0) {
+    return null
+  }
+
+  const prompt = buildPrompt({
+    sequences: redacted.sequences,
+    existing: formatExistingKeymaps(redacted.existingKeymaps, leaders),
+    templates: redacted.templates,
+    commands: redacted.commands,
+    scope: redacted.scope,
+    rejected: formatRejections(redacted.negativeExamples ?? []),
+  })
+  return { system: SYSTEM_PROMPT, prompt }
+}
+
+type PromptInput = {
+  sequences: SequenceStat[]
+  existing: string
+  templates?: PatternTemplateStat[]
+  commands?: CommandClusterStat[]
+  scope?: SuggestionScope
+  rejected?: string
+}
+
+function buildPrompt({ sequences, existing, templates = [], commands = [], scope, rejected }: PromptInput): string {
   const sequenceLines = sequences
     .map((seq, index) => {
       const gesture = seq.keys.join(" → ")
       const mode = mapModeLabel(seq.mode)
       const sample = seq.sampleFile ? ` sample=${seq.sampleFile}` : ""
-      return `${index + 1}. mode=${mode} sequence=[${gesture}] count=${seq.count} avg_interval=${seq.meanDeltaMs.toFixed(2)}ms${sample}`
+      const absorbed = seq.absorbed?.length
+        ? ` covers=${seq.absorbed.map((entry) => `[${entry.keys.join(" → ")}]`).join(",")}`
+        : ""
+      const latency = seq.latency
+        ? ` p50=${seq.latency.p50Ms.toFixed(0)}ms p90=${seq.latency.p90Ms.toFixed(0)}ms gaps=[${seq.latency.gapProfileMs
+            .map((gap) => gap.toFixed(0))
+            .join(",")}]ms${
+            seq.latency.hesitation && seq.latency.hesitationGap !== undefined
+              ? ` HESITATION before key ${seq.latency.hesitationGap + 2} in ${(seq.latency.hesitationRate * 100).toFixed(0)}% of runs`
+              : ""
+          }`
+        : ""
+      return `${index + 1}. mode=${mode} sequence=[${gesture}] count=${seq.count} avg_interval=${seq.meanDeltaMs.toFixed(2)}ms${latency}${sample}${absorbed}`
+    })
+    .join("\n")
+
+  const templateLines = templates
+    .map((template, index) => {
+      const variants = template.instantiations
+        .slice(0, 5)
+        .map((entry) => `${entry.keys.join("")}×${entry.count}`)
+        .join(", ")
+      return `${index + 1}. mode=${mapModeLabel(template.mode)} template=[${template.template}] count=${template.count} variants=${variants}`
+    })
+    .join("\n")
+
+  const commandLines = commands
+    .map((cluster, index) => {
+      const variants = cluster.variants
+        .slice(0, 5)
+        .map((entry) => `${cluster.commandType}${entry.command}×${entry.count}`)
+        .join(", ")
+      return `${index + 1}. ${cluster.category} template=[${cluster.commandType}${cluster.template}] count=${cluster.count} variants=${variants}`
     })
     .join("\n")
 
   return [
     "Analyse the following Neovim keystroke sequences and produce JSON suggestions for new keybindings.",
     "",
+    ...formatScope(scope),
     "Recurring sequences:",
+    ...(sequences.some((seq) => seq.unit === "action")
+      ? [
+          "(Each element is a parsed Vim action: [\"register][count]operator[count]motion/text-object, a motion, or a command; <insert>/<cmdline> stand for a run of typed text.)",
+        ]
+      : []),
     sequenceLines,
     "",
+    "Gesture families (<slot> matches any key of that kind, + means one or more):",
+    templateLines || "(none detected)",
+    "",
+    "Command-line clusters (<x>/<y> are the pattern and replacement, <n> a number, <file> a path):",
+    commandLines || "(none detected)",
+    "",
     "Existing keymaps harvested from the user's dotfiles (avoid conflicts):",
     existing || "(none provided)",
     "",
-    "Respond with a JSON array of objects using this shape:",
-    `[
-  {
-    "mode": "n",
-    "lhs": "<leader>f",
-    "sequence": ["d", "w"],
-    "recommendedMapping": ":execute '...'\\n",
-    "rationale": "Explain how this reduces cognitive load."
-  }
-]`,
+    ...(rejected
+      ? ["Suggestions the user already rejected (never propose them again; the reasons say what to avoid):", rejected, ""]
+      : []),
+    "Respond with a JSON object of this shape and nothing else:",
+    `{
+  "suggestions": [
+    {
+      "mode": "n",
+      "lhs": "<leader>f",
+      "sequence": ["d", "w"],
+      "recommendedMapping": ":execute '...'\\n",
+      "rationale": "Explain how this reduces cognitive load."
+    }
+  ]
+}`,
     "",
     "Constraints:",
     "- Do not reuse any (mode, lhs) combination listed under existing keymaps.",
@@ -86,16 +304,41 @@ function buildPrompt(sequences: SequenceStat[], existing: string): string {
     "- For Command mode patterns like '%s/\\s+/' or 'g/TODO/d', create shortcuts that execute COMPLETE commands, not partial ones.",
     "  - Example: sequence ['%','s','/','\\','s','+'] could map to '<leader>ws' that executes ':%s/\\\\s\\\\+//g<Left><Left><Left>' (trim whitespace pattern).",
     "  - Example: sequence ['g','/','TODO','/','d'] could map to '<leader>td' that executes ':g/TODO/d<CR>' (delete TODO lines).",
+    "- For a command-line cluster with many variants, map a key that pre-fills the fixed part and leaves the cursor on the first placeholder (e.g. ':%s//g<Left><Left>').",
     "- NEVER suggest Insert mode mappings that just type regular text characters.",
     "- For repeated motions like 'jjjj', teach users to use count prefixes like '4j' instead of creating a mapping.",
     "- For text object operations, create SHORTER shortcuts (e.g., 'ciw' → '<leader>w' or just 'Q').",
+    "- Sequences marked HESITATION contain a long think-pause (gaps lists the mean pause before each key); they are cognitively expensive, so prioritise them and name the decision the mapping removes in the rationale.",
+    "- When a gesture family has many variants, prefer one suggestion that serves the whole family over one per variant.",
     "- The 'recommendedMapping' should be the COMPLETE Vim command to execute, ready to use.",
     "- Reference the underlying sequence in your rationale to support HITL review.",
-    "- If no safe suggestion exists, return an empty JSON array [].",
+    '- If no safe suggestion exists, return {"suggestions": []}.',
   ].join("\n")
 }
 
-function formatExistingKeymaps(defs: KeymapDefinition[]): string {
+function formatRejections(entries: LedgerEntry[]): string {
+  return entries
+    .map((entry) => {
+      const reason = entry.reason ? ` reason="${entry.reason}"` : ""
+      return `- mode=${entry.mode} lhs=${entry.lhs} sequence=[${entry.sequence.join(" → ")}]${reason}`
+    })
+    .join("\n")
+}
+
+function formatScope(scope: SuggestionScope | undefined): string[] {
+  if (!scope) return []
+  const target =
+    scope.kind === "filetype"
+      ? `buffers with filetype '${scope.name}'. Suggestions will be installed as buffer-local mappings for that filetype only`
+      : `files inside the project at '${scope.name}'. Suggestions will be installed in that project's local config only`
+  return [
+    `Scope: every sequence below was recorded in ${target}.`,
+    "Tailor suggestions to editing habits specific to this scope; global habits are analysed separately.",
+    "",
+  ]
+}
+
+function formatExistingKeymaps(defs: KeymapDefinition[], leaders: Leaders): string {
   if (defs.length === 0) return ""
 
   const grouped = new Map<string, KeymapDefinition[]>()
@@ -106,12 +349,17 @@ function formatExistingKeymaps(defs: KeymapDefinition[]): string {
     grouped.set(key, list)
   }
 
-  const lines: string[] = []
+  const lines = [`<leader> is ${leaders.leader}, <localleader> is ${leaders.localLeader}`]
   for (const [mode, mappings] of grouped.entries()) {
     const prefix = `mode=${mapModeLabel(mode)}`
     const entries = mappings
       .slice(0, 40)
-      .map((mapping) => `${mapping.lhs} (${mapping.source}:${mapping.line})`)
+      .map((mapping) => {
+        const buffer = mapping.buffer ? " [buffer-local]" : ""
+        const group = mapping.group !== undefined ? ` [group prefix${mapping.group ? ` "${mapping.group}"` : ""}]` : ""
+        const desc = mapping.desc ? ` "${mapping.desc}"` : ""
+        return `${mapping.lhs}${buffer}${group}${desc} from ${describeKeymapSource(mapping)}`
+      })
       .join(", ")
     lines.push(`${prefix}: ${entries}`)
   }
@@ -136,49 +384,75 @@ function mapModeLabel(mode: string): string {
   return table[mode] ?? mode
 }
 
-function parseSuggestions(text: string): ModelSuggestion[] {
-  const jsonText = extractJsonArray(text)
-  if (!jsonText) return []
+async function generateAnswer(model: LanguageModel, call: ModelCall, cache: ResponseStore | undefined): Promise<string> {
+  const cached = await cache?.lookup(call)
+  if (cached != null) return cached
+  const text = await askModel(model, call)
+  await cache?.store(call, text)
+  return text
+}
 
+async function askModel(model: LanguageModel, { temperature, system, messages }: ModelCall): Promise<string> {
   try {
-    const parsed = JSON.parse(jsonText)
-    if (!Array.isArray(parsed)) return []
-    return parsed
-      .map((entry) => sanitizeSuggestion(entry))
-      .filter((entry): entry is ModelSuggestion => entry !== null)
+    const { text } = await generateText({
+      model,
+      temperature,
+      maxOutputTokens: 800,
+      system,
+      messages,
+      experimental_output: SUGGESTION_OUTPUT,
+    })
+    return text
   } catch (error) {
-    console.warn(`Failed to parse model suggestions: ${error}`)
-    return []
+    // The SDK gives up on answers that are not JSON; those go back to the model for repair
+    if (NoObjectGeneratedError.isInstance(error)) return error.text ?? ""
+    throw error
   }
 }
 
-function extractJsonArray(text: string): string | null {
-  const start = text.indexOf("[")
-  const end = text.lastIndexOf("]")
-  if (start === -1 || end === -1 || end <= start) {
-    return null
-  }
-  return text.slice(start, end + 1)
+function modelLabel(model: LanguageModel): string {
+  return typeof model === "string" ? model : `${model.provider}:${model.modelId}`
 }
 
-function sanitizeSuggestion(value: unknown): ModelSuggestion | null {
-  if (!value || typeof value !== "object") return null
-  const record = value as Record<string, unknown>
-  const mode = typeof record.mode === "string" ? record.mode : null
-  const lhs = typeof record.lhs === "string" ? record.lhs : null
-  const seq = Array.isArray(record.sequence)
-    ? record.sequence.filter((item): item is string => typeof item === "string")
-    : null
-  const rationale = typeof record.rationale === "string" ? record.rationale : ""
-  const recommended = typeof record.recommendedMapping === "string" ? record.recommendedMapping : undefined
-
-  if (!mode || !lhs || !seq || seq.length === 0) return null
+function buildRepairPrompt(rejected: Omit<RejectedSuggestion, "attempt">[]): string {
+  const problems = rejected.map(
+    (entry) => `- ${entry.index === undefined ? "answer" : `suggestions[${entry.index}]`}: ${entry.reasons.join("; ")}`,
+  )
+  return [
+    "Your answer did not match the required JSON schema:",
+    ...problems,
+    "",
+    'Reply with the complete corrected JSON object {"suggestions": [...]} and nothing else. Drop a suggestion rather than guess at missing fields.',
+  ].join("\n")
+}
 
-  return {
-    mode,
-    lhs,
-    sequence: seq,
-    recommendedMapping: recommended,
-    rationale,
+function checkSuggestionEntry(entry: unknown): string[] {
+  if (!isRecord(entry)) return ["must be an object"]
+  const reasons: string[] = []
+  if (typeof entry.mode !== "string" || !SUGGESTION_MODES.includes(entry.mode)) {
+    reasons.push(`mode must be one of ${SUGGESTION_MODES.join(", ")}`)
   }
+  if (typeof entry.lhs !== "string" || !entry.lhs) {
+    reasons.push("lhs must be a non-empty string")
+  }
+  if (!Array.isArray(entry.sequence) || !entry.sequence.length || entry.sequence.some((key) => typeof key !== "string")) {
+    reasons.push("sequence must be a non-empty array of strings")
+  }
+  if (entry.recommendedMapping !== undefined && typeof entry.recommendedMapping !== "string") {
+    reasons.push("recommendedMapping must be a string")
+  }
+  if (typeof entry.rationale !== "string") {
+    reasons.push("rationale must be a string")
+  }
+  return reasons
+}
+
+function stripCodeFence(text: string): string {
+  const trimmed = text.trim()
+  const match = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/)
+  return match ? match[1] : trimmed
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
 }
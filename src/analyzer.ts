@@ -1,16 +1,31 @@
-import { AnalyzerOptions, KeystrokeEvent, SequenceStat } from "./types.ts"
+import { parseActions, splitKeyNotation } from "./grammar.ts"
+import { createLatencyHistogram, recordLatency, summarizeLatency } from "./latency.ts"
+import { scoreSequence, sortSequences } from "./scoring.ts"
+import { combineSessionOptions, splitSessions } from "./sessions.ts"
+import { AnalyzerOptions, KeystrokeEvent, RawSequenceStat, SequenceStat, SessionOptions } from "./types.ts"
 
-const DEFAULT_OPTIONS: Required<AnalyzerOptions> = {
+export type SequenceTotals = Map<string, RawSequenceStat>
+
+type CombinedAnalyzerOptions = Required<Omit<AnalyzerOptions, "session">> & { session: Required<SessionOptions> }
+
+const DEFAULT_OPTIONS: Omit<Required<AnalyzerOptions>, "session"> = {
   windowSize: 5,
   minSequenceLength: 2,
   minOccurrences: 2,
+  sortBy: "count",
+  closed: false,
+  unit: "key",
 }
 
-export function combineOptions(options?: AnalyzerOptions): Required<AnalyzerOptions> {
+export function combineOptions(options?: AnalyzerOptions): CombinedAnalyzerOptions {
   return {
     windowSize: options?.windowSize ?? DEFAULT_OPTIONS.windowSize,
     minSequenceLength: options?.minSequenceLength ?? DEFAULT_OPTIONS.minSequenceLength,
     minOccurrences: options?.minOccurrences ?? DEFAULT_OPTIONS.minOccurrences,
+    sortBy: options?.sortBy ?? DEFAULT_OPTIONS.sortBy,
+    closed: options?.closed ?? DEFAULT_OPTIONS.closed,
+    unit: options?.unit ?? DEFAULT_OPTIONS.unit,
+    session: combineSessionOptions(options?.session),
   }
 }
 
@@ -18,50 +33,140 @@ export function findFrequentSequences(
   events: KeystrokeEvent[],
   options?: AnalyzerOptions,
 ): SequenceStat[] {
-  const { windowSize, minSequenceLength, minOccurrences } = combineOptions(options)
-
   if (events.length === 0) return []
 
-  const totals = new Map<string, SequenceStat>()
+  const totals: SequenceTotals = new Map()
 
-  // Handle command mode events separately (they are complete commands)
-  const commandEvents = events.filter((e) => e.mode === "command")
-  const commandCounts = new Map<string, { count: number; file?: string }>()
+  // Sequences never cross a session boundary, so mine each session on its own
+  for (const { events: sessionEvents } of splitSessions(events, combineOptions(options).session)) {
+    accumulateSequences(totals, sessionEvents, options)
+  }
+
+  return rankSequences(totals, options)
+}
+
+/**
+ * Add the sequences of one session to `totals`. Sessions are independent, so
+ * totals can be built up across runs (see `checkpoint.ts`).
+ */
+export function accumulateSequences(totals: SequenceTotals, sessionEvents: KeystrokeEvent[], options?: AnalyzerOptions) {
+  const { windowSize, minSequenceLength, unit } = combineOptions(options)
 
-  for (const event of commandEvents) {
-    const cmd = event.key
-    const existing = commandCounts.get(cmd)
+  // Handle command mode events separately (they are complete commands)
+  for (const event of sessionEvents) {
+    if (event.mode !== "command") continue
+    const commandType = event.command_type || ":"
+    const signature = `command:${commandType}${event.key}`
+    const existing = totals.get(signature)
     if (existing) {
       existing.count++
     } else {
-      commandCounts.set(cmd, { count: 1, file: event.file })
-    }
-  }
-
-  // Add frequent commands to results
-  for (const [cmd, data] of commandCounts.entries()) {
-    if (data.count >= minOccurrences) {
-      totals.set(`command:${cmd}`, {
+      totals.set(signature, {
         mode: "command",
-        keys: [cmd],
-        count: data.count,
+        keys: [event.key],
+        commandType,
+        count: 1,
         meanDeltaMs: 0, // Commands don't have meaningful delta time
-        sampleFile: data.file,
+        sampleFile: event.file,
       })
     }
   }
 
-  // Filter out command mode events from regular sequence analysis
-  const regularEvents = events.filter((e) => e.mode !== "command")
+  const regularEvents = sessionEvents.filter((e) => e.mode !== "command")
+  const units = unit === "action" ? actionEvents(regularEvents) : regularEvents
+  collectWindowSequences(units, windowSize, minSequenceLength, totals)
+}
+
+// Present parsed actions as events so the window miner works on either unit
+function actionEvents(events: KeystrokeEvent[]): KeystrokeEvent[] {
+  return parseActions(events).map((action, index) => ({
+    seq: index,
+    raw: action.keys.join(""),
+    key: action.label,
+    mode: action.mode,
+    timestamp: action.startTimestamp,
+    file: action.file,
+  }))
+}
 
+export function rankSequences(totals: SequenceTotals, options?: AnalyzerOptions): SequenceStat[] {
+  const { minOccurrences, sortBy, closed, unit } = combineOptions(options)
+  const isInteresting = unit === "action" ? isInterestingActionSequence : isInterestingSequence
+
+  const frequent = Array.from(totals.values())
+    .filter((seq) => seq.count >= minOccurrences)
+    .filter((seq) => isInteresting(seq))
+  const sequences = (closed ? closeSequences(frequent) : frequent).map(({ timing, ...seq }) => {
+    const scored = scoreSequence(unit === "action" && seq.mode !== "command" ? { ...seq, unit } : seq)
+    return timing ? { ...scored, latency: summarizeLatency(timing) } : scored
+  })
+
+  return sortSequences(sequences, sortBy)
+}
+
+/**
+ * Keep only closed patterns: a sequence is absorbed by a longer sequence in the
+ * same mode with the same support, i.e. when it occurs exactly as often as the
+ * superset's occurrences contain it (`jjj` sits three times in each `jjjjj`).
+ * A sub-sequence that also occurs on its own stays separate. The superset
+ * records what it absorbed and the folded counts.
+ */
+export function closeSequences<T extends RawSequenceStat>(sequences: T[]): T[] {
+  const byLength = sequences.slice().sort((a, b) => b.keys.length - a.keys.length)
+  const kept: T[] = []
+
+  for (const candidate of byLength) {
+    let absorber: T | null = null
+    for (const superset of kept) {
+      if (superset.mode !== candidate.mode || superset.keys.length <= candidate.keys.length) continue
+      const occurrences = countOccurrences(superset.keys, candidate.keys)
+      if (occurrences === 0 || candidate.count !== superset.count * occurrences) continue
+      if (!absorber || superset.count > absorber.count) {
+        absorber = superset
+      }
+    }
+
+    if (!absorber) {
+      kept.push({ ...candidate })
+      continue
+    }
+
+    absorber.absorbed = [...(absorber.absorbed ?? []), { keys: candidate.keys, count: candidate.count }]
+    absorber.absorbedCount = (absorber.absorbedCount ?? 0) + candidate.count
+  }
+
+  return kept
+}
+
+function countOccurrences(haystack: string[], needle: string[]): number {
+  let count = 0
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((key, offset) => haystack[i + offset] === key)) {
+      count++
+    }
+  }
+  return count
+}
+
+function collectWindowSequences(
+  regularEvents: KeystrokeEvent[],
+  windowSize: number,
+  minSequenceLength: number,
+  totals: SequenceTotals,
+) {
   for (let i = 0; i < regularEvents.length; i++) {
     const base = regularEvents[i]
     const baseKey = normalizeKey(base)
     if (!baseKey) continue
 
     const sequence: string[] = [baseKey]
+    const gaps: number[] = []
     let previousTimestamp = base.timestamp
 
+    if (minSequenceLength <= 1) {
+      recordSequence(totals, base, sequence, 0, null)
+    }
+
     for (let j = i + 1; j < Math.min(regularEvents.length, i + windowSize); j++) {
       const current = regularEvents[j]
       if (current.mode !== base.mode) break
@@ -69,47 +174,51 @@ export function findFrequentSequences(
       const key = normalizeKey(current)
       if (!key) continue
       sequence.push(key)
+      gaps.push(previousTimestamp && current.timestamp ? computeDelta(previousTimestamp, current.timestamp) : NaN)
 
       if (sequence.length < minSequenceLength) {
         previousTimestamp = current.timestamp
         continue
       }
 
-      const signature = `${base.mode}:${sequence.join(" ")}`
-      const deltaMs = computeDelta(base.timestamp, current.timestamp)
-
-      const existing = totals.get(signature)
-      if (existing) {
-        const nextCount = existing.count + 1
-        const mean = existing.meanDeltaMs
-        existing.meanDeltaMs = (mean * existing.count + deltaMs) / nextCount
-        existing.count = nextCount
-      } else {
-        totals.set(signature, {
-          mode: base.mode,
-          keys: sequence.slice(),
-          count: 1,
-          meanDeltaMs: deltaMs,
-          sampleFile: base.file,
-        })
-      }
+      recordSequence(totals, base, sequence, computeDelta(base.timestamp, current.timestamp), gaps)
 
       previousTimestamp = current.timestamp
     }
   }
+}
 
-  const sequences = Array.from(totals.values())
-    .filter((seq) => seq.count >= minOccurrences)
-    .filter((seq) => isInterestingSequence(seq))
+function recordSequence(
+  totals: SequenceTotals,
+  base: KeystrokeEvent,
+  sequence: string[],
+  deltaMs: number,
+  gaps: number[] | null,
+) {
+  const signature = `${base.mode}:${sequence.join(" ")}`
 
-  sequences.sort((a, b) => {
-    if (b.count === a.count) {
-      return a.meanDeltaMs - b.meanDeltaMs
+  let existing = totals.get(signature)
+  if (existing) {
+    const nextCount = existing.count + 1
+    const mean = existing.meanDeltaMs
+    existing.meanDeltaMs = (mean * existing.count + deltaMs) / nextCount
+    existing.count = nextCount
+  } else {
+    existing = {
+      mode: base.mode,
+      keys: sequence.slice(),
+      count: 1,
+      meanDeltaMs: deltaMs,
+      sampleFile: base.file,
     }
-    return b.count - a.count
-  })
+    totals.set(signature, existing)
+  }
 
-  return sequences
+  // Occurrences with a missing timestamp would skew the distribution
+  if (gaps && gaps.length && gaps.every((gap) => Number.isFinite(gap) && gap >= 0)) {
+    existing.timing ??= createLatencyHistogram(gaps.length)
+    recordLatency(existing.timing, gaps)
+  }
 }
 
 function normalizeKey(event: KeystrokeEvent): string | null {
@@ -118,14 +227,22 @@ function normalizeKey(event: KeystrokeEvent): string | null {
   return key
 }
 
-function computeDelta(start: number, finish: number): number {
+export function computeDelta(start: number, finish: number): number {
   if (!start || !finish) {
     return 0
   }
   return (finish - start) / 1_000_000
 }
 
-function isInterestingSequence(seq: SequenceStat): boolean {
+function isInterestingActionSequence(seq: RawSequenceStat): boolean {
+  if (seq.mode === "command") return true
+  // Collapsed runs (`<insert>`, `<cmdline>`) carry no mappable structure on their own
+  if (seq.keys.every((key) => /^<(insert|cmdline|replace)>$/.test(key))) return false
+  const keystrokes = seq.keys.reduce((total, key) => total + splitKeyNotation(key).length, 0)
+  return keystrokes >= 3
+}
+
+function isInterestingSequence(seq: RawSequenceStat): boolean {
   // Filter out insert mode sequences that are just regular typing
   if (seq.mode === "i" || seq.mode === "R") {
     // Check if all keys are single printable characters (likely just typing text)
@@ -0,0 +1,96 @@
+import { createHash } from "node:crypto"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { ModelMessage } from "ai"
+import { CacheMode, ResponseStoreMode } from "./types.ts"
+
+export const CACHE_MODES: CacheMode[] = ["off", "read", "write"]
+
+const CACHE_ENTRY_VERSION = 1
+
+/** Everything that decides what a model answers; the cache key is its hash */
+export type ModelCall = {
+  model: string
+  /** Endpoint of an OpenAI-compatible server: the same model id can be a different model on each */
+  baseURL?: string
+  temperature: number
+  system: string
+  messages: ModelMessage[]
+}
+
+/** One cached answer, also the fixture format of `--record`/`--replay` */
+type CacheEntry = ModelCall & {
+  version: number
+  key: string
+  text: string
+  recordedAt: string
+}
+
+export type ResponseStore = {
+  mode: ResponseStoreMode
+  dir: string
+  /** The stored answer for a call, or null; in replay mode a miss throws instead */
+  lookup(call: ModelCall): Promise<string | null>
+  store(call: ModelCall, text: string): Promise<void>
+}
+
+/** `$XDG_CACHE_HOME/ai-keymap/responses`, falling back to `~/.cache` */
+export function defaultCacheDir(): string {
+  const xdgPath = process.env.XDG_CACHE_HOME
+  const base = xdgPath && xdgPath.length > 0 ? xdgPath : process.env.HOME ? `${process.env.HOME}/.cache` : "."
+  return `${base}/ai-keymap/responses`
+}
+
+export function cacheKey({ model, baseURL, temperature, system, messages }: ModelCall): string {
+  return createHash("sha256")
+    .update(JSON.stringify([model, baseURL ?? null, temperature, system, messages]))
+    .digest("hex")
+}
+
+/**
+ * A directory of model answers addressed by `cacheKey`:
+ *
+ * - `read`: answer from the store when possible, never write to it
+ * - `write`: answer from the store when possible and store every new answer
+ * - `record`: always ask the model and store the answer as a fixture
+ * - `replay`: only answer from the store; a call that was never recorded is an
+ *   error, so replays are deterministic and never touch the network
+ */
+export function createResponseStore(dir: string, mode: ResponseStoreMode): ResponseStore {
+  const pathFor = (key: string) => join(dir, `${key}.json`)
+
+  return {
+    mode,
+    dir,
+    async lookup(call) {
+      if (mode === "record") return null
+      const key = cacheKey(call)
+      const entry = await loadEntry(pathFor(key))
+      if (entry) return entry.text
+      if (mode === "replay") {
+        throw new Error(`No recorded response for ${call.model} (${key}) in ${dir}`)
+      }
+      return null
+    },
+    async store(call, text) {
+      if (mode === "read" || mode === "replay") return
+      const key = cacheKey(call)
+      const entry: CacheEntry = { version: CACHE_ENTRY_VERSION, key, ...call, text, recordedAt: new Date().toISOString() }
+      try {
+        await mkdir(dir, { recursive: true })
+        await writeFile(pathFor(key), `${JSON.stringify(entry, null, 2)}\n`)
+      } catch (error) {
+        console.warn(`Unable to write response cache at ${dir}: ${error}`)
+      }
+    },
+  }
+}
+
+async function loadEntry(path: string): Promise<CacheEntry | null> {
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf8")) as CacheEntry
+    return parsed.version === CACHE_ENTRY_VERSION && typeof parsed.text === "string" ? parsed : null
+  } catch {
+    return null
+  }
+}
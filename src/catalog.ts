@@ -0,0 +1,364 @@
+import { parseActions, splitKeyNotation } from "./grammar.ts"
+import { sequenceCost } from "./scoring.ts"
+import { BuiltinCommand, BuiltinRecommendation, KeystrokeEvent, SequenceStat } from "./types.ts"
+
+export type BuiltinCandidate = Pick<SequenceStat, "mode" | "keys" | "count">
+
+/** Normal mode action runs a built-in shortens, keyed by their keys */
+export type BuiltinTotals = Map<string, BuiltinCandidate>
+
+// Motions work in Normal, Visual and Operator-pending mode alike
+const MOTION_MODES = ["n", "x", "o"]
+
+/**
+ * Default Vim/Neovim commands worth keeping, in keytrans() notation. Not every
+ * default is listed: the point is to warn before a mapping hides one that
+ * people actually use, and to know which built-ins a sequence can become.
+ */
+export const BUILTIN_COMMANDS: BuiltinCommand[] = [
+  ...motions([
+    ["h", "left"],
+    ["j", "down"],
+    ["k", "up"],
+    ["l", "right"],
+    ["w", "next word"],
+    ["W", "next WORD"],
+    ["b", "previous word"],
+    ["B", "previous WORD"],
+    ["e", "end of word"],
+    ["E", "end of WORD"],
+    ["ge", "end of previous word"],
+    ["0", "start of line"],
+    ["^", "first non-blank of line"],
+    ["$", "end of line"],
+    ["gg", "first line"],
+    ["G", "last line"],
+    ["{", "previous paragraph"],
+    ["}", "next paragraph"],
+    ["(", "previous sentence"],
+    [")", "next sentence"],
+    ["%", "matching bracket"],
+    ["H", "top of window"],
+    ["M", "middle of window"],
+    ["L", "bottom of window"],
+    ["f", "to next char"],
+    ["F", "to previous char"],
+    ["t", "till next char"],
+    ["T", "till previous char"],
+    [";", "repeat f/t"],
+    [",", "repeat f/t backwards"],
+    ["n", "next match"],
+    ["N", "previous match"],
+    ["*", "next match of word under cursor"],
+    ["#", "previous match of word under cursor"],
+    ["/", "search forward"],
+    ["?", "search backward"],
+    ["`", "jump to mark"],
+    ["'", "jump to mark line"],
+    ["gj", "down a screen line"],
+    ["gk", "up a screen line"],
+    ["_", "first non-blank, count lines down"],
+  ]),
+  ...commands(["n"], [
+    ["i", "insert before cursor"],
+    ["I", "insert at first non-blank"],
+    ["a", "append after cursor"],
+    ["A", "append at end of line"],
+    ["o", "open line below"],
+    ["O", "open line above"],
+    ["x", "delete char"],
+    ["X", "delete char before cursor"],
+    ["s", "substitute char"],
+    ["S", "substitute line"],
+    ["r", "replace char"],
+    ["R", "Replace mode"],
+    ["d", "delete operator"],
+    ["dd", "delete line"],
+    ["D", "delete to end of line"],
+    ["c", "change operator"],
+    ["cc", "change line"],
+    ["C", "change to end of line"],
+    ["y", "yank operator"],
+    ["yy", "yank line"],
+    ["Y", "yank to end of line"],
+    ["p", "put after"],
+    ["P", "put before"],
+    ["u", "undo"],
+    ["<C-R>", "redo"],
+    [".", "repeat last change"],
+    ["J", "join lines"],
+    ["~", "switch case"],
+    [">>", "indent line"],
+    ["<<", "dedent line"],
+    ["==", "reindent line"],
+    ["q", "record macro"],
+    ["@", "run macro"],
+    ["m", "set mark"],
+    ["v", "Visual mode"],
+    ["V", "Visual line mode"],
+    ["<C-V>", "Visual block mode"],
+    ["gv", "reselect last Visual area"],
+    ["zz", "center cursor line"],
+    ["zt", "cursor line to top"],
+    ["zb", "cursor line to bottom"],
+    ["<C-D>", "half page down"],
+    ["<C-U>", "half page up"],
+    ["<C-F>", "page down"],
+    ["<C-B>", "page up"],
+    ["<C-E>", "scroll down a line"],
+    ["<C-Y>", "scroll up a line"],
+    ["<C-O>", "older jump"],
+    ["<Tab>", "newer jump"],
+    ["<C-A>", "increment number"],
+    ["<C-X>", "decrement number"],
+    ["<C-W>", "window commands"],
+    ["<C-^>", "alternate file"],
+    ["<C-G>", "file info"],
+    ["<C-L>", "redraw"],
+    ["gd", "go to definition"],
+    ["gf", "edit file under cursor"],
+    ["gx", "open URL under cursor"],
+    ["gi", "insert where Insert mode was left"],
+    ["gJ", "join without spaces"],
+    ["gu", "lowercase operator"],
+    ["gU", "uppercase operator"],
+    ["gq", "format operator"],
+    ["g;", "older change"],
+    ["g,", "newer change"],
+    ["K", "keyword lookup / hover"],
+    ["ZZ", "write and quit"],
+    ["ZQ", "quit without writing"],
+    ["za", "toggle fold"],
+    ["[d", "previous diagnostic"],
+    ["]d", "next diagnostic"],
+    ["&", "repeat :s"],
+    ["Q", "replay last macro"],
+  ]),
+  ...commands(["x"], [
+    ["o", "other end of selection"],
+    ["O", "other corner of block"],
+    ["d", "delete selection"],
+    ["c", "change selection"],
+    ["y", "yank selection"],
+    ["p", "put over selection"],
+    ["J", "join selected lines"],
+    [">", "indent selection"],
+    ["<", "dedent selection"],
+    ["=", "reindent selection"],
+    ["u", "lowercase selection"],
+    ["U", "uppercase selection"],
+    ["~", "switch case of selection"],
+    ["I", "insert before block"],
+    ["A", "append after block"],
+    ["r", "replace selected chars"],
+    ["gv", "previous Visual area"],
+    ["<Esc>", "leave Visual mode"],
+  ]),
+  ...commands(["x", "o"], [
+    ["iw", "inner word"],
+    ["aw", "a word"],
+    ["ip", "inner paragraph"],
+    ["ap", "a paragraph"],
+    ['i"', "inside quotes"],
+    ['a"', "around quotes"],
+    ["i'", "inside single quotes"],
+    ["a'", "around single quotes"],
+    ["i(", "inside parentheses"],
+    ["a(", "around parentheses"],
+    ["ib", "inside parentheses"],
+    ["i{", "inside braces"],
+    ["a{", "around braces"],
+    ["iB", "inside braces"],
+    ["i[", "inside brackets"],
+    ["it", "inside tag"],
+    ["at", "around tag"],
+  ]),
+  ...commands(["i"], [
+    ["<C-W>", "delete word before cursor"],
+    ["<C-U>", "delete to start of line"],
+    ["<C-H>", "delete char before cursor"],
+    ["<C-O>", "run one Normal mode command"],
+    ["<C-R>", "insert register"],
+    ["<C-N>", "next completion"],
+    ["<C-P>", "previous completion"],
+    ["<C-T>", "indent line"],
+    ["<C-D>", "dedent line"],
+    ["<C-A>", "insert last inserted text"],
+    ["<C-E>", "insert char below"],
+    ["<C-Y>", "insert char above"],
+    ["<C-V>", "insert next key literally"],
+    ["<C-K>", "insert digraph"],
+    ["<C-X>", "completion submode"],
+    ["<Esc>", "leave Insert mode"],
+    ["<C-[>", "leave Insert mode"],
+    ["<C-C>", "leave Insert mode"],
+  ]),
+]
+
+// Keys a count repeats exactly, so `jjjj` is `4j`
+const COUNTABLE_KEYS = new Set(["h", "j", "k", "l", "w", "W", "b", "B", "e", "E", "x", "X", "p", "P", "u", "n", "N", ";", ",", "{", "}", "(", ")", "<C-D>", "<C-U>", "<C-E>", "<C-Y>", "<C-O>", "<C-R>"])
+// Linewise commands whose repeats a count folds as well: `dddd` is `2dd`
+const COUNTABLE_PAIRS = new Set(["dd", ">>", "<<", "=="])
+
+// Normal mode rewrites, longest first where they share a start
+const EQUIVALENCES: { keys: string; builtin: string; reason: string }[] = [
+  { keys: "d$a", builtin: "C", reason: "`d$a` is `C`" },
+  { keys: "d$A", builtin: "C", reason: "`d$A` is `C`" },
+  { keys: "Da", builtin: "C", reason: "`Da` is `C`" },
+  { keys: "DA", builtin: "C", reason: "`DA` is `C`" },
+  { keys: "d$", builtin: "D", reason: "`d$` is `D`" },
+  { keys: "c$", builtin: "C", reason: "`c$` is `C`" },
+  { keys: "y$", builtin: "Y", reason: "`y$` is `Y` in Neovim" },
+  { keys: "0i", builtin: "I", reason: "`0i` is `I` on unindented lines" },
+  { keys: "^i", builtin: "I", reason: "`^i` is `I`" },
+  { keys: "$a", builtin: "A", reason: "`$a` is `A`" },
+  { keys: "dl", builtin: "x", reason: "`dl` is `x`" },
+  { keys: "dh", builtin: "X", reason: "`dh` is `X`" },
+  { keys: "cl", builtin: "s", reason: "`cl` is `s`" },
+  { keys: "0c$", builtin: "cc", reason: "`0c$` is `cc` on unindented lines" },
+  { keys: "^C", builtin: "cc", reason: "`^C` is `cc` (`S`)" },
+  { keys: "Vy", builtin: "yy", reason: "`Vy` is `yy`" },
+  { keys: "Vd", builtin: "dd", reason: "`Vd` is `dd`" },
+  { keys: "Vx", builtin: "dd", reason: "`Vx` is `dd`" },
+  { keys: "Vc", builtin: "cc", reason: "`Vc` is `cc`" },
+  { keys: "V>", builtin: ">>", reason: "`V>` is `>>`" },
+  { keys: "V<", builtin: "<<", reason: "`V<` is `<<`" },
+  { keys: "V=", builtin: "==", reason: "`V=` is `==`" },
+]
+
+/**
+ * Count the runs of up to `windowSize` parsed actions in one session that
+ * spell out a built-in. Actions keep `d$` whole although its `$` is logged in
+ * Operator-pending mode, and two-key rewrites like `0i` are counted even
+ * though the sequence miner finds them too short to be interesting.
+ */
+export function accumulateBuiltinCandidates(totals: BuiltinTotals, sessionEvents: KeystrokeEvent[], windowSize: number) {
+  const actions = parseActions(sessionEvents)
+  for (let start = 0; start < actions.length; start++) {
+    if (actions[start].mode !== "n") continue
+    const keys: string[] = []
+    for (let end = start; end < Math.min(actions.length, start + windowSize); end++) {
+      // `Vd` continues in Visual mode, typed text ends the run
+      if (!/^[nvV\u0016]$/.test(actions[end].mode)) break
+      keys.push(...actions[end].keys.flatMap(splitKeyNotation))
+      // Only runs one rewrite covers exactly: `d$`, not `d$0` or `d$0i`
+      const { reasons, untouched } = rewriteKeys(keys)
+      if (reasons.length !== 1 || untouched) continue
+
+      const identity = keys.join("\u0000")
+      const candidate = totals.get(identity)
+      if (candidate) {
+        candidate.count++
+      } else {
+        totals.set(identity, { mode: "n", keys: keys.slice(), count: 1 })
+      }
+    }
+  }
+}
+
+/**
+ * Rewrite Normal mode sequences into the shorter built-ins they spell out:
+ * `d$` → `D`, `0i` → `I`, `jjjj` → `4j`. Works on key and action sequences
+ * alike (actions are re-split into keys), offline and without a model. Only
+ * rewrites that save keystrokes are returned, biggest total saving first.
+ */
+export function findBuiltinEquivalents(sequences: BuiltinCandidate[]): BuiltinRecommendation[] {
+  const recommendations: BuiltinRecommendation[] = []
+  const seen = new Set<string>()
+
+  for (const sequence of sequences) {
+    if (!sequence.mode.startsWith("n")) continue
+    const keys = splitKeyNotation(sequence.keys.join(""))
+    const identity = keys.join("\u0000")
+    if (seen.has(identity)) continue
+    seen.add(identity)
+
+    const { builtin, reasons } = rewriteKeys(keys)
+    if (!reasons.length) continue
+    const savedPerUse = sequenceCost({ mode: "n", keys }) - sequenceCost({ mode: "n", keys: splitKeyNotation(builtin) })
+    if (savedPerUse <= 0) continue
+    recommendations.push({
+      mode: sequence.mode,
+      keys,
+      builtin,
+      reasons,
+      count: sequence.count,
+      savedPerUse,
+      estimatedSavings: savedPerUse * sequence.count,
+    })
+  }
+
+  return recommendations.sort((a, b) => b.estimatedSavings - a.estimatedSavings)
+}
+
+/** Built-in commands in any of the given single modes with exactly this lhs */
+export function findBuiltinCommands(lhs: string, modes: string[]): BuiltinCommand[] {
+  return BUILTIN_COMMANDS.filter((command) => command.lhs === lhs && command.modes.some((mode) => modes.includes(mode)))
+}
+
+// `untouched` counts the keys no rewrite covered
+function rewriteKeys(keys: string[]): { builtin: string; reasons: string[]; untouched: number } {
+  const output: string[] = []
+  const reasons: string[] = []
+  let untouched = 0
+  let index = 0
+
+  while (index < keys.length) {
+    const key = keys[index]
+    // Keys after a count (`10i`, `3jjj`) already mean something else
+    if (index > 0 && /^[0-9]$/.test(keys[index - 1])) {
+      output.push(key)
+      untouched++
+      index++
+      continue
+    }
+
+    let run = 1
+    while (keys[index + run] === key) run++
+    if (COUNTABLE_KEYS.has(key) && run >= 3) {
+      output.push(`${run}${key}`)
+      reasons.push(`\`${key.repeat(run)}\` is \`${run}${key}\``)
+      index += run
+      continue
+    }
+
+    const pair = `${key}${keys[index + 1] ?? ""}`
+    if (COUNTABLE_PAIRS.has(pair) && keys[index + 1] === key) {
+      let pairs = 1
+      while (keys[index + pairs * 2] === key && keys[index + pairs * 2 + 1] === key) pairs++
+      if (pairs >= 2) {
+        output.push(`${pairs}${pair}`)
+        reasons.push(`\`${pair.repeat(pairs)}\` is \`${pairs}${pair}\``)
+        index += pairs * 2
+        continue
+      }
+    }
+
+    const match = EQUIVALENCES.find((entry) => startsWithKeys(keys, index, entry.keys))
+    if (match) {
+      output.push(match.builtin)
+      reasons.push(match.reason)
+      index += splitKeyNotation(match.keys).length
+      continue
+    }
+
+    output.push(key)
+    untouched++
+    index++
+  }
+
+  return { builtin: output.join(""), reasons, untouched }
+}
+
+function startsWithKeys(keys: string[], index: number, notation: string): boolean {
+  const expected = splitKeyNotation(notation)
+  return expected.every((key, offset) => keys[index + offset] === key)
+}
+
+function motions(entries: [string, string][]): BuiltinCommand[] {
+  return commands(MOTION_MODES, entries)
+}
+
+function commands(modes: string[], entries: [string, string][]): BuiltinCommand[] {
+  return entries.map(([lhs, description]) => ({ lhs, modes, description }))
+}
@@ -0,0 +1,312 @@
+import { createHash } from "node:crypto"
+import { open, readFile, stat, writeFile } from "node:fs/promises"
+import { accumulateSequences, combineOptions, rankSequences, SequenceTotals } from "./analyzer.ts"
+import { accumulateBuiltinCandidates, BuiltinCandidate, BuiltinTotals, findBuiltinEquivalents } from "./catalog.ts"
+import { accumulateCommands, CommandTotals, rankCommandClusters } from "./cmdline.ts"
+import { createGroupResolver, splitByGroup } from "./groups.ts"
+import { isCompressedLog, resolveLogPaths, streamKeystrokeLog } from "./log.ts"
+import { accumulateTemplates, rankTemplates, TemplateTotals } from "./patterns.ts"
+import { accumulateFindings, BUILTIN_RULES, FindingTotals, rankFindings, ruleIdentity } from "./rules.ts"
+import { createSessionSplitter, isSessionMarker, summarizeSession } from "./sessions.ts"
+import {
+  AnalyzerOptions,
+  AntiPatternRule,
+  CommandClusterStat,
+  GroupBy,
+  KeystrokeSession,
+  LogAnalysis,
+  PatternTemplateStat,
+  RawSequenceStat,
+  RuleFinding,
+  SequenceUnit,
+  SessionBoundary,
+  SessionSummary,
+} from "./types.ts"
+
+const CHECKPOINT_VERSION = 7
+const FINGERPRINT_BYTES = 4096
+
+type CheckpointOptions = {
+  windowSize: number
+  minSequenceLength: number
+  unit: SequenceUnit
+  idleGapMs: number
+  splitOnBufferChange: boolean
+  groupBy: GroupBy | null
+  rules: string[]
+}
+
+/** A log that is read in full on every rebuild; any change invalidates the checkpoint */
+type SealedLog = {
+  path: string
+  size: number
+  hash: string
+}
+
+type GroupTotals = {
+  eventCount: number
+  sequences: SequenceTotals
+}
+
+/**
+ * Serialised totals of every session that was already closed when the log was
+ * last analysed. `offset` points at the first line of the session that was
+ * still open, so the next run re-reads that session plus anything appended.
+ */
+type Checkpoint = {
+  version: number
+  options: CheckpointOptions
+  offset: number
+  eventCount: number
+  head: { length: number; hash: string }
+  sealed: SealedLog[]
+  nextSession: { index: number; boundary: SessionBoundary }
+  sequences: [string, RawSequenceStat][]
+  templates: [string, PatternTemplateStat][]
+  sessions: SessionSummary[]
+  findings: [string, RuleFinding][]
+  commands: [string, CommandClusterStat][]
+  builtins: [string, BuiltinCandidate][]
+  groups: [string, { eventCount: number; sequences: [string, RawSequenceStat][] }][]
+}
+
+type AnalysisState = {
+  eventCount: number
+  sequences: SequenceTotals
+  templates: TemplateTotals
+  sessions: SessionSummary[]
+  findings: FindingTotals
+  commands: CommandTotals
+  builtins: BuiltinTotals
+  groups: Map<string, GroupTotals>
+}
+
+export function checkpointPath(logPath: string): string {
+  return `${logPath}.checkpoint.json`
+}
+
+/**
+ * Analyse one or more logs by streaming them, resuming from the checkpoint
+ * stored next to the live log when it still matches. Compressed, rotated and
+ * extra logs are "sealed": read in full, and any change to one of them (or a
+ * truncated or rotated live log) rebuilds the analysis from scratch.
+ */
+export async function analyzeLog(
+  logPath: string | string[],
+  options?: AnalyzerOptions,
+  {
+    useCheckpoint = true,
+    groupBy = null,
+    rules = BUILTIN_RULES,
+    rotated = true,
+  }: { useCheckpoint?: boolean; groupBy?: GroupBy | null; rules?: AntiPatternRule[]; rotated?: boolean } = {},
+): Promise<LogAnalysis> {
+  const combined = combineOptions(options)
+  const checkpointOptions: CheckpointOptions = {
+    windowSize: combined.windowSize,
+    minSequenceLength: combined.minSequenceLength,
+    unit: combined.unit,
+    idleGapMs: combined.session.idleGapMs,
+    splitOnBufferChange: combined.session.splitOnBufferChange,
+    groupBy,
+    rules: rules.map(ruleIdentity).sort(),
+  }
+
+  const logPaths = await resolveLogPaths(logPath, { rotated })
+  if (logPaths.length === 0) {
+    throw new Error(`No keystroke logs found for ${[logPath].flat().join(", ")}`)
+  }
+  // Only the last uncompressed log can grow, so it is the one we resume
+  const tail = [...logPaths].reverse().find((path) => !isCompressedLog(path)) ?? null
+  const sealedPaths = logPaths.filter((path) => path !== tail)
+  const path = checkpointPath(tail ?? logPaths[logPaths.length - 1])
+  const size = tail ? (await stat(tail)).size : 0
+  const sealed = await Promise.all(sealedPaths.map((sealedPath) => describeFile(sealedPath)))
+
+  const stored = useCheckpoint ? await loadCheckpoint(path) : null
+  const prior = stored && (await isCheckpointValid(stored, tail, size, checkpointOptions, sealed)) ? stored : null
+  const status: LogAnalysis["checkpoint"]["status"] = !useCheckpoint
+    ? "disabled"
+    : prior
+      ? "resumed"
+      : stored
+        ? "rebuilt"
+        : "created"
+
+  const state: AnalysisState = {
+    eventCount: prior?.eventCount ?? 0,
+    sequences: new Map(prior?.sequences ?? []),
+    templates: new Map(prior?.templates ?? []),
+    sessions: prior?.sessions ?? [],
+    findings: new Map(prior?.findings ?? []),
+    commands: new Map(prior?.commands ?? []),
+    builtins: new Map(prior?.builtins ?? []),
+    groups: new Map(
+      (prior?.groups ?? []).map(([name, group]) => [
+        name,
+        { eventCount: group.eventCount, sequences: new Map(group.sequences) },
+      ]),
+    ),
+  }
+  const resolveGroup = groupBy ? createGroupResolver(groupBy) : null
+  const absorb = async (session: KeystrokeSession) => {
+    accumulateSequences(state.sequences, session.events, combined)
+    accumulateTemplates(state.templates, session.events)
+    state.sessions.push(summarizeSession(session))
+    accumulateFindings(state.findings, session.events, rules)
+    accumulateCommands(state.commands, session.events)
+    accumulateBuiltinCandidates(state.builtins, session.events, combined.windowSize)
+
+    if (!resolveGroup) return
+    for (const run of await splitByGroup(session.events, resolveGroup)) {
+      let group = state.groups.get(run.group)
+      if (!group) {
+        group = { eventCount: 0, sequences: new Map() }
+        state.groups.set(run.group, group)
+      }
+      group.eventCount += run.events.length
+      accumulateSequences(group.sequences, run.events, combined)
+    }
+  }
+
+  // Sessions never span two files, so each sealed log gets its own splitter
+  if (!prior) {
+    for (const sealedPath of sealedPaths) {
+      const splitter = createSessionSplitter(combined.session, { index: state.sessions.length, boundary: "start" })
+      for await (const record of streamKeystrokeLog(sealedPath)) {
+        const { closed } = splitter.push(record.event)
+        if (closed) await absorb(closed)
+        state.eventCount++
+      }
+      const last = splitter.flush()
+      if (last) await absorb(last)
+    }
+  }
+
+  const startOffset = prior?.offset ?? 0
+  const splitter = createSessionSplitter(
+    combined.session,
+    prior?.nextSession ?? { index: state.sessions.length, boundary: "start" },
+  )
+  let resumeOffset = startOffset
+  let resumeEventCount = state.eventCount
+  let nextBoundary: SessionBoundary = prior?.nextSession.boundary ?? "start"
+
+  for await (const record of tail ? streamKeystrokeLog(tail, startOffset) : []) {
+    const { closed, started } = splitter.push(record.event)
+    if (closed) await absorb(closed)
+    if (started) {
+      resumeOffset = record.offset
+      resumeEventCount = state.eventCount
+    }
+    state.eventCount++
+
+    if (isSessionMarker(record.event)) {
+      resumeOffset = record.end
+      resumeEventCount = state.eventCount
+      nextBoundary = "marker"
+    }
+  }
+
+  const openSession = splitter.flush()
+
+  // Save before absorbing the open session: the next run re-reads it from `offset`
+  if (useCheckpoint) {
+    const checkpoint: Checkpoint = {
+      version: CHECKPOINT_VERSION,
+      options: checkpointOptions,
+      offset: resumeOffset,
+      eventCount: openSession ? resumeEventCount : state.eventCount,
+      head: tail ? await fingerprint(tail, Math.min(size, FINGERPRINT_BYTES)) : { length: 0, hash: "" },
+      sealed,
+      nextSession: openSession
+        ? { index: openSession.index, boundary: openSession.boundary }
+        : { index: state.sessions.length, boundary: nextBoundary },
+      sequences: Array.from(state.sequences.entries()),
+      templates: Array.from(state.templates.entries()),
+      sessions: state.sessions,
+      findings: Array.from(state.findings.entries()),
+      commands: Array.from(state.commands.entries()),
+      builtins: Array.from(state.builtins.entries()),
+      groups: Array.from(state.groups.entries()).map(([name, group]) => [
+        name,
+        { eventCount: group.eventCount, sequences: Array.from(group.sequences.entries()) },
+      ]),
+    }
+    await saveCheckpoint(path, checkpoint)
+  }
+
+  if (openSession) await absorb(openSession)
+
+  return {
+    logPaths,
+    eventCount: state.eventCount,
+    sequences: rankSequences(state.sequences, combined),
+    templates: rankTemplates(state.templates, combined),
+    sessions: state.sessions,
+    findings: rankFindings(state.findings),
+    commands: rankCommandClusters(state.commands, combined),
+    builtins: findBuiltinEquivalents(
+      Array.from(state.builtins.values()).filter((candidate) => candidate.count >= combined.minOccurrences),
+    ),
+    groups: groupBy
+      ? Array.from(state.groups.entries())
+          .map(([name, group]) => ({
+            scope: { kind: groupBy, name },
+            eventCount: group.eventCount,
+            sequences: rankSequences(group.sequences, combined),
+          }))
+          .sort((a, b) => b.eventCount - a.eventCount)
+      : [],
+    checkpoint: { path, status, resumedFrom: startOffset },
+  }
+}
+
+async function loadCheckpoint(path: string): Promise<Checkpoint | null> {
+  try {
+    const parsed = JSON.parse(await readFile(path, "utf8")) as Checkpoint
+    return parsed.version === CHECKPOINT_VERSION ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+async function saveCheckpoint(path: string, checkpoint: Checkpoint): Promise<void> {
+  try {
+    await writeFile(path, JSON.stringify(checkpoint))
+  } catch (error) {
+    console.warn(`Unable to write analysis checkpoint at ${path}: ${error}`)
+  }
+}
+
+async function isCheckpointValid(
+  checkpoint: Checkpoint,
+  tail: string | null,
+  size: number,
+  options: CheckpointOptions,
+  sealed: SealedLog[],
+): Promise<boolean> {
+  if (JSON.stringify(checkpoint.options) !== JSON.stringify(options)) return false
+  if (JSON.stringify(checkpoint.sealed) !== JSON.stringify(sealed)) return false
+  if (!tail) return checkpoint.offset === 0
+  if (size < checkpoint.offset || size < checkpoint.head.length) return false
+  const head = await fingerprint(tail, checkpoint.head.length)
+  return head.hash === checkpoint.head.hash
+}
+
+async function describeFile(path: string): Promise<SealedLog> {
+  const { size } = await stat(path)
+  return { path, size, hash: (await fingerprint(path, Math.min(size, FINGERPRINT_BYTES))).hash }
+}
+
+async function fingerprint(path: string, length: number): Promise<{ length: number; hash: string }> {
+  const handle = await open(path, "r")
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, 0)
+    const hash = createHash("sha256").update(buffer.subarray(0, bytesRead)).digest("hex")
+    return { length: bytesRead, hash }
+  } finally {
+    await handle.close()
+  }
+}
@@ -1,20 +1,80 @@
 #!/usr/bin/env node
 import { cli, define } from "gunshi"
 import { dirname, resolve } from "node:path"
-import { mkdir, stat, writeFile } from "node:fs/promises"
+import { appendFile, mkdir, stat, writeFile } from "node:fs/promises"
 import { DEFAULT_MODEL } from "./consts.ts"
-import { readKeystrokeLog } from "./log.ts"
 import { combineOptions, findFrequentSequences } from "./analyzer.ts"
+import { analyzeAdoption, loadAdoptionLedger, mappingsFromKeymaps } from "./adoption.ts"
+import { analyzeLog } from "./checkpoint.ts"
+import { compactLogs } from "./compact.ts"
+import { countIssues, validateLogs } from "./validate.ts"
+import { IMPORT_FORMATS, importKeystrokes } from "./importers.ts"
 import { collectKeymaps } from "./keymaps.ts"
-import { requestSuggestions } from "./ai.ts"
-import { SuggestionResponse } from "./types.ts"
+import { checkSuggestions, clashesWithKeymaps } from "./conflicts.ts"
+import { reviewSuggestions } from "./review.ts"
+import {
+  decideSuggestions,
+  LEDGER_STATUSES,
+  LedgerDecision,
+  loadSuggestionLedger,
+  partitionByLedger,
+  recordProposals,
+  saveSuggestionLedger,
+} from "./ledger.ts"
+import { buildSuggestionPrompt, SuggestionParams } from "./ai.ts"
+import { CACHE_MODES, createResponseStore, defaultCacheDir, ResponseStore } from "./cache.ts"
+import { createSuggestionProvider, PROVIDER_NAMES } from "./providers.ts"
+import { REDACTION_LEVELS } from "./redact.ts"
+import { createRuleRegistry, loadRuleModule, selectRules } from "./rules.ts"
+import { generateLuaKeymap } from "./snippets.ts"
+import { UNGROUPED } from "./groups.ts"
+import {
+  AdoptedMapping,
+  AdoptionReport,
+  BuiltinRecommendation,
+  CacheMode,
+  CommandClusterStat,
+  CompactSummary,
+  GroupBy,
+  ImportFormat,
+  LatencyProfile,
+  LedgerEntry,
+  LedgerStatus,
+  LogAnalysis,
+  LogValidationReport,
+  ModelSuggestion,
+  PatternTemplateStat,
+  ProviderName,
+  RedactionLevel,
+  RuleFinding,
+  SequenceGroup,
+  SequenceSortOrder,
+  SequenceUnit,
+  SessionSummary,
+  SuggestionResponse,
+  SuggestionScope,
+} from "./types.ts"
 
 type OutputFormat = "human" | "json"
 
+const SORT_ORDERS: SequenceSortOrder[] = ["savings", "count", "latency"]
+const GROUP_BY_VALUES: GroupBy[] = ["filetype", "project"]
+const SEQUENCE_UNITS: SequenceUnit[] = ["key", "action"]
+// Each group costs one model call, so only the busiest groups get suggestions
+const MAX_SUGGESTION_GROUPS = 5
+
 type OutputPayload = {
   logPath: string
+  logPaths: string[]
   eventCount: number
   sequences: ReturnType<typeof findFrequentSequences>
+  templates: PatternTemplateStat[]
+  sessions: SessionSummary[]
+  findings: RuleFinding[]
+  builtins: BuiltinRecommendation[]
+  commands: CommandClusterStat[]
+  groups: SequenceGroup[]
+  checkpoint: LogAnalysis["checkpoint"]
   keymapCount: number
   dotfilesPaths: string[]
   suggestions: SuggestionResponse | null
@@ -23,7 +83,7 @@ type OutputPayload = {
 }
 
 const argv = typeof Bun !== "undefined" && Array.isArray(Bun.argv) ? Bun.argv.slice(2) : process.argv.slice(2)
-const defaultLogPath = () => {
+const defaultDataDir = () => {
   const xdgPath = process.env.XDG_DATA_HOME
   const base =
     xdgPath && xdgPath.length > 0
@@ -31,8 +91,10 @@ const defaultLogPath = () => {
       : process.env.HOME
         ? `${process.env.HOME}/.local/share`
         : "."
-  return `${base}/nvim/ai_keymap/keystrokes.jsonl`
+  return `${base}/nvim/ai_keymap`
 }
+const defaultLogPath = () => `${defaultDataDir()}/keystrokes.jsonl`
+const defaultLedgerPath = () => `${defaultDataDir()}/suggestions.json`
 
 const command = define({
   name: "ai-keymap",
@@ -41,7 +103,8 @@ const command = define({
   args: {
     log: {
       type: "string",
-      description: "Path to keystroke JSONL log",
+      multiple: true,
+      description: "Keystroke JSONL log, gzip log or glob (repeatable)",
       default: defaultLogPath(),
     },
     dotfiles: {
@@ -64,11 +127,99 @@ const command = define({
       description: "Minimum repeats before considering a sequence",
       default: 2,
     },
+    unit: {
+      type: "string",
+      description: "Mine raw keys or parsed Vim actions like 3dw and \"ayy (key|action)",
+      default: "key",
+    },
+    closed: {
+      type: "boolean",
+      negatable: true,
+      description: "Fold sub-sequences into longer sequences with the same support (disable with --no-closed)",
+      default: true,
+    },
+    sort: {
+      type: "string",
+      description: "Sequence ranking (savings|count|latency)",
+      default: "savings",
+    },
+    idleGap: {
+      type: "number",
+      description: "Idle seconds that split the log into separate sessions",
+      default: 300,
+    },
+    groupBy: {
+      type: "string",
+      description: "Rank sequences separately per group and scope suggestions to it (filetype|project)",
+    },
+    checkpoint: {
+      type: "boolean",
+      negatable: true,
+      description: "Resume from the analysis checkpoint next to the log (disable with --no-checkpoint)",
+      default: true,
+    },
+    rotated: {
+      type: "boolean",
+      negatable: true,
+      description: "Also read rotated and archived siblings of each log, like <log>.1.gz (disable with --no-rotated)",
+      default: true,
+    },
+    enableRule: {
+      type: "string",
+      multiple: true,
+      description: "Run only the named anti-pattern rules (repeatable)",
+    },
+    disableRule: {
+      type: "string",
+      multiple: true,
+      description: "Skip the named anti-pattern rules (repeatable)",
+    },
+    rulesModule: {
+      type: "string",
+      multiple: true,
+      description: "Local module exporting custom anti-pattern rules (repeatable)",
+    },
+    redact: {
+      type: "string",
+      description: "What to strip before anything is sent to the model (none|standard|strict)",
+      default: "standard",
+    },
+    dryRunPrompt: {
+      type: "boolean",
+      description: "Print the redacted prompt that would be sent and exit without calling the model",
+      default: false,
+    },
     skipAi: {
       type: "boolean",
       description: "Skip GPT suggestions and only print heuristics",
       default: false,
     },
+    provider: {
+      type: "string",
+      description: "Where suggestions come from (openai|openai-compatible|offline)",
+      default: "openai",
+    },
+    baseUrl: {
+      type: "string",
+      description: "Endpoint of an OpenAI-compatible server for --provider openai-compatible",
+    },
+    cache: {
+      type: "string",
+      description: "Reuse and store model answers on disk (off|read|write)",
+      default: "write",
+    },
+    cacheDir: {
+      type: "string",
+      description: "Directory of cached model answers (default: $XDG_CACHE_HOME/ai-keymap/responses)",
+    },
+    record: {
+      type: "string",
+      description: "Call the model and save every answer as a fixture in this directory",
+    },
+    replay: {
+      type: "string",
+      description: "Answer only from fixtures saved with --record, without network or API key",
+    },
     model: {
       type: "string",
       description: "Model identifier",
@@ -89,6 +240,16 @@ const command = define({
       description: "Print only AI suggestions in human format",
       default: false,
     },
+    strict: {
+      type: "boolean",
+      description: "Drop suggestions that conflict with existing keymaps",
+      default: false,
+    },
+    ledger: {
+      type: "string",
+      description: "Suggestion ledger: rejected entries steer the model and decided ones are filtered out",
+      default: defaultLedgerPath(),
+    },
   },
   run: async (ctx) => {
     const {
@@ -97,63 +258,173 @@ const command = define({
       top,
       window,
       minOccurrences,
+      unit,
+      closed,
+      sort,
+      idleGap,
+      groupBy,
+      checkpoint,
+      enableRule,
+      disableRule,
+      rulesModule,
+      rotated,
+      redact,
+      dryRunPrompt,
       skipAi,
+      provider: providerName,
+      baseUrl,
+      cache,
+      cacheDir,
+      record,
+      replay,
       model,
       temperature,
       format,
       suggestionsOnly,
+      strict,
+      ledger,
     } = ctx.values
 
-    const logPath = resolvePath(log)
-    await ensureLogFile(logPath)
+    const logInputs = toList(log).map(resolvePath)
+    const logPath = logInputs[0]
+    if (logInputs.length === 1 && !/[*?[]/.test(logPath)) {
+      await ensureLogFile(logPath)
+    }
 
     const outputFormat = normalizeFormat(format)
-    if (outputFormat === "human") {
-      console.log(`[ai-keymap] Analyzing log at ${logPath} ...`)
+    const sortBy = normalizeSortOrder(sort)
+    const grouping = normalizeGroupBy(groupBy)
+    const sequenceUnit = normalizeUnit(unit)
+    const redactionLevel = normalizeRedactionLevel(redact)
+    const provider = createSuggestionProvider(normalizeProvider(providerName), {
+      baseURL: baseUrl,
+      cache: resolveResponseStore(normalizeCacheMode(cache), cacheDir, record, replay),
+    })
+    if (outputFormat === "human" && !dryRunPrompt) {
+      console.log(`[ai-keymap] Analyzing ${logInputs.length > 1 ? "logs" : "log"} at ${logInputs.join(", ")} ...`)
     }
     const windowSize = window
     const topN = top
     const minRepeat = minOccurrences
 
-    const events = await readKeystrokeLog(logPath)
     const analyzerOptions = combineOptions({
       windowSize,
-      minSequenceLength: 2,
+      // A single parsed action (`ciw`) is already a multi-key gesture
+      minSequenceLength: sequenceUnit === "action" ? 1 : 2,
       minOccurrences: minRepeat,
+      unit: sequenceUnit,
+      sortBy,
+      closed,
+      session: { idleGapMs: idleGap * 1000 },
+    })
+    const registry = createRuleRegistry()
+    for (const modulePath of toList(rulesModule)) {
+      for (const rule of await loadRuleModule(resolvePath(modulePath))) {
+        registry.register(rule)
+      }
+    }
+    const rules = selectRules(registry, { enable: toList(enableRule), disable: toList(disableRule) })
+
+    const analysis = await analyzeLog(logInputs, analyzerOptions, {
+      useCheckpoint: checkpoint,
+      groupBy: grouping,
+      rules,
+      rotated,
     })
-    const sequences = findFrequentSequences(events, analyzerOptions).slice(0, topN)
+    const sequences = analysis.sequences.slice(0, topN)
+    const templates = analysis.templates.slice(0, topN)
+    const sessions = analysis.sessions
+    const commands = analysis.commands.slice(0, topN)
+    const groups = analysis.groups.map((group) => ({ ...group, sequences: group.sequences.slice(0, topN) }))
 
-    const dotfilesInput = Array.isArray(dotfiles)
-      ? dotfiles
-      : dotfiles
-        ? [dotfiles]
-        : []
-    const dotfilesPaths = await resolveDotfiles(dotfilesInput)
-    const existingKeymaps = dotfilesPaths.length ? await collectKeymaps(dotfilesPaths) : []
+    const dotfilesPaths = await resolveDotfiles(toList(dotfiles))
+    const { keymaps: existingKeymaps, leaders } = await collectKeymaps(dotfilesPaths)
+
+    const ledgerPath = resolvePath(ledger)
+    const ledgerEntries = skipAi ? [] : await loadSuggestionLedger(ledgerPath)
+    const negativeExamples = ledgerEntries.filter((entry) => entry.status === "rejected")
+
+    const requestBase = {
+      existingKeymaps,
+      leaders,
+      negativeExamples,
+      model: model ?? DEFAULT_MODEL,
+      temperature,
+      topN,
+      redact: redactionLevel,
+    }
+    const requests: SuggestionParams[] = grouping
+      ? groups
+          .filter((entry) => entry.sequences.length)
+          .slice(0, MAX_SUGGESTION_GROUPS)
+          // Keys with no filetype or project belong to no scope, so they are suggested globally
+          .map((group) => ({
+            ...requestBase,
+            sequences: group.sequences,
+            ...(group.scope.name === UNGROUPED ? {} : { scope: group.scope }),
+          }))
+      : [{ ...requestBase, sequences, templates, commands }]
+
+    if (dryRunPrompt) {
+      emitPrompts(requests, outputFormat)
+      return
+    }
 
     let suggestionResponse: SuggestionResponse | null = null
     const skipAiEnabled = skipAi
+    // Replayed answers need neither the network nor credentials
+    const unavailable = skipAiEnabled || replay ? null : provider.unavailableReason()
 
-    if (!skipAiEnabled && process.env.OPENAI_API_KEY) {
+    if (!skipAiEnabled && !unavailable) {
       try {
-        suggestionResponse = await requestSuggestions({
-          sequences,
-          existingKeymaps,
-          model: model ?? DEFAULT_MODEL,
-          temperature,
-          topN,
-        })
+        const responses: SuggestionResponse[] = []
+        for (const request of requests) {
+          responses.push(await provider.suggest(request))
+        }
+        const reviewed = reviewSuggestions(
+          checkSuggestions(
+            responses.flatMap((response) => response.suggestions),
+            existingKeymaps,
+            leaders,
+          ),
+          { sequences: requests.flatMap((request) => request.sequences), templates, commands },
+          leaders,
+        )
+        const now = new Date()
+        const { fresh: checked, decided } = partitionByLedger(reviewed, ledgerEntries, now)
+        suggestionResponse = {
+          suggestions: strict ? checked.filter((suggestion) => !clashesWithKeymaps(suggestion)) : checked,
+          raw: responses.map((response) => response.raw).join("\n\n"),
+          provider: provider.name,
+          attempts: responses.reduce((total, response) => total + (response.attempts ?? 0), 0),
+          rejected: responses.flatMap((response) => response.rejected ?? []),
+          ...(strict ? { dropped: checked.filter(clashesWithKeymaps) } : {}),
+          ...(decided.length ? { decided } : {}),
+        }
+        try {
+          await saveSuggestionLedger(ledgerPath, recordProposals(ledgerEntries, suggestionResponse.suggestions, now))
+        } catch (error) {
+          console.warn(`Unable to update the suggestion ledger at ${ledgerPath}: ${error}`)
+        }
       } catch (error) {
-        console.error(`Failed to request GPT suggestions: ${error}`)
+        console.error(`Failed to request suggestions from ${provider.name}: ${error}`)
       }
-    } else if (!skipAiEnabled) {
-      console.warn("OPENAI_API_KEY not found. Skipping AI suggestions.")
+    } else if (unavailable) {
+      console.warn(`${unavailable}. Skipping AI suggestions (use --provider offline for heuristic ones).`)
     }
 
     emitOutput({
       logPath,
-      eventCount: events.length,
+      logPaths: analysis.logPaths,
+      eventCount: analysis.eventCount,
       sequences,
+      templates,
+      sessions,
+      findings: analysis.findings,
+      builtins: analysis.builtins,
+      commands,
+      groups,
+      checkpoint: analysis.checkpoint,
       keymapCount: existingKeymaps.length,
       dotfilesPaths,
       suggestions: suggestionResponse,
@@ -163,24 +434,339 @@ const command = define({
   },
 })
 
-await cli(argv, command).catch((error) => {
-  console.error(error)
-  process.exitCode = 1
+const adoptionCommand = define({
+  name: "adoption",
+  description: "Check whether adopted mappings are used and replaced the sequences they compress.",
+  toKebab: true,
+  args: {
+    log: {
+      type: "string",
+      multiple: true,
+      description: "Keystroke JSONL log, gzip log or glob (repeatable)",
+      default: defaultLogPath(),
+    },
+    ledger: {
+      type: "string",
+      description: "JSON ledger of adopted mappings ({ mode, lhs, sequence, adoptedAt })",
+    },
+    dotfiles: {
+      type: "string",
+      multiple: true,
+      description: "Paths to scan for adopted keymaps, used with --adopted-at (repeatable)",
+    },
+    adoptedAt: {
+      type: "string",
+      description: "Adoption date for the keymaps found in --dotfiles (e.g. 2026-09-01)",
+    },
+    lhs: {
+      type: "string",
+      multiple: true,
+      description: "Only report dotfile keymaps with this lhs (repeatable)",
+    },
+    leader: {
+      type: "string",
+      description: "Key that <leader> stands for in the log",
+      default: "\\",
+    },
+    format: {
+      type: "string",
+      description: "Output format (human|json)",
+      default: "human",
+    },
+  },
+  run: async (ctx) => {
+    const { log, ledger, dotfiles, adoptedAt, lhs, leader, format } = ctx.values
+    const logInputs = toList(log).map(resolvePath)
+    const outputFormat = normalizeFormat(format)
+
+    const mappings: AdoptedMapping[] = []
+    if (ledger) {
+      mappings.push(...(await loadAdoptionLedger(resolvePath(ledger))))
+    }
+    if (adoptedAt) {
+      const dotfilesPaths = await resolveDotfiles(toList(dotfiles))
+      const { keymaps } = await collectKeymaps(dotfilesPaths)
+      mappings.push(...mappingsFromKeymaps(keymaps, adoptedAt, toList(lhs)))
+    }
+    if (!ledger && !adoptedAt) {
+      throw new Error("adoption needs --ledger or --adopted-at to know which mappings were adopted")
+    }
+
+    const { reports, undatedEvents } = await analyzeAdoption(logInputs, mappings, { leader })
+    if (outputFormat === "json") {
+      console.log(JSON.stringify({ logPaths: logInputs, undatedEvents, reports }, null, 2))
+      return
+    }
+    emitAdoptionReport(reports, undatedEvents)
+  },
 })
 
-function generateLuaKeymap(suggestion: SuggestionResponse["suggestions"][0]): string {
-  const { mode, lhs, sequence, recommendedMapping } = suggestion
+const compactCommand = define({
+  name: "compact",
+  description: "Merge, dedupe and re-sequence logs, archiving old events into gzip monthly files.",
+  toKebab: true,
+  args: {
+    log: {
+      type: "string",
+      multiple: true,
+      description: "Keystroke JSONL log, gzip log or glob to merge (repeatable); rotated siblings are included",
+      default: defaultLogPath(),
+    },
+    output: {
+      type: "string",
+      description: "Live log to write (defaults to the first live --log)",
+    },
+    keepDays: {
+      type: "number",
+      description: "Keep events from the last N days in the live log; older ones go to <output>.<yyyy-mm>.gz",
+      default: 30,
+    },
+    format: {
+      type: "string",
+      description: "Output format (human|json)",
+      default: "human",
+    },
+  },
+  run: async (ctx) => {
+    const { log, output, keepDays, format } = ctx.values
+    if (!Number.isFinite(keepDays) || keepDays < 0) {
+      throw new Error(`Invalid --keep-days '${keepDays}'`)
+    }
+    const summary = await compactLogs(toList(log).map(resolvePath), {
+      output: output ? resolvePath(output) : undefined,
+      keepDays,
+    })
+    if (normalizeFormat(format) === "json") {
+      console.log(JSON.stringify(summary, null, 2))
+      return
+    }
+    emitCompactSummary(summary)
+  },
+})
 
-  // Use recommendedMapping if provided and meaningful, otherwise fall back to sequence
-  const rhs = recommendedMapping && recommendedMapping.trim() !== ""
-    ? recommendedMapping.trim()
-    : sequence.join("")
+const validateCommand = define({
+  name: "validate",
+  description: "Check logs against the event schema and report malformed, duplicate and out-of-order lines.",
+  toKebab: true,
+  args: {
+    log: {
+      type: "string",
+      multiple: true,
+      description: "Keystroke JSONL log, gzip log or glob to check (repeatable)",
+      default: defaultLogPath(),
+    },
+    rotated: {
+      type: "boolean",
+      negatable: true,
+      description: "Also check rotated and archived siblings of each log (disable with --no-rotated)",
+      default: true,
+    },
+    format: {
+      type: "string",
+      description: "Output format (human|json)",
+      default: "human",
+    },
+  },
+  run: async (ctx) => {
+    const { log, rotated, format } = ctx.values
+    const reports = await validateLogs(toList(log).map(resolvePath), { rotated })
+    if (normalizeFormat(format) === "json") {
+      console.log(JSON.stringify(reports, null, 2))
+    } else {
+      emitValidationReports(reports)
+    }
+    if (reports.some((report) => countIssues(report) > 0)) {
+      process.exitCode = 1
+    }
+  },
+})
 
-  const escapedLhs = lhs.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
-  const escapedRhs = rhs.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+const importCommand = define({
+  name: "import",
+  description: "Convert a Vim scriptout (-w/-W) file or a CSV/TSV of keys into keystroke JSONL.",
+  toKebab: true,
+  args: {
+    input: {
+      type: "string",
+      description: "File to import",
+      required: true,
+    },
+    from: {
+      type: "string",
+      description: "Source format (scriptout|csv|tsv), detected from the extension by default",
+    },
+    output: {
+      type: "string",
+      description: "Log to append the events to (prints JSONL to stdout by default)",
+    },
+    start: {
+      type: "string",
+      description: "Wall-clock start of the recording (defaults to the CSV timestamps or the file's mtime)",
+    },
+    intervalMs: {
+      type: "number",
+      description: "Spacing between keys for sources without timestamps",
+      default: 200,
+    },
+    inferModes: {
+      type: "boolean",
+      negatable: true,
+      description: "Estimate the mode of keys the source does not label (disable with --no-infer-modes)",
+      default: true,
+    },
+  },
+  run: async (ctx) => {
+    const { input, from, output, start, intervalMs, inferModes } = ctx.values
+    const inputPath = resolvePath(input)
+    const startTime = start === undefined ? undefined : Date.parse(start)
+    if (startTime !== undefined && Number.isNaN(startTime)) {
+      throw new Error(`Invalid --start '${start}'`)
+    }
 
-  return `vim.keymap.set("${mode}", "${escapedLhs}", "${escapedRhs}", { desc = "AI-suggested: compress ${sequence.join(" → ")}" })`
-}
+    const result = await importKeystrokes(inputPath, {
+      format: from ? normalizeImportFormat(from) : undefined,
+      start: startTime,
+      intervalMs,
+      inferModes,
+    })
+    const lines = result.events.map((event) => `${JSON.stringify(event)}\n`).join("")
+    if (!output) {
+      process.stdout.write(lines)
+      return
+    }
+
+    const outputPath = resolvePath(output)
+    await ensureLogFile(outputPath)
+    await appendFile(outputPath, lines)
+    const keys = result.events.filter((event) => event.type === "key").length
+    const commands = result.events.filter((event) => event.type === "command").length
+    console.log(
+      `[ai-keymap] Imported ${keys} keys and ${commands} command lines from ${inputPath} (${result.format}) into ${outputPath}`,
+    )
+    if (result.skipped) {
+      console.log(`[ai-keymap] Skipped ${result.skipped} keys without a key notation (mouse, focus and other special events)`)
+    }
+  },
+})
+
+const ledgerArgs = {
+  id: {
+    type: "string",
+    multiple: true,
+    required: true,
+    description: "Ledger id of the suggestion, or a unique prefix of it (repeatable)",
+  },
+  reason: {
+    type: "string",
+    description: "Why, kept in the ledger; rejection reasons are shown to the model",
+  },
+  ledger: {
+    type: "string",
+    description: "Suggestion ledger to update",
+    default: defaultLedgerPath(),
+  },
+} as const
+
+const acceptCommand = define({
+  name: "accept",
+  description: "Mark suggestions as accepted so they are not proposed again.",
+  toKebab: true,
+  args: ledgerArgs,
+  run: async (ctx) => {
+    const { id, reason, ledger } = ctx.values
+    await decide(ledger, toList(id), { status: "accepted", reason })
+  },
+})
+
+const rejectCommand = define({
+  name: "reject",
+  description: "Mark suggestions as rejected; later runs tell the model to avoid them.",
+  toKebab: true,
+  args: ledgerArgs,
+  run: async (ctx) => {
+    const { id, reason, ledger } = ctx.values
+    await decide(ledger, toList(id), { status: "rejected", reason })
+  },
+})
+
+const snoozeCommand = define({
+  name: "snooze",
+  description: "Hide suggestions for a while; they may be proposed again afterwards.",
+  toKebab: true,
+  args: {
+    ...ledgerArgs,
+    days: {
+      type: "number",
+      description: "How long to hide the suggestions",
+      default: 14,
+    },
+  },
+  run: async (ctx) => {
+    const { id, reason, ledger, days } = ctx.values
+    if (!Number.isFinite(days) || days <= 0) {
+      throw new Error(`Invalid --days '${days}'`)
+    }
+    const snoozedUntil = new Date(Date.now() + days * 86_400_000).toISOString()
+    await decide(ledger, toList(id), { status: "snoozed", reason, snoozedUntil })
+  },
+})
+
+const ledgerCommand = define({
+  name: "ledger",
+  description: "List the suggestions in the ledger and their status.",
+  toKebab: true,
+  args: {
+    ledger: ledgerArgs.ledger,
+    status: {
+      type: "string",
+      multiple: true,
+      description: "Only list entries with this status (proposed|accepted|rejected|snoozed, repeatable)",
+    },
+    format: {
+      type: "string",
+      description: "Output format (human|json)",
+      default: "human",
+    },
+  },
+  run: async (ctx) => {
+    const { ledger, status, format } = ctx.values
+    const statuses = toList(status).map(normalizeLedgerStatus)
+    const entries = (await loadSuggestionLedger(resolvePath(ledger))).filter(
+      (entry) => !statuses.length || statuses.includes(entry.status),
+    )
+    if (normalizeFormat(format) === "json") {
+      console.log(JSON.stringify(entries, null, 2))
+      return
+    }
+    emitLedger(entries)
+  },
+})
+
+type SubCommand =
+  | typeof adoptionCommand
+  | typeof compactCommand
+  | typeof validateCommand
+  | typeof importCommand
+  | typeof acceptCommand
+  | typeof rejectCommand
+  | typeof snoozeCommand
+  | typeof ledgerCommand
+
+await cli(argv, command, {
+  subCommands: new Map<string, SubCommand>([
+    ["adoption", adoptionCommand],
+    ["compact", compactCommand],
+    ["validate", validateCommand],
+    ["import", importCommand],
+    ["accept", acceptCommand],
+    ["reject", rejectCommand],
+    ["snooze", snoozeCommand],
+    ["ledger", ledgerCommand],
+  ]),
+}).catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
 
 function emitOutput(payload: OutputPayload) {
   if (payload.format === "json") {
@@ -188,8 +774,16 @@ function emitOutput(payload: OutputPayload) {
       JSON.stringify(
         {
           logPath: payload.logPath,
+          logPaths: payload.logPaths,
           events: payload.eventCount,
           sequences: payload.sequences,
+          templates: payload.templates,
+          sessions: payload.sessions,
+          findings: payload.findings,
+          builtins: payload.builtins,
+          commands: payload.commands,
+          groups: payload.groups,
+          checkpoint: payload.checkpoint,
           keymapCount: payload.keymapCount,
           dotfilesPaths: payload.dotfilesPaths,
           ai: payload.suggestions,
@@ -207,7 +801,7 @@ function emitOutput(payload: OutputPayload) {
     if (payload.suggestions?.suggestions?.length) {
       payload.suggestions.suggestions.forEach((suggestion, index) => {
         console.log(
-          `${index + 1}. [${suggestion.mode}] map ${suggestion.lhs} => sequence ${suggestion.sequence.join(
+          `${index + 1}. [${suggestion.mode}]${formatScope(suggestion.scope)} map ${suggestion.lhs} => sequence ${suggestion.sequence.join(
             " ",
           )}`,
         )
@@ -219,9 +813,13 @@ function emitOutput(payload: OutputPayload) {
         }
         const luaMapping = generateLuaKeymap(suggestion)
         console.log(`   lua: ${luaMapping}`)
+        printDiagnostics(suggestion)
       })
+      if (payload.suggestions.dropped?.length || payload.suggestions.rejected?.length || payload.suggestions.decided?.length) {
+        console.log(`(${explainSuggestionCount(payload.suggestions)})`)
+      }
     } else if (payload.suggestions) {
-      console.log("AI Suggestions: none (model returned empty set).")
+      console.log(`AI Suggestions: none (${explainSuggestionCount(payload.suggestions)}).`)
     } else {
       console.log("AI Suggestions: skipped.")
     }
@@ -229,8 +827,14 @@ function emitOutput(payload: OutputPayload) {
   }
 
   console.log("=== AI Keymap Analyzer ===")
-  console.log(`Log: ${payload.logPath}`)
+  console.log(`Log: ${payload.logPaths.join(", ")}`)
   console.log(`Events processed: ${payload.eventCount}`)
+  if (payload.checkpoint.status === "resumed") {
+    console.log(`Checkpoint: resumed from byte ${payload.checkpoint.resumedFrom} (${payload.checkpoint.path})`)
+  } else if (payload.checkpoint.status === "rebuilt") {
+    console.log(`Checkpoint: log was truncated or rotated, rebuilt ${payload.checkpoint.path}`)
+  }
+  console.log(`Sessions detected: ${payload.sessions.length}`)
   console.log(`Sequences analysed: ${payload.sequences.length}`)
   if (payload.dotfilesPaths.length) {
     console.log(`Dotfiles scanned: ${payload.dotfilesPaths.join(", ")}`)
@@ -239,26 +843,105 @@ function emitOutput(payload: OutputPayload) {
     console.log("Dotfiles scanned: none")
   }
 
+  if (payload.sessions.length) {
+    console.log("\nSessions:")
+    payload.sessions.forEach((session) => {
+      const modes = session.dominantModes
+        .map((entry) => `${entry.mode}=${(entry.share * 100).toFixed(0)}%`)
+        .join(" ")
+      console.log(
+        `${session.index + 1}. events=${session.eventCount} duration=${formatDuration(session.durationMs)} split=${
+          session.boundary
+        } modes=${modes}${session.file ? ` file=${session.file}` : ""}`,
+      )
+    })
+  }
+
   if (payload.sequences.length === 0) {
     console.log("\nNo repeating sequences detected yet.")
   } else {
-    console.log("\nTop sequences:")
+    console.log(payload.sequences.some((seq) => seq.unit === "action") ? "\nTop action sequences:" : "\nTop sequences:")
     payload.sequences.forEach((seq, index) => {
       const gesture = seq.keys.join(" → ")
       const avg = seq.meanDeltaMs.toFixed(2)
       console.log(
-        `${index + 1}. mode=${seq.mode} count=${seq.count} avgΔ=${avg}ms ${
+        `${index + 1}. mode=${seq.mode} count=${seq.count} avgΔ=${avg}ms saves≈${formatKeystrokes(
+          seq.estimatedSavings,
+        )} keys (${formatKeystrokes(seq.keystrokeCost)}→${formatKeystrokes(seq.replacementCost)} each) ${
           seq.sampleFile ? `sample=${seq.sampleFile}` : ""
         }\n   ${gesture}`,
       )
+      if (seq.latency) {
+        console.log(`   latency: ${formatLatency(seq.latency)}`)
+      }
+      if (seq.absorbed?.length) {
+        const absorbed = seq.absorbed.map((entry) => `${entry.keys.join(" ")} (${entry.count})`).join(", ")
+        console.log(`   absorbs: ${absorbed}`)
+      }
+    })
+  }
+
+  if (payload.templates.length) {
+    console.log("\nGesture families:")
+    payload.templates.forEach((template, index) => {
+      const variants = template.instantiations
+        .slice(0, 5)
+        .map((entry) => `${entry.keys.join("")}×${entry.count}`)
+        .join(", ")
+      console.log(`${index + 1}. mode=${template.mode} count=${template.count} ${template.template}\n   ${variants}`)
+    })
+  }
+
+  if (payload.commands.length) {
+    console.log("\nCommand-line clusters:")
+    payload.commands.forEach((cluster, index) => {
+      const variants = cluster.variants
+        .slice(0, 5)
+        .map((entry) => `${cluster.commandType}${entry.command}×${entry.count}`)
+        .join(", ")
+      console.log(`${index + 1}. ${cluster.category} count=${cluster.count} ${cluster.commandType}${cluster.template}\n   ${variants}`)
+    })
+  }
+
+  if (payload.findings.length) {
+    console.log("\nAnti-patterns:")
+    payload.findings.forEach((finding, index) => {
+      const ranges = finding.evidence.map((entry) => `#${entry.startSeq}-${entry.endSeq} ${entry.keys.join("")}`).join(", ")
+      console.log(`${index + 1}. [${finding.severity}] ${finding.rule} count=${finding.count} ${finding.description}`)
+      console.log(`   try: ${finding.technique}`)
+      console.log(`   seen: ${ranges}`)
+    })
+  }
+
+  if (payload.builtins.length) {
+    console.log("\nBuilt-in equivalents (no mapping needed):")
+    payload.builtins.forEach((entry, index) => {
+      console.log(
+        `${index + 1}. ${entry.keys.join("")} → ${entry.builtin} count=${entry.count} saves≈${formatKeystrokes(entry.estimatedSavings)} keys`,
+      )
+      console.log(`   ${entry.reasons.join("; ")}`)
     })
   }
 
+  payload.groups.forEach((group) => {
+    console.log(`\nTop sequences for ${group.scope.kind}=${group.scope.name} (${group.eventCount} events):`)
+    if (group.sequences.length === 0) {
+      console.log("   none")
+    }
+    group.sequences.forEach((seq, index) => {
+      console.log(
+        `${index + 1}. mode=${seq.mode} count=${seq.count} saves≈${formatKeystrokes(seq.estimatedSavings)} keys   ${seq.keys.join(
+          " → ",
+        )}`,
+      )
+    })
+  })
+
   if (payload.suggestions?.suggestions?.length) {
     console.log("\nAI Suggestions:")
     payload.suggestions.suggestions.forEach((suggestion, index) => {
       console.log(
-        `${index + 1}. [${suggestion.mode}] map ${suggestion.lhs} => sequence ${suggestion.sequence.join(
+        `${index + 1}. [${suggestion.mode}]${formatScope(suggestion.scope)} map ${suggestion.lhs} => sequence ${suggestion.sequence.join(
           " ",
         )}`,
       )
@@ -270,14 +953,179 @@ function emitOutput(payload: OutputPayload) {
       }
       const luaMapping = generateLuaKeymap(suggestion)
       console.log(`   lua: ${luaMapping}`)
+      printDiagnostics(suggestion)
     })
+    if (payload.suggestions.dropped?.length || payload.suggestions.rejected?.length || payload.suggestions.decided?.length) {
+      console.log(`(${explainSuggestionCount(payload.suggestions)})`)
+    }
   } else if (payload.suggestions) {
-    console.log("\nAI Suggestions: none (model returned empty set).")
+    console.log(`\nAI Suggestions: none (${explainSuggestionCount(payload.suggestions)}).`)
   } else {
     console.log("\nAI Suggestions: skipped.")
   }
 }
 
+function printDiagnostics(suggestion: ModelSuggestion) {
+  if (suggestion.ledgerId) {
+    console.log(`   ledger id: ${suggestion.ledgerId}`)
+  }
+  if (suggestion.review) {
+    const { status, score, reasons } = suggestion.review
+    console.log(`   review: ${status} (score ${score.toFixed(2)})${reasons.length ? `: ${reasons.join("; ")}` : ""}`)
+  }
+  suggestion.conflicts?.forEach((conflict) => console.log(`   conflict (${conflict.kind}): ${conflict.message}`))
+}
+
+// Why the list is empty or shorter than what the model returned
+function explainSuggestionCount(response: SuggestionResponse): string {
+  const dropped = response.dropped?.length ?? 0
+  const rejected = response.rejected?.length ?? 0
+  const decided = response.decided?.length ?? 0
+  const reasons = [
+    ...(rejected ? [`${rejected} rejected by schema validation over ${response.attempts} attempt(s)`] : []),
+    ...(dropped ? [`${dropped} dropped by --strict for conflicting with existing keymaps`] : []),
+    ...(decided ? [`${decided} already accepted, rejected or snoozed in the ledger`] : []),
+  ]
+  return reasons.length ? reasons.join("; ") : "model returned empty set"
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return Array.isArray(value) ? value : value ? [value] : []
+}
+
+function emitPrompts(requests: SuggestionParams[], format: OutputFormat) {
+  const prompts = requests.map((request) => ({ scope: request.scope ?? null, ...buildSuggestionPrompt(request) }))
+  if (format === "json") {
+    console.log(JSON.stringify({ redact: requests[0]?.redact, prompts }, null, 2))
+    return
+  }
+
+  if (prompts.every((entry) => !entry.prompt)) {
+    console.log("No recurring sequences available for suggestion; nothing would be sent.")
+    return
+  }
+  prompts.forEach((entry, index) => {
+    if (!entry.prompt) return
+    console.log(`=== Prompt ${index + 1}/${prompts.length}${formatScope(entry.scope ?? undefined)} ===`)
+    console.log(`--- system ---\n${entry.system}`)
+    console.log(`--- prompt ---\n${entry.prompt}\n`)
+  })
+}
+
+function emitAdoptionReport(reports: AdoptionReport[], undatedEvents: number) {
+  console.log("=== Mapping Adoption ===")
+  if (undatedEvents) {
+    console.log(`Events without a wall-clock anchor (recorded before session markers carried time): ${undatedEvents}`)
+  }
+  if (reports.length === 0) {
+    console.log("No adopted mappings found.")
+    return
+  }
+
+  reports.forEach((report, index) => {
+    const { mapping, before, after } = report
+    const advice = report.verdict === "unused" ? " (consider retiring it)" : ""
+    console.log(
+      `${index + 1}. [${mapping.mode}] ${mapping.lhs} => ${mapping.sequence.join("")} adopted ${mapping.adoptedAt}: ${
+        report.verdict
+      }${advice}`,
+    )
+    console.log(
+      `   lhs used ${after.lhsUses}× | old sequence ${before.sequenceUses} → ${after.sequenceUses} (per 1k keys ${before.sequenceRate.toFixed(
+        1,
+      )} → ${after.sequenceRate.toFixed(1)}) | saved≈${formatKeystrokes(report.netSavedKeystrokes)} keys`,
+    )
+  })
+}
+
+async function decide(ledger: string, ids: string[], decision: LedgerDecision) {
+  const path = resolvePath(ledger)
+  const entries = decideSuggestions(await loadSuggestionLedger(path), ids, decision, new Date())
+  await saveSuggestionLedger(path, entries)
+  const until = decision.snoozedUntil ? ` until ${decision.snoozedUntil.slice(0, 10)}` : ""
+  console.log(`[ai-keymap] Marked ${ids.join(", ")} ${decision.status}${until} in ${path}`)
+}
+
+function emitLedger(entries: LedgerEntry[]) {
+  if (!entries.length) {
+    console.log("Suggestion ledger is empty.")
+    return
+  }
+  for (const entry of entries) {
+    const when = (entry.decidedAt ?? entry.proposedAt).slice(0, 10)
+    const until = entry.snoozedUntil ? ` until ${entry.snoozedUntil.slice(0, 10)}` : ""
+    console.log(`${entry.id} ${entry.status}${until} (${when}) [${entry.mode}] ${entry.lhs} => sequence ${entry.sequence.join(" ")}`)
+    if (entry.reason) {
+      console.log(`   reason: ${entry.reason}`)
+    }
+  }
+}
+
+function emitCompactSummary(summary: CompactSummary) {
+  console.log("=== Log Compaction ===")
+  console.log(`Read ${summary.read} events from ${summary.inputs.length} file(s), dropped ${summary.duplicates} duplicate(s)`)
+  console.log(`${summary.output}: ${summary.liveEvents} events`)
+  for (const archive of summary.archives) {
+    console.log(`${archive.path}: ${archive.events} events`)
+  }
+  if (summary.removed.length) {
+    console.log(`Removed merged rotations: ${summary.removed.join(", ")}`)
+  }
+  if (summary.kept.length) {
+    console.log(`Merged but left in place (delete them once you have checked the output): ${summary.kept.join(", ")}`)
+  }
+}
+
+function emitValidationReports(reports: LogValidationReport[]) {
+  console.log("=== Log Validation ===")
+  for (const report of reports) {
+    const versions = Object.entries(report.versions)
+      .map(([version, count]) => `v${version}: ${count}`)
+      .join(", ")
+    const { malformed, duplicate } = report.counts
+    console.log(
+      `${report.path}: ${report.events} events${versions ? ` (${versions})` : ""} | malformed ${malformed} | duplicate ${duplicate} | out-of-order ${
+        report.counts["out-of-order"]
+      }`,
+    )
+    for (const issue of report.issues) {
+      console.log(`  line ${issue.line}: ${issue.kind}: ${issue.message}`)
+    }
+    const unlisted = countIssues(report) - report.issues.length
+    if (unlisted > 0) {
+      console.log(`  ... and ${unlisted} more`)
+    }
+  }
+}
+
+function formatScope(scope: SuggestionScope | undefined): string {
+  return scope ? ` (${scope.kind}=${scope.name})` : ""
+}
+
+function formatLatency(latency: LatencyProfile): string {
+  const gaps = latency.gapProfileMs.map((gap) => gap.toFixed(0)).join(" ")
+  const hesitation =
+    latency.hesitation && latency.hesitationGap !== undefined
+      ? ` hesitates before key ${latency.hesitationGap + 2} (${(latency.hesitationRate * 100).toFixed(0)}% of runs)`
+      : ""
+  return `p50=${latency.p50Ms.toFixed(0)}ms p90=${latency.p90Ms.toFixed(0)}ms max=${latency.maxMs.toFixed(
+    0,
+  )}ms gaps=[${gaps}]ms${hesitation}`
+}
+
+function formatKeystrokes(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(0)}ms`
+  const seconds = ms / 1000
+  if (seconds < 60) return `${seconds.toFixed(1)}s`
+  const minutes = seconds / 60
+  if (minutes < 60) return `${minutes.toFixed(1)}m`
+  return `${(minutes / 60).toFixed(1)}h`
+}
+
 async function resolveDotfiles(explicit: string[]): Promise<string[]> {
   const defaults = ["~/.config/nvim", "~/dotfiles", "~/.vim", "~/.config/chezmoi"]
   const targets = explicit.length ? explicit : defaults
@@ -320,6 +1168,99 @@ function normalizeFormat(input: string | undefined): OutputFormat {
   throw new Error(`Unknown format '${input}'`)
 }
 
+function normalizeImportFormat(input: string): ImportFormat {
+  const value = input.toLowerCase()
+  const match = IMPORT_FORMATS.find((format) => format === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown import format '${input}'`)
+}
+
+function normalizeUnit(input: string | undefined): SequenceUnit {
+  if (!input) return "key"
+  const value = input.toLowerCase()
+  const match = SEQUENCE_UNITS.find((unit) => unit === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown unit '${input}'`)
+}
+
+function normalizeRedactionLevel(input: string | undefined): RedactionLevel {
+  if (!input) return "standard"
+  const value = input.toLowerCase()
+  const match = REDACTION_LEVELS.find((level) => level === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown redaction level '${input}'`)
+}
+
+function normalizeLedgerStatus(input: string): LedgerStatus {
+  const value = input.toLowerCase()
+  const match = LEDGER_STATUSES.find((status) => status === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown ledger status '${input}'`)
+}
+
+function normalizeCacheMode(input: string | undefined): CacheMode {
+  if (!input) return "write"
+  const value = input.toLowerCase()
+  const match = CACHE_MODES.find((mode) => mode === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown cache mode '${input}'`)
+}
+
+function resolveResponseStore(
+  mode: CacheMode,
+  cacheDir: string | undefined,
+  record: string | undefined,
+  replay: string | undefined,
+): ResponseStore | undefined {
+  if (record && replay) {
+    throw new Error("--record and --replay cannot be combined")
+  }
+  if (replay) return createResponseStore(resolvePath(replay), "replay")
+  if (record) return createResponseStore(resolvePath(record), "record")
+  if (mode === "off") return undefined
+  return createResponseStore(resolvePath(cacheDir ?? defaultCacheDir()), mode)
+}
+
+function normalizeProvider(input: string | undefined): ProviderName {
+  if (!input) return "openai"
+  const value = input.toLowerCase()
+  const match = PROVIDER_NAMES.find((name) => name === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown provider '${input}'`)
+}
+
+function normalizeGroupBy(input: string | undefined): GroupBy | null {
+  if (!input) return null
+  const value = input.toLowerCase()
+  const match = GROUP_BY_VALUES.find((groupBy) => groupBy === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown group-by '${input}'`)
+}
+
+function normalizeSortOrder(input: string | undefined): SequenceSortOrder {
+  if (!input) return "savings"
+  const value = input.toLowerCase()
+  const match = SORT_ORDERS.find((order) => order === value)
+  if (match) {
+    return match
+  }
+  throw new Error(`Unknown sort order '${input}'`)
+}
+
 async function ensureLogFile(path: string): Promise<void> {
   const dir = dirname(path)
   try {
@@ -0,0 +1,265 @@
+import { AnalyzerOptions, CommandCategory, CommandClusterStat, KeystrokeEvent, ParsedExCommand } from "./types.ts"
+
+export type CommandTotals = Map<string, CommandClusterStat>
+
+type NormalizedCommand = {
+  category: CommandCategory
+  commandType: string
+  name: string
+  /** Placeholder form shown to users, e.g. `%s/<x>/<y>/g` */
+  template: string
+  /** Cluster identity: the template with abbreviations expanded */
+  key: string
+  /**
+   * The template with arguments kept as typed (`:!`, `:normal`, unknown
+   * commands) replaced by `<args>`; absent when the template has none
+   */
+  masked?: string
+}
+
+// Keep the checkpoint small: rare spellings of a busy cluster are only counted
+const MAX_VARIANTS = 20
+
+// [shortest abbreviation, full name], see `:help ex-cmd-index`
+const COMMAND_NAMES: [string, string][] = [
+  ["s", "substitute"],
+  ["g", "global"],
+  ["v", "vglobal"],
+  ["norm", "normal"],
+  ["e", "edit"],
+  ["w", "write"],
+  ["sp", "split"],
+  ["vs", "vsplit"],
+  ["tabe", "tabedit"],
+  ["new", "new"],
+  ["vne", "vnew"],
+  ["sav", "saveas"],
+  ["r", "read"],
+  ["so", "source"],
+  ["cd", "cd"],
+  ["lcd", "lcd"],
+  ["tc", "tcd"],
+  ["b", "buffer"],
+  ["bd", "bdelete"],
+  ["h", "help"],
+  ["d", "delete"],
+  ["y", "yank"],
+  ["m", "move"],
+  ["co", "copy"],
+  ["j", "join"],
+  ["se", "set"],
+  ["sor", "sort"],
+  ["noh", "nohlsearch"],
+  ["q", "quit"],
+  ["x", "xit"],
+]
+// Commands whose arguments `normalizeArgs` understands, all others may hold anything
+const KNOWN_COMMANDS = new Set(COMMAND_NAMES.map(([, full]) => full).filter((name) => name !== "normal"))
+const FILE_COMMANDS = new Set(["edit", "write", "split", "vsplit", "tabedit", "new", "vnew", "saveas", "read", "source", "cd", "lcd", "tcd"])
+
+const RANGE_ITEM = /^(?:%|\*|\.|\$|\d+|'[a-zA-Z<>[\]'`"^.]|\/(?:\\.|[^/])*\/?|\?(?:\\.|[^?])*\??|\\[/?&])/
+const RANGE_OFFSET = /^[+-]\d*/
+const RANGE_SEPARATOR = /^\s*[,;]\s*/
+
+/**
+ * Split an ex command line into `[range]name[!] args`, e.g. `'<,'>s/a/b/g`
+ * gives range `'<,'>`, name `s` and args `/a/b/g`.
+ */
+export function parseExCommand(line: string): ParsedExCommand {
+  let rest = line.replace(/^[\s:]+/, "")
+  let range = ""
+
+  while (rest.length) {
+    const before = rest
+    const item = rest.match(RANGE_ITEM)
+    if (item) rest = take(item[0])
+    let offset = rest.match(RANGE_OFFSET)
+    while (offset) {
+      rest = take(offset[0])
+      offset = rest.match(RANGE_OFFSET)
+    }
+    const separator = rest.match(RANGE_SEPARATOR)
+    if (separator) rest = take(separator[0])
+    if (rest === before) break
+  }
+  rest = rest.trimStart()
+
+  const name = rest.match(/^(?:[a-zA-Z]+|[!&~<>=@#*])/)?.[0] ?? ""
+  rest = rest.slice(name.length)
+  const bang = name !== "!" && rest.startsWith("!")
+  if (bang) rest = rest.slice(1)
+
+  return { range: range.trim(), name, bang, args: rest.trim() }
+
+  function take(text: string): string {
+    range += text
+    return rest.slice(text.length)
+  }
+}
+
+export function expandCommandName(name: string): string {
+  for (const [abbreviation, full] of COMMAND_NAMES) {
+    if (name.length >= abbreviation.length && full.startsWith(name)) return full
+  }
+  return name
+}
+
+/**
+ * Reduce a command-line event to its cluster: literal patterns, replacements,
+ * file names and numbers become placeholders (`<x>`, `<y>`, `<file>`, `<n>`)
+ * so `:%s/foo/bar/g` and `:%s/baz/qux/g` share the template `%s/<x>/<y>/g`.
+ * Returns null for prompts that are neither ex commands nor searches.
+ */
+export function normalizeCommand(line: string, commandType = ":"): NormalizedCommand | null {
+  if (commandType === "/" || commandType === "?") {
+    const template = normalizeSearch(line, commandType)
+    return { category: "search", commandType, name: "", template, key: commandType + template }
+  }
+  if (commandType !== ":") return null
+
+  const { template, key, name, masked } = normalizeEx(line)
+  return { category: "ex", commandType, name, template, key, ...(masked === undefined ? {} : { masked }) }
+}
+
+export function findCommandClusters(events: KeystrokeEvent[], options?: Pick<AnalyzerOptions, "minOccurrences">) {
+  const totals: CommandTotals = new Map()
+  accumulateCommands(totals, events)
+  return rankCommandClusters(totals, options)
+}
+
+export function accumulateCommands(totals: CommandTotals, sessionEvents: KeystrokeEvent[]) {
+  for (const event of sessionEvents) {
+    if (event.mode !== "command") continue
+    const command = event.key.trim()
+    const normalized = command ? normalizeCommand(command, event.command_type || ":") : null
+    if (!normalized) continue
+
+    const signature = `${normalized.category}:${normalized.key}`
+    let cluster = totals.get(signature)
+    if (!cluster) {
+      cluster = {
+        category: normalized.category,
+        commandType: normalized.commandType,
+        name: normalized.name,
+        template: normalized.template,
+        count: 0,
+        variants: [],
+        sampleFile: event.file,
+      }
+      totals.set(signature, cluster)
+    }
+    cluster.count++
+
+    const variant = cluster.variants.find((entry) => entry.command === command)
+    if (variant) {
+      variant.count++
+    } else if (cluster.variants.length < MAX_VARIANTS) {
+      cluster.variants.push({ command, count: 1 })
+    }
+  }
+}
+
+export function rankCommandClusters(
+  totals: CommandTotals,
+  options?: Pick<AnalyzerOptions, "minOccurrences">,
+): CommandClusterStat[] {
+  const minOccurrences = options?.minOccurrences ?? 2
+  return Array.from(totals.values())
+    .filter((cluster) => cluster.count >= minOccurrences)
+    .map((cluster) => ({ ...cluster, variants: [...cluster.variants].sort((a, b) => b.count - a.count) }))
+    .sort((a, b) => b.count - a.count || b.variants.length - a.variants.length)
+}
+
+function normalizeEx(line: string): { template: string; key: string; name: string; masked?: string } {
+  const parsed = parseExCommand(line)
+  const name = expandCommandName(parsed.name)
+  const range = normalizeRange(parsed.range)
+  const bang = parsed.bang ? "!" : ""
+  const { args, masked } = normalizeArgs(name, parsed.args)
+  const head = `${range}${parsed.name}${bang}`
+  const separator = (text: string) => (text && /^[a-zA-Z]/.test(parsed.name) && /^[\w<]/.test(text) ? " " : "")
+
+  return {
+    template: `${head}${separator(args)}${args}`,
+    key: `${range}${name}${bang}${separator(args)}${args}`,
+    name: name || (range ? "goto" : ""),
+    ...(masked === undefined ? {} : { masked: `${head}${separator(masked)}${masked}` }),
+  }
+}
+
+function normalizeRange(range: string): string {
+  return range
+    .replace(/\/(?:\\.|[^/])*\/?/g, "/<x>/")
+    .replace(/\?(?:\\.|[^?])*\??/g, "?<x>?")
+    .replace(/\d+/g, "<n>")
+}
+
+// `masked` is set when `args` still holds what the user typed
+function normalizeArgs(name: string, args: string): { args: string; masked?: string } {
+  if (!args) return { args: "" }
+
+  if (name === "substitute" || name === "global" || name === "vglobal") {
+    const delimiter = args[0]
+    if (/[\w\s"|\\]/.test(delimiter)) return { args: normalizeLiterals(args) }
+    const [pattern, second, rest] = splitDelimited(args.slice(1), delimiter, name === "substitute" ? 2 : 1)
+    if (name !== "substitute") {
+      // `:g/pat/cmd` runs a nested ex command
+      const head = `${delimiter}${placeholder(pattern, "<x>")}`
+      if (second === undefined) return { args: head }
+      const nested = normalizeEx(second)
+      return {
+        args: `${head}${delimiter}${nested.template}`,
+        ...(nested.masked === undefined ? {} : { masked: `${head}${delimiter}${nested.masked}` }),
+      }
+    }
+    if (second === undefined) return { args: `${delimiter}${placeholder(pattern, "<x>")}` }
+    const flags = rest === undefined ? "" : delimiter + rest.replace(/\d+/g, "<n>")
+    return { args: `${delimiter}${placeholder(pattern, "<x>")}${delimiter}${placeholder(second, "<y>")}${flags}` }
+  }
+
+  if (FILE_COMMANDS.has(name)) return { args: "<file>" }
+  if (name === "help") return { args: "<topic>" }
+  if (name === "buffer") return { args: /^\d+$/.test(args) ? "<n>" : "<file>" }
+  // `:normal` keys, `:!` shell lines and user commands are kept for clustering but never shared
+  if (!KNOWN_COMMANDS.has(name)) return { args: name === "normal" ? args : normalizeLiterals(args), masked: "<args>" }
+  return { args: normalizeLiterals(args) }
+}
+
+function normalizeLiterals(args: string): string {
+  return args.replace(/"(?:\\.|[^"])*"|'[^']*'/g, "<str>").replace(/\b\d+\b/g, "<n>")
+}
+
+function normalizeSearch(line: string, delimiter: string): string {
+  const [pattern, offset] = splitDelimited(line, delimiter, 1)
+  if (!pattern) return offset === undefined ? "" : `${delimiter}${offset}`
+
+  const prefix = pattern.match(/^(?:\\[vVmMcC<])*/)?.[0] ?? ""
+  const body = pattern.slice(prefix.length)
+  const suffix = body.endsWith("\\>") ? "\\>" : ""
+  const literal = suffix ? body.slice(0, -suffix.length) : body
+  const template = `${prefix}${placeholder(literal, "<x>")}${suffix}`
+  return offset === undefined ? template : `${template}${delimiter}${offset}`
+}
+
+function placeholder(value: string, name: string): string {
+  return value ? name : ""
+}
+
+// Split on at most `limit` unescaped delimiters: `a\/b/c/g` gives ["a\/b", "c", "g"]
+function splitDelimited(text: string, delimiter: string, limit: number): [string, string?, string?] {
+  const parts: string[] = []
+  let current = ""
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char === "\\" && index + 1 < text.length) {
+      current += char + text[++index]
+    } else if (char === delimiter && parts.length < limit) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts as [string, string?, string?]
+}
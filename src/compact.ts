@@ -0,0 +1,162 @@
+import { createWriteStream, WriteStream } from "node:fs"
+import { rename, unlink } from "node:fs/promises"
+import { once } from "node:events"
+import { finished } from "node:stream/promises"
+import { createGzip, Gzip } from "node:zlib"
+import { isCompressedLog, resolveLogPaths, rotationFamily, streamKeystrokeLog } from "./log.ts"
+import { eventIdentity, LOG_SCHEMA_VERSION } from "./schema.ts"
+import { isSessionMarker, SESSION_MARKER_MODE } from "./sessions.ts"
+import { CompactSummary, KeystrokeEvent } from "./types.ts"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type CompactOptions = {
+  /** Live log to write; defaults to the first live log among the inputs */
+  output?: string
+  /** Events newer than this stay in the live log, older ones are archived by month */
+  keepDays?: number
+  now?: number
+}
+
+type Bucket = {
+  path: string
+  sink: Gzip | WriteStream
+  file: WriteStream
+  seq: number
+  events: number
+  /** Input file and seq of the last event written, to spot where a new session must begin */
+  source: string | null
+  sourceSeq: number
+}
+
+/**
+ * Merge logs (and their rotated siblings) into one live log plus gzip monthly
+ * archives (`<output>.<yyyy-mm>.gz`). Events repeated across overlapping
+ * rotations are dropped on (seq, timestamp, file), each output file is
+ * re-sequenced from 1, and a `session` start marker is inserted wherever the
+ * merged files used to begin so sessions never join across them. Rotated
+ * files of the output that were consumed are removed; other inputs are kept.
+ * Run it while capture is stopped: appends made during compaction are lost.
+ */
+export async function compactLogs(
+  inputs: string | string[],
+  { output, keepDays = 30, now = Date.now() }: CompactOptions = {},
+): Promise<CompactSummary> {
+  const paths = await resolveLogPaths(inputs)
+  const target = output ?? paths.find((path) => rotationFamily(path) === path && !isCompressedLog(path))
+  if (!target) {
+    throw new Error(`No live keystroke log to compact into among ${[inputs].flat().join(", ")}`)
+  }
+
+  const cutoff = now - keepDays * DAY_MS
+  const buckets = new Map<string, Bucket>()
+  const seen = new Set<string>()
+  let read = 0
+  let duplicates = 0
+
+  for (const path of paths) {
+    // hrtime timestamps are only comparable within the file they were recorded in
+    let anchor: { timeMs: number; timestamp: number } | null = null
+    for await (const { event } of streamKeystrokeLog(path)) {
+      read++
+      // A duplicated marker still dates the rest of this file
+      if (isSessionMarker(event)) {
+        anchor = typeof event.time === "number" ? { timeMs: event.time, timestamp: event.timestamp } : null
+      }
+      const identity = eventIdentity(event)
+      if (seen.has(identity)) {
+        duplicates++
+        continue
+      }
+      seen.add(identity)
+
+      const wallMs = anchor ? anchor.timeMs + (event.timestamp - anchor.timestamp) / 1_000_000 : null
+      const month = wallMs !== null && wallMs < cutoff ? new Date(wallMs).toISOString().slice(0, 7) : null
+      const bucket = await openBucket(buckets, month ? `${target}.${month}.gz` : target)
+
+      const continues = bucket.source === path && event.seq === bucket.sourceSeq + 1
+      if (!continues && !isSessionMarker(event)) {
+        const marker: KeystrokeEvent = {
+          v: LOG_SCHEMA_VERSION,
+          type: "session",
+          seq: 0,
+          raw: "",
+          key: "start",
+          mode: SESSION_MARKER_MODE,
+          timestamp: event.timestamp,
+        }
+        if (wallMs !== null) marker.time = Math.round(wallMs)
+        await writeEvent(bucket, marker)
+      }
+      bucket.source = path
+      bucket.sourceSeq = event.seq
+      await writeEvent(bucket, event)
+    }
+  }
+
+  // Keep the live log even when every event was archived
+  await openBucket(buckets, target)
+  for (const bucket of buckets.values()) {
+    bucket.sink.end()
+    await finished(bucket.file)
+  }
+  for (const bucket of buckets.values()) {
+    await rename(temporaryPath(bucket.path), bucket.path)
+  }
+
+  const removed: string[] = []
+  const kept: string[] = []
+  for (const path of paths) {
+    if (buckets.has(path)) continue
+    if (rotationFamily(path) === target) {
+      await unlink(path)
+      removed.push(path)
+    } else {
+      kept.push(path)
+    }
+  }
+
+  const live = buckets.get(target)!
+  return {
+    inputs: paths,
+    output: target,
+    read,
+    duplicates,
+    written: Array.from(buckets.values()).reduce((sum, bucket) => sum + bucket.events, 0),
+    liveEvents: live.events,
+    archives: Array.from(buckets.values())
+      .filter((bucket) => bucket !== live)
+      .map((bucket) => ({ path: bucket.path, events: bucket.events }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    removed,
+    kept,
+  }
+}
+
+async function openBucket(buckets: Map<string, Bucket>, path: string): Promise<Bucket> {
+  const existing = buckets.get(path)
+  if (existing) return existing
+
+  const file = createWriteStream(temporaryPath(path))
+  await once(file, "open")
+  let sink: Gzip | WriteStream = file
+  if (isCompressedLog(path)) {
+    sink = createGzip()
+    sink.pipe(file)
+  }
+  const bucket: Bucket = { path, sink, file, seq: 0, events: 0, source: null, sourceSeq: 0 }
+  buckets.set(path, bucket)
+  return bucket
+}
+
+async function writeEvent(bucket: Bucket, event: KeystrokeEvent) {
+  bucket.seq++
+  bucket.events++
+  if (!bucket.sink.write(`${JSON.stringify({ ...event, seq: bucket.seq })}\n`)) {
+    await once(bucket.sink, "drain")
+  }
+}
+
+function temporaryPath(path: string): string {
+  return `${path}.compacting`
+}
@@ -0,0 +1,139 @@
+import { findBuiltinCommands } from "./catalog.ts"
+import { splitKeyNotation } from "./grammar.ts"
+import { describeKeymapSource } from "./keymaps.ts"
+import { canonicalLhs, DEFAULT_LEADERS } from "./notation.ts"
+import { KeymapConflict, KeymapConflictKind, KeymapDefinition, Leaders, ModelSuggestion } from "./types.ts"
+
+// Map modes that stand for several modes: `v` is Visual and Select, `map`'s ""
+// Normal, Visual, Select and Operator-pending, `map!` Insert and Cmdline
+const MODE_ALIASES: Record<string, string[]> = {
+  "": ["n", "x", "s", "o"],
+  " ": ["n", "x", "s", "o"],
+  v: ["x", "s"],
+  "!": ["i", "c"],
+  l: ["i", "c"],
+}
+
+/** The single modes a map mode applies in, `v` → `x`, `s` */
+export function expandMapMode(mode: string): string[] {
+  return MODE_ALIASES[mode] ?? [mode]
+}
+
+/**
+ * Attach conflict diagnostics to every suggestion. A suggestion with no
+ * conflicts gets an empty list, so callers can tell checked from unchecked.
+ */
+export function checkSuggestions(
+  suggestions: ModelSuggestion[],
+  keymaps: KeymapDefinition[],
+  leaders: Leaders = DEFAULT_LEADERS,
+): ModelSuggestion[] {
+  return suggestions.map((suggestion) => ({ ...suggestion, conflicts: findConflicts(suggestion, keymaps, leaders) }))
+}
+
+/**
+ * Whether a suggestion clashes with one of the user's own mappings, the
+ * suggestions `--strict` leaves out. Overriding a built-in only warns.
+ */
+export function clashesWithKeymaps(suggestion: ModelSuggestion): boolean {
+  return suggestion.conflicts?.some((conflict) => conflict.kind !== "default") ?? false
+}
+
+/**
+ * Compare a suggestion with the existing mappings in every mode they share,
+ * after expanding leaders and canonicalising notation:
+ *
+ * - `duplicate`: the same lhs is already mapped in the same mode
+ * - `mode-overlap`: the same lhs is mapped in an overlapping mode (`v` vs `x`)
+ * - `buffer-shadow`: exactly one of the two is buffer-local, so in those
+ *   buffers it silently wins over the other
+ * - `prefix`: one lhs starts the other, so the shorter one waits `timeoutlen`
+ * - `default`: the lhs is a built-in command from the catalog that no mapping
+ *   of the user's has taken over yet
+ *
+ * Suggestions below a which-key group prefix are where the group wants them
+ * and are not reported.
+ */
+export function findConflicts(
+  suggestion: ModelSuggestion,
+  keymaps: KeymapDefinition[],
+  leaders: Leaders = DEFAULT_LEADERS,
+): KeymapConflict[] {
+  const suggestedModes = expandMapMode(suggestion.mode)
+  const keys = splitKeyNotation(suggestion.canonicalLhs ?? canonicalLhs(suggestion.lhs, leaders))
+  const bufferLocal = suggestion.scope?.kind === "filetype"
+  const conflicts: KeymapConflict[] = []
+
+  for (const keymap of keymaps) {
+    const modes = expandMapMode(keymap.mode).filter((mode) => suggestedModes.includes(mode))
+    if (!modes.length) continue
+    const existing = splitKeyNotation(keymap.canonicalLhs ?? canonicalLhs(keymap.lhs, leaders))
+    const relation = compareKeys(keys, existing)
+    if (!relation) continue
+    if (keymap.group !== undefined && relation === "longer") continue
+
+    const source = describeKeymapSource(keymap)
+    let kind: KeymapConflictKind
+    let message: string
+    if (keymap.group !== undefined) {
+      kind = "prefix"
+      message = `${keymap.lhs} starts the which-key group${keymap.group ? ` "${keymap.group}"` : ""} from ${source}: ${suggestion.lhs} would wait 'timeoutlen' for its mappings`
+    } else if (relation === "shorter") {
+      kind = "prefix"
+      message = `${suggestion.lhs} is a prefix of ${keymap.lhs} from ${source}: it would wait 'timeoutlen' before running`
+    } else if (relation === "longer") {
+      kind = "prefix"
+      message = `${keymap.lhs} from ${source} is a prefix of ${suggestion.lhs} and would start waiting 'timeoutlen'`
+    } else if (bufferLocal !== Boolean(keymap.buffer)) {
+      kind = "buffer-shadow"
+      message = bufferLocal
+        ? `${suggestion.lhs} in ${suggestion.scope!.name} buffers would shadow ${keymap.lhs} from ${source}`
+        : `the buffer-local ${keymap.lhs} from ${source} shadows ${suggestion.lhs} in the buffers it is set for`
+    } else if (keymap.mode === suggestion.mode) {
+      kind = "duplicate"
+      message = `${keymap.lhs} is already mapped in mode ${keymap.mode} by ${source}`
+    } else {
+      kind = "mode-overlap"
+      message = `${keymap.lhs} is mapped in mode ${keymap.mode} by ${source}, which overlaps ${suggestion.mode} in ${modes.join(", ")}`
+    }
+
+    conflicts.push({
+      kind,
+      modes,
+      message,
+      existing: {
+        mode: keymap.mode,
+        lhs: keymap.lhs,
+        source: keymap.source,
+        line: keymap.line,
+        ...(keymap.plugin ? { plugin: keymap.plugin } : {}),
+      },
+    })
+  }
+
+  // Once the user maps the key themselves, the built-in is gone already
+  if (!conflicts.some((conflict) => conflict.kind !== "prefix")) {
+    for (const builtin of findBuiltinCommands(keys.join(""), suggestedModes)) {
+      const modes = builtin.modes.filter((mode) => suggestedModes.includes(mode))
+      conflicts.push({
+        kind: "default",
+        modes,
+        message: `${suggestion.lhs} overrides the built-in ${builtin.lhs} (${builtin.description}) in mode ${modes.join(", ")}`,
+        builtin,
+      })
+    }
+  }
+
+  return conflicts
+}
+
+// How the suggested keys relate to an existing lhs: the same, a prefix of it, or extending it
+function compareKeys(keys: string[], existing: string[]): "same" | "shorter" | "longer" | null {
+  const length = Math.min(keys.length, existing.length)
+  if (!length) return null
+  for (let index = 0; index < length; index++) {
+    if (keys[index] !== existing[index]) return null
+  }
+  if (keys.length === existing.length) return "same"
+  return keys.length < existing.length ? "shorter" : "longer"
+}
@@ -0,0 +1,258 @@
+import { KeystrokeEvent, VimAction } from "./types.ts"
+
+export const OPERATORS = new Set(["d", "c", "y", "<", ">", "=", "!", "g~", "gu", "gU", "g?", "gq", "gw", "zf", "g@"])
+const MOTIONS = new Set([
+  "h", "j", "k", "l", "w", "W", "b", "B", "e", "E", "0", "^", "$", "G", "{", "}", "(", ")", "%", "H", "M", "L",
+  "n", "N", "*", "#", ";", ",", "-", "+", "_", "|",
+  "ge", "gE", "gg", "g_", "gj", "gk", "g0", "g^", "g$", "gm", "gM", "gn", "gN", "g*", "g#",
+  "<Left>", "<Right>", "<Up>", "<Down>", "<Home>", "<End>", "<BS>", "<Space>", "<CR>",
+])
+// Keys that wait for one more key before they mean anything
+export const CHORD_PREFIXES = new Set(["g", "z", "[", "]", "<C-w>"])
+export const CHAR_MOTIONS = new Set(["f", "F", "t", "T", "'", "`"])
+export const CHAR_COMMANDS = new Set(["r", "m", "q", "@"])
+export const TEXT_OBJECT_PREFIXES = new Set(["i", "a"])
+
+type ModeFamily = "normal" | "visual" | "insert" | "cmdline" | "replace" | "other"
+
+/**
+ * Split a keystroke string in keytrans notation (`d2w`, `<C-w>j`) into keys.
+ */
+export function splitKeyNotation(notation: string): string[] {
+  return notation.match(/<[^<>]+>|[\s\S]/g) ?? []
+}
+
+/** Whether a key is the label standing for a collapsed run of typed keys, like `<insert>` */
+export function isRunLabel(key: string): boolean {
+  return /^<(?:normal|visual|insert|cmdline|replace|other)>$/.test(key)
+}
+
+export function isOperatorPendingMode(mode: string): boolean {
+  return mode.startsWith("no")
+}
+
+/**
+ * Parse a session's keystrokes into Vim actions following the Normal mode
+ * grammar `["x][count]operator[count](motion|text-object)` plus standalone
+ * motions, commands and chords (`g`, `z`, `[`, `]`, `<C-w>`). Operator-pending
+ * modes (`no`, `nov`, ...) tell us which keys still belong to a pending
+ * operator; logs recorded without them are parsed from the keys alone. Runs of
+ * Insert, Cmdline and Replace mode keys collapse into a single action.
+ */
+export function parseActions(events: KeystrokeEvent[]): VimAction[] {
+  const keyed = events.filter((event) => event.mode !== "command" && keyOf(event))
+  const trustPending = keyed.some((event) => isOperatorPendingMode(event.mode))
+  const actions: VimAction[] = []
+
+  let index = 0
+  while (index < keyed.length) {
+    const family = modeFamily(keyed[index].mode)
+    if (family === "normal" || family === "visual") {
+      const action = parseCommand(keyed, index, family === "visual", trustPending)
+      actions.push(action)
+      index += action.keys.length
+      continue
+    }
+
+    let end = index
+    while (end < keyed.length && modeFamily(keyed[end].mode) === family) end++
+    const run = keyed.slice(index, end)
+    actions.push(buildAction(run, { kind: family === "other" ? "command" : family, label: `<${family}>` }))
+    index = end
+  }
+
+  return actions
+}
+
+function parseCommand(events: KeystrokeEvent[], start: number, visual: boolean, trustPending: boolean): VimAction {
+  let position = start
+  let pending = false
+
+  const peek = (): string | undefined => {
+    const event = events[position]
+    if (!event || position === start) return event ? keyOf(event) : undefined
+    const family = modeFamily(event.mode)
+    if (family !== (visual ? "visual" : "normal")) return undefined
+    // Once an operator is waiting, only operator-pending keys can complete it
+    if (pending && trustPending && !isOperatorPendingMode(event.mode)) return undefined
+    return keyOf(event)
+  }
+  const take = (): string => keyOf(events[position++])
+
+  let register: string | undefined
+  let count: number | undefined
+  if (peek() === '"') {
+    take()
+    if (peek() === undefined) return finish({ kind: "command", incomplete: true })
+    register = take()
+  }
+
+  count = readCount()
+  if (peek() === undefined) {
+    return finish({ kind: "command", incomplete: true })
+  }
+
+  let name = take()
+  if (CHORD_PREFIXES.has(name) && peek() !== undefined) {
+    name += take()
+  }
+
+  if (OPERATORS.has(name)) {
+    if (visual) {
+      return finish({ kind: "edit", operator: name })
+    }
+    pending = true
+    const motionCount = readCount()
+    const target = readTarget(name)
+    if (!target) {
+      return finish({ kind: "edit", operator: name, motionCount, incomplete: true })
+    }
+    return finish({ kind: "edit", operator: name, motionCount, ...target })
+  }
+
+  if (visual && TEXT_OBJECT_PREFIXES.has(name) && peek() !== undefined) {
+    return finish({ kind: "motion", textObject: name + take() })
+  }
+
+  if (MOTIONS.has(name) || name.startsWith("[") || name.startsWith("]")) {
+    return finish({ kind: "motion", motion: name })
+  }
+
+  if (CHAR_MOTIONS.has(name)) {
+    const target = peek()
+    if (target === undefined) return finish({ kind: "motion", motion: name, incomplete: true })
+    return finish({ kind: "motion", motion: name + take() })
+  }
+
+  if (CHAR_COMMANDS.has(name)) {
+    const target = peek()
+    if (target === undefined) return finish({ kind: "command", command: name, incomplete: true })
+    return finish({ kind: "command", command: name + take() })
+  }
+
+  return finish({ kind: "command", command: name })
+
+  function readCount(): number | undefined {
+    let digits = ""
+    while (true) {
+      const key = peek()
+      if (key === undefined || !/^[0-9]$/.test(key) || (digits === "" && key === "0")) break
+      digits += take()
+    }
+    return digits ? Number(digits) : undefined
+  }
+
+  function readTarget(operator: string): Partial<VimAction> | null {
+    let key = peek()
+    if (key === undefined) return null
+
+    // Forced motion type: `dvj`, `dVw`, `d<C-v>j`
+    let forced = ""
+    if (key === "v" || key === "V" || key === "<C-v>") {
+      forced = take()
+      key = peek()
+      if (key === undefined) return null
+    }
+
+    // Doubled operator is linewise: `dd`, `yy`, `>>`, `gUU`, `gUgU`
+    const last = operator[operator.length - 1]
+    if (key === last && operator !== "zf") {
+      take()
+      return { motion: forced + key, linewise: true }
+    }
+    if (operator.length === 2 && key === operator[0]) {
+      take()
+      if (peek() === last) {
+        take()
+        return { motion: forced + operator, linewise: true }
+      }
+      const chord = operator[0] + (peek() !== undefined ? take() : "")
+      return MOTIONS.has(chord) ? { motion: forced + chord } : null
+    }
+
+    if (TEXT_OBJECT_PREFIXES.has(key)) {
+      take()
+      const object = peek()
+      if (object === undefined) return null
+      return { textObject: forced + key + take() }
+    }
+
+    let motion = take()
+    if (CHORD_PREFIXES.has(motion) && peek() !== undefined) {
+      motion += take()
+    }
+    if (CHAR_MOTIONS.has(motion)) {
+      if (peek() === undefined) return null
+      motion += take()
+    } else if (!MOTIONS.has(motion) && !motion.startsWith("[") && !motion.startsWith("]")) {
+      return null
+    }
+    return { motion: forced + motion }
+  }
+
+  function finish(parts: Partial<VimAction> & Pick<VimAction, "kind">): VimAction {
+    if (position === start) take()
+    const consumed = events.slice(start, position)
+    const action: Partial<VimAction> & Pick<VimAction, "kind"> = { ...parts, register, count }
+    return buildAction(consumed, { ...action, label: formatAction(action, consumed) })
+  }
+}
+
+function formatAction(action: Partial<VimAction>, consumed: KeystrokeEvent[]): string {
+  if (action.incomplete) {
+    return consumed.map((event) => keyOf(event)).join("")
+  }
+  return [
+    action.register ? `"${action.register}` : "",
+    action.count ?? "",
+    action.operator ?? "",
+    action.motionCount ?? "",
+    action.motion ?? action.textObject ?? "",
+    action.command ?? "",
+  ].join("")
+}
+
+function buildAction(
+  events: KeystrokeEvent[],
+  parts: Partial<VimAction> & Pick<VimAction, "kind" | "label">,
+): VimAction {
+  const first = events[0]
+  const last = events[events.length - 1]
+  const action: VimAction = {
+    mode: baseMode(first.mode),
+    keys: events.map((event) => keyOf(event)),
+    startSeq: first.seq,
+    endSeq: last.seq,
+    startTimestamp: first.timestamp,
+    endTimestamp: last.timestamp,
+    file: first.file,
+    ...parts,
+  }
+  for (const key of Object.keys(action) as (keyof VimAction)[]) {
+    if (action[key] === undefined) delete action[key]
+  }
+  return action
+}
+
+function modeFamily(mode: string): ModeFamily {
+  if (mode.startsWith("n")) return "normal"
+  if (/^[vV\u0016]/.test(mode)) return "visual"
+  if (mode.startsWith("i")) return "insert"
+  if (mode.startsWith("c")) return "cmdline"
+  if (mode.startsWith("R")) return "replace"
+  return "other"
+}
+
+function baseMode(mode: string): string {
+  const family = modeFamily(mode)
+  if (family === "normal") return "n"
+  if (family === "insert") return "i"
+  if (family === "cmdline") return "c"
+  if (family === "replace") return "R"
+  if (family === "visual") return mode[0]
+  return mode
+}
+
+function keyOf(event: KeystrokeEvent): string {
+  return (event.key || event.raw || "").trim()
+}
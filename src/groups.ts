@@ -0,0 +1,74 @@
+import { stat } from "node:fs/promises"
+import { dirname, join, resolve } from "node:path"
+import { GroupBy, KeystrokeEvent } from "./types.ts"
+
+export const UNGROUPED = "(none)"
+
+export type GroupResolver = (event: KeystrokeEvent) => Promise<string>
+
+export function createGroupResolver(groupBy: GroupBy): GroupResolver {
+  if (groupBy === "filetype") {
+    return async (event) => event.filetype || UNGROUPED
+  }
+
+  const roots = new Map<string, Promise<string | null>>()
+  return async (event) => {
+    if (!event.file) return UNGROUPED
+    const dir = dirname(expandHome(event.file))
+    let root = roots.get(dir)
+    if (!root) {
+      root = findGitRoot(dir)
+      roots.set(dir, root)
+    }
+    return (await root) ?? UNGROUPED
+  }
+}
+
+/**
+ * Split events into contiguous runs that share a group, so a session that
+ * hops between files never stitches keys from two groups together.
+ */
+export async function splitByGroup(
+  events: KeystrokeEvent[],
+  resolveGroup: GroupResolver,
+): Promise<{ group: string; events: KeystrokeEvent[] }[]> {
+  const runs: { group: string; events: KeystrokeEvent[] }[] = []
+  for (const event of events) {
+    const group = await resolveGroup(event)
+    const last = runs[runs.length - 1]
+    if (last && last.group === group) {
+      last.events.push(event)
+    } else {
+      runs.push({ group, events: [event] })
+    }
+  }
+  return runs
+}
+
+export async function findGitRoot(start: string): Promise<string | null> {
+  let current = resolve(start)
+  while (true) {
+    if (await exists(join(current, ".git"))) {
+      return current
+    }
+    const parent = dirname(current)
+    if (parent === current) return null
+    current = parent
+  }
+}
+
+function expandHome(path: string): string {
+  if (path.startsWith("~") && process.env.HOME) {
+    return path.replace("~", process.env.HOME)
+  }
+  return path
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path)
+    return true
+  } catch {
+    return false
+  }
+}
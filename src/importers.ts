@@ -0,0 +1,518 @@
+import { readFile, stat } from "node:fs/promises"
+import { extname } from "node:path"
+import { CHAR_COMMANDS, CHAR_MOTIONS, CHORD_PREFIXES, OPERATORS, splitKeyNotation, TEXT_OBJECT_PREFIXES } from "./grammar.ts"
+import { LOG_SCHEMA_VERSION } from "./schema.ts"
+import { SESSION_MARKER_MODE } from "./sessions.ts"
+import { ImportFormat, KeystrokeEvent } from "./types.ts"
+
+export const IMPORT_FORMATS: ImportFormat[] = ["scriptout", "csv", "tsv"]
+
+// Sources without timing get evenly spaced keys
+const DEFAULT_INTERVAL_MS = 200
+// Imported hrtime timestamps start here rather than at 0, which reads as "no timestamp"
+const BASE_TIMESTAMP = 1_000_000_000
+// Imported clocks start at the recording's wall-clock time modulo this period, which keeps nanoseconds exact
+const CLOCK_PERIOD_MS = 90 * 24 * 60 * 60 * 1000
+
+const K_SPECIAL = 0x80
+const KS_MODIFIER = 0xfc
+const KS_EXTRA = 0xfd
+const KS_SPECIAL = 0xfe
+const KS_ZERO = 0xff
+
+// Two-character termcap codes Vim writes after K_SPECIAL, see `:help terminal-options`
+const TERMCAP_KEYS: Record<string, string> = {
+  ku: "Up",
+  kd: "Down",
+  kl: "Left",
+  kr: "Right",
+  kb: "BS",
+  kD: "Del",
+  kI: "Insert",
+  kh: "Home",
+  "@7": "End",
+  kP: "PageUp",
+  kN: "PageDown",
+  kB: "S-Tab",
+  "%1": "Help",
+  "&8": "Undo",
+  k1: "F1",
+  k2: "F2",
+  k3: "F3",
+  k4: "F4",
+  k5: "F5",
+  k6: "F6",
+  k7: "F7",
+  k8: "F8",
+  k9: "F9",
+  "k;": "F10",
+  F1: "F11",
+  F2: "F12",
+  "#4": "S-Left",
+  "%i": "S-Right",
+  "#2": "S-Home",
+  "*7": "S-End",
+  "#3": "S-Insert",
+  "*4": "S-Del",
+}
+
+// Codes Vim writes after K_SPECIAL KS_EXTRA for keys without a termcap code,
+// see `enum key_extra` in Vim's keymap.h. Mouse, focus and other pseudo keys
+// have no entry and are skipped.
+const EXTRA_KEYS: Record<number, string> = {
+  4: "S-Up",
+  5: "S-Down",
+  ...Object.fromEntries(Array.from({ length: 37 }, (_, index) => [6 + index, `S-F${index + 1}`])),
+  54: "Tab",
+  55: "S-Tab",
+  56: "F1",
+  57: "F2",
+  58: "F3",
+  59: "F4",
+  60: "End",
+  61: "End",
+  62: "Home",
+  63: "Home",
+  64: "Up",
+  65: "Down",
+  66: "Left",
+  67: "Right",
+  70: "S-F1",
+  71: "S-F2",
+  72: "S-F3",
+  73: "S-F4",
+  78: "kInsert",
+  79: "kDel",
+  84: "C-Left",
+  85: "C-Right",
+  86: "C-Home",
+  87: "C-End",
+  103: "S-BS",
+}
+
+const CONTROL_KEYS: Record<number, string> = {
+  0x00: "<Nul>",
+  0x09: "<Tab>",
+  0x0a: "<NL>",
+  0x0d: "<CR>",
+  0x1b: "<Esc>",
+  0x1c: "<C-\\>",
+  0x1d: "<C-]>",
+  0x1e: "<C-^>",
+  0x1f: "<C-_>",
+  0x20: "<Space>",
+  0x3c: "<lt>",
+  0x7f: "<Del>",
+}
+
+// Modifier bits of KS_MODIFIER, in the order keytrans prints them
+const MODIFIERS: [number, string][] = [
+  [0x04, "C-"],
+  [0x02, "S-"],
+  [0x08, "M-"],
+  [0x10, "T-"],
+  [0x80, "D-"],
+]
+
+export type ImportOptions = {
+  format?: ImportFormat
+  /** Wall-clock start of the recording, defaults to the file's mtime minus its duration */
+  start?: number
+  /** Spacing between keys for sources without timestamps */
+  intervalMs?: number
+  /** Estimate `mode` for keys whose source does not record it (otherwise Normal mode) */
+  inferModes?: boolean
+}
+
+export type ImportResult = {
+  format: ImportFormat
+  events: KeystrokeEvent[]
+  /** Keys the source recorded but that have no key notation (mouse, focus events, ...) */
+  skipped: number
+}
+
+type SourceKey = {
+  key: string
+  /** Wall-clock epoch milliseconds, when the source has them */
+  time?: number
+  mode?: string
+  file?: string
+  filetype?: string
+}
+
+export function detectImportFormat(path: string): ImportFormat {
+  const extension = extname(path).toLowerCase()
+  if (extension === ".csv") return "csv"
+  if (extension === ".tsv") return "tsv"
+  return "scriptout"
+}
+
+/**
+ * Convert a recording from another source into log events: a session start
+ * marker followed by one event per key, with `command` events for completed
+ * command lines, ready to be written as JSONL.
+ */
+export async function importKeystrokes(path: string, options: ImportOptions = {}): Promise<ImportResult> {
+  const format = options.format ?? detectImportFormat(path)
+  const content = await readFile(path)
+  const decoded =
+    format === "scriptout"
+      ? decodeScriptout(content)
+      : { keys: parseDelimited(content.toString("utf8"), format === "csv" ? "," : "\t"), skipped: 0 }
+
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+  const timed = decoded.keys.length > 0 && decoded.keys.every((entry) => entry.time !== undefined)
+  const start =
+    options.start ??
+    (timed ? decoded.keys[0].time! : (await stat(path)).mtimeMs - decoded.keys.length * intervalMs)
+
+  return {
+    format,
+    events: buildEvents(decoded.keys, { start, intervalMs, timed, inferModes: options.inferModes ?? true }),
+    skipped: decoded.skipped,
+  }
+}
+
+/**
+ * Decode a Vim `-w`/`-W` scriptout file into keys in `keytrans` notation.
+ * Special keys arrive as K_SPECIAL followed by a termcap code (`<80>ku` is
+ * `<Up>`) or, for keys without one, KS_EXTRA and a key code (`<80><fd>T` is
+ * `<C-Left>`), modifiers as a KS_MODIFIER prefix for the next key, and literal
+ * 0x80/NUL bytes of multibyte characters escaped as KS_SPECIAL/KS_ZERO.
+ */
+export function decodeScriptout(bytes: Uint8Array): { keys: SourceKey[]; skipped: number } {
+  const keys: SourceKey[] = []
+  const pending: number[] = []
+  let modifiers = 0
+  let skipped = 0
+
+  const push = (key: string) => {
+    keys.push({ key: modifiers ? applyModifiers(key, modifiers) : key })
+    modifiers = 0
+  }
+  const flushBytes = () => {
+    if (!pending.length) return
+    for (const char of Buffer.from(pending).toString("utf8")) {
+      push(charToKey(char))
+    }
+    pending.length = 0
+  }
+
+  for (let index = 0; index < bytes.length; index++) {
+    const byte = bytes[index]
+    if (byte !== K_SPECIAL || index + 2 >= bytes.length) {
+      // Continuation bytes belong to the character before them
+      if (byte < 0x80 || byte >= 0xc0) flushBytes()
+      pending.push(byte)
+      continue
+    }
+
+    const [first, second] = [bytes[index + 1], bytes[index + 2]]
+    index += 2
+    if (first === KS_SPECIAL || first === KS_ZERO) {
+      pending.push(first === KS_SPECIAL ? K_SPECIAL : 0x00)
+      continue
+    }
+    flushBytes()
+    if (first === KS_MODIFIER) {
+      modifiers = second
+    } else if (first === KS_EXTRA && EXTRA_KEYS[second]) {
+      push(`<${EXTRA_KEYS[second]}>`)
+    } else if (first === KS_EXTRA) {
+      skipped++
+      modifiers = 0
+    } else {
+      const code = String.fromCharCode(first, second)
+      push(`<${TERMCAP_KEYS[code] ?? `t_${code}`}>`)
+    }
+  }
+  flushBytes()
+
+  return { keys, skipped }
+}
+
+/**
+ * Read a CSV/TSV export of keys. A header row may name the `key`,
+ * `timestamp` (or `time`), `mode`, `file` and `filetype` columns; without one
+ * the first column is the key and the second its timestamp. Timestamps may be
+ * ISO dates or epoch seconds, milliseconds, microseconds or nanoseconds.
+ */
+export function parseDelimited(text: string, delimiter: string): SourceKey[] {
+  const rows = splitRows(text, delimiter).filter((row) => row.some((cell) => cell !== ""))
+  if (!rows.length) return []
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase())
+  const hasHeader = header.includes("key")
+  const column = (names: string[], fallback: number) => {
+    const index = header.findIndex((cell) => names.includes(cell))
+    return hasHeader ? index : fallback
+  }
+  const keyColumn = column(["key"], 0)
+  const timeColumn = column(["timestamp", "time", "ts"], 1)
+  const modeColumn = column(["mode"], -1)
+  const fileColumn = column(["file"], -1)
+  const filetypeColumn = column(["filetype"], -1)
+
+  const keys: SourceKey[] = []
+  for (const [index, row] of rows.slice(hasHeader ? 1 : 0).entries()) {
+    const value = row[keyColumn] ?? ""
+    if (!value) continue
+    const cell = (columnIndex: number) => (columnIndex >= 0 && row[columnIndex] ? row[columnIndex] : undefined)
+    const rawTime = cell(timeColumn)
+    const time = rawTime === undefined ? undefined : parseTime(rawTime)
+    if (rawTime !== undefined && time === undefined) {
+      throw new Error(`Invalid timestamp '${rawTime}' on row ${index + (hasHeader ? 2 : 1)}`)
+    }
+    // A cell may hold one key (`j`, `<C-W>`) or several in key notation
+    for (const key of value.length === 1 ? [charToKey(value)] : splitKeyNotation(value).map(normalizeKey)) {
+      keys.push({ key, time, mode: cell(modeColumn), file: cell(fileColumn), filetype: cell(filetypeColumn) })
+    }
+  }
+  return keys
+}
+
+/**
+ * Best-effort mode of each key from the keys alone: the mode Vim was in when
+ * the key was typed (so `i` is a Normal mode key and the `<Esc>` leaving Insert
+ * mode an Insert mode key), following the Normal mode grammar closely enough
+ * to tell operator-pending keys, character arguments and command lines apart.
+ */
+export function inferModes(keys: string[]): string[] {
+  const modes: string[] = []
+  let mode = "n"
+  let operator: string | null = null
+  // Keys still expected before the current command is complete
+  let awaitChar = false
+  let chord = ""
+
+  for (const key of keys) {
+    modes.push(operator ? "no" : mode)
+    const lower = key.toLowerCase()
+    const escape = lower === "<esc>" || lower === "<c-[>" || lower === "<c-c>"
+
+    if (mode === "c") {
+      if (escape || lower === "<cr>" || lower === "<nl>") mode = "n"
+      continue
+    }
+    if (mode === "i" || mode === "R") {
+      if (escape) mode = "n"
+      continue
+    }
+
+    const visual = mode === "v" || mode === "V" || mode === "\u0016"
+    if (escape) {
+      mode = "n"
+      operator = null
+      awaitChar = false
+      chord = ""
+      continue
+    }
+    if (awaitChar) {
+      awaitChar = false
+      if (chord === "textobject" || operator) finishOperator()
+      chord = ""
+      continue
+    }
+
+    const name = chord + key
+    if (!chord && (CHORD_PREFIXES.has(key) || lower === "<c-w>")) {
+      chord = key
+      continue
+    }
+    chord = ""
+
+    if (/^[1-9]$/.test(key) || (key === "0" && modes.length > 1 && /^[0-9]$/.test(keys[modes.length - 2]))) continue
+    if (key === '"' || CHAR_COMMANDS.has(name) || CHAR_MOTIONS.has(name)) {
+      awaitChar = true
+      continue
+    }
+
+    if (operator) {
+      if (TEXT_OBJECT_PREFIXES.has(key)) {
+        awaitChar = true
+        chord = "textobject"
+      } else if (key !== "v" && key !== "V" && lower !== "<c-v>") {
+        finishOperator()
+      }
+      continue
+    }
+
+    if (visual) {
+      if (key === mode || (lower === "<c-v>" && mode === "\u0016")) mode = "n"
+      else if (key === "v" || key === "V") mode = key
+      else if (lower === "<c-v>") mode = "\u0016"
+      else if (key === ":") mode = "c"
+      else if (TEXT_OBJECT_PREFIXES.has(key)) awaitChar = true
+      else if ("cs".includes(key) || ((key === "I" || key === "A") && mode === "\u0016")) mode = "i"
+      else if (OPERATORS.has(name) || "xXDYJuU~pP".includes(key)) mode = "n"
+      continue
+    }
+
+    if ("iaIAoOsSC".includes(key) || name === "gi" || name === "gI") mode = "i"
+    else if (key === "R" || name === "gR") mode = "R"
+    else if (key === "v" || key === "V" || name === "gv") mode = key === "V" ? "V" : "v"
+    else if (lower === "<c-v>") mode = "\u0016"
+    else if (key === ":" || key === "/" || key === "?") mode = "c"
+    else if (OPERATORS.has(name)) operator = name
+  }
+  return modes
+
+  function finishOperator() {
+    // `c{motion}` continues in Insert mode, `!{motion}` opens the command line with the range
+    if (operator === "c") mode = "i"
+    if (operator === "!") mode = "c"
+    operator = null
+  }
+}
+
+function buildEvents(
+  keys: SourceKey[],
+  { start, intervalMs, timed, inferModes: infer }: { start: number; intervalMs: number; timed: boolean; inferModes: boolean },
+): KeystrokeEvent[] {
+  const inferred = infer ? inferModes(keys.map((entry) => entry.key)) : []
+  // hrtime counts from an arbitrary point; counting from the start of the recording gives
+  // every import its own `(seq, timestamp, file)` identities, so two imports into one log
+  // are not mistaken for duplicates
+  const clock = BASE_TIMESTAMP + (Math.round(start) % CLOCK_PERIOD_MS) * 1_000_000
+  const events: KeystrokeEvent[] = [
+    {
+      v: LOG_SCHEMA_VERSION,
+      type: "session",
+      seq: 1,
+      raw: "",
+      key: "start",
+      mode: SESSION_MARKER_MODE,
+      timestamp: clock,
+      time: Math.round(start),
+    },
+  ]
+  let commandLine: { type: string; text: string } | null = null
+
+  keys.forEach((entry, index) => {
+    const offsetMs = timed ? entry.time! - start : (index + 1) * intervalMs
+    const timestamp = clock + Math.round(offsetMs * 1_000_000)
+    const mode = entry.mode ?? inferred[index] ?? "n"
+    const metadata = { ...(entry.filetype && { filetype: entry.filetype }), ...(entry.file && { file: entry.file }) }
+    events.push({
+      v: LOG_SCHEMA_VERSION,
+      type: "key",
+      seq: events.length + 1,
+      raw: keyToRaw(entry.key),
+      key: entry.key,
+      mode,
+      timestamp,
+      ...metadata,
+    })
+
+    // Rebuild the command line the plugin would have logged on CmdlineLeave
+    if (mode !== "c") {
+      // A command line opened from Visual mode starts with the selection range
+      const range = entry.key === ":" && /^[vV\u0016]/.test(mode) ? "'<,'>" : ""
+      commandLine = [":", "/", "?"].includes(entry.key) ? { type: entry.key, text: range } : null
+      return
+    }
+    if (!commandLine) return
+    const lower = entry.key.toLowerCase()
+    if (lower === "<cr>" || lower === "<nl>") {
+      if (commandLine.text) {
+        events.push({
+          v: LOG_SCHEMA_VERSION,
+          type: "command",
+          seq: events.length + 1,
+          raw: commandLine.text,
+          key: commandLine.text,
+          mode: "command",
+          command_type: commandLine.type,
+          timestamp,
+          ...metadata,
+        })
+      }
+      commandLine = null
+    } else if (lower === "<bs>" || lower === "<c-h>") {
+      commandLine.text = commandLine.text.slice(0, -1)
+    } else {
+      commandLine.text += keyToRaw(entry.key)
+    }
+  })
+
+  return events
+}
+
+function charToKey(char: string): string {
+  const code = char.codePointAt(0) ?? 0
+  if (CONTROL_KEYS[code]) return CONTROL_KEYS[code]
+  if (code >= 0x01 && code <= 0x1a) return `<C-${String.fromCharCode(code + 0x40)}>`
+  return char
+}
+
+function keyToRaw(key: string): string {
+  if (key === "<Space>") return " "
+  if (key === "<lt>") return "<"
+  return key
+}
+
+function normalizeKey(key: string): string {
+  return key.length === 1 ? charToKey(key) : key
+}
+
+function applyModifiers(key: string, modifiers: number): string {
+  const prefix = MODIFIERS.filter(([bit]) => modifiers & bit)
+    .map(([, name]) => name)
+    .join("")
+  if (!prefix) return key
+  const name = key.startsWith("<") && key.endsWith(">") && key.length > 2 ? key.slice(1, -1) : key
+  return `<${prefix}${name}>`
+}
+
+function parseTime(value: string): number | undefined {
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = Number(trimmed)
+    if (number < 1e11) return number * 1000
+    if (number < 1e14) return number
+    if (number < 1e17) return number / 1000
+    return number / 1_000_000
+  }
+  const parsed = Date.parse(trimmed)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+// Minimal RFC 4180 reader: quoted cells may contain the delimiter, quotes and newlines
+function splitRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
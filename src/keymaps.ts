@@ -1,7 +1,9 @@
 import { readdir, stat } from "node:fs/promises"
 import { extname, join } from "node:path"
 import { readTextFile } from "./fs.ts"
-import { KeymapDefinition } from "./types.ts"
+import { LuaCall, LuaExpression, LuaFunction, LuaStatement, parseLua } from "./lua.ts"
+import { canonicalKey, canonicalLhs, DEFAULT_LEADERS, literalKeys } from "./notation.ts"
+import { KeymapCollection, KeymapDefinition, KeymapOrigin, Leaders } from "./types.ts"
 
 const SUPPORTED_EXTENSIONS = new Set([
   ".lua",
@@ -12,11 +14,53 @@ const SUPPORTED_EXTENSIONS = new Set([
   ".lua.json",
 ])
 
-const LUA_KEYMAP_PATTERNS = [
-  /vim\.keymap\.set\s*\(([\s\S]*?)\)/g,
-  /vim\.api\.nvim_set_keymap\s*\(([\s\S]*?)\)/g,
-  /vim\.api\.nvim_buf_set_keymap\s*\(([\s\S]*?)\)/g,
-]
+// Limits that keep evaluation cheap on large or generated configs
+const MAX_LUA_DEPTH = 8
+const MAX_LUA_ITERATIONS = 256
+const MAX_LUA_STEPS = 100_000
+
+/**
+ * What the keymap walker knows about a Lua value. `global` is an unresolved
+ * path such as `vim.keymap.set`; `node` is the expression it came from, used
+ * to quote a rhs back as written.
+ */
+type LuaValue = { node?: LuaExpression } & (
+  | { kind: "nil" | "unknown" }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "table"; items: LuaValue[]; fields: Map<string, LuaValue> }
+  | { kind: "function"; func: LuaFunction; scope: LuaScope }
+  | { kind: "global"; path: string }
+)
+
+type LuaScope = { vars: Map<string, LuaValue>; parent?: LuaScope }
+
+type LuaWalker = {
+  content: string
+  source: string
+  results: KeymapDefinition[]
+  leaders: Leaders
+  /** Line of the outermost inlined call, reported instead of the line inside a wrapper */
+  callLine: number | null
+  depth: number
+  budget: number
+  created: Map<LuaFunction, LuaScope>
+  invoked: Set<LuaFunction>
+  /** lazy.nvim specs whose `keys` were recorded, as a spec may be evaluated more than once */
+  specs: Set<LuaExpression>
+}
+
+type LuaTableValue = Extract<LuaValue, { kind: "table" }>
+
+const NIL: LuaValue = { kind: "nil" }
+const UNKNOWN: LuaValue = { kind: "unknown" }
+const NORMAL_MODE: LuaValue = { kind: "string", value: "n" }
+
+// which-key v2 keys that set options for a level instead of naming a key below the prefix
+const WHICH_KEY_OPTIONS = new Set(["name", "mode", "buffer", "silent", "noremap", "nowait", "expr", "prefix", "cond", "desc"])
+// which-key v3 fields that describe one mapping and are not inherited by nested specs
+const WHICH_KEY_OWN_FIELDS = new Set(["group", "desc", "icon"])
 
 const COMMAND_MODE_TABLE: Record<string, string[]> = {
   map: ["n", "v", "o"],
@@ -46,23 +90,30 @@ const COMMAND_MODE_TABLE: Record<string, string[]> = {
   "xmap!": ["x"],
 }
 
-export async function collectKeymaps(paths: string[]): Promise<KeymapDefinition[]> {
-  const definitions: KeymapDefinition[] = []
+/**
+ * Collect the mappings and leader settings of the given dotfiles. Leaders are
+ * applied to every mapping found, wherever they are set, to fill `canonicalLhs`.
+ */
+export async function collectKeymaps(paths: string[]): Promise<KeymapCollection> {
+  const collection: KeymapCollection = { keymaps: [], leaders: { ...DEFAULT_LEADERS } }
 
   for (const target of paths) {
-    await traverse(target, definitions)
+    await traverse(target, collection)
   }
 
-  return definitions
+  for (const keymap of collection.keymaps) {
+    keymap.canonicalLhs = canonicalLhs(keymap.lhs, collection.leaders)
+  }
+  return collection
 }
 
-async function traverse(target: string, definitions: KeymapDefinition[]) {
+async function traverse(target: string, collection: KeymapCollection) {
   try {
     const stats = await stat(target)
     if (stats.isDirectory()) {
       const items = await readdir(target)
       for (const item of items) {
-        await traverse(join(target, item), definitions)
+        await traverse(join(target, item), collection)
       }
       return
     }
@@ -73,9 +124,9 @@ async function traverse(target: string, definitions: KeymapDefinition[]) {
 
     const content = await readTextFile(target)
     if (target.endsWith(".lua") || target.endsWith(".lua.json")) {
-      definitions.push(...parseLuaKeymaps(content, target))
+      collection.keymaps.push(...parseLuaKeymaps(content, target, collection.leaders))
     } else {
-      definitions.push(...parseVimKeymaps(content, target))
+      collection.keymaps.push(...parseVimKeymaps(content, target, collection.leaders))
     }
   } catch (error) {
     console.warn(`Unable to process keymap file at ${target}: ${error}`)
@@ -92,170 +143,607 @@ function shouldParseFile(path: string): boolean {
   return false
 }
 
-function parseLuaKeymaps(content: string, source: string): KeymapDefinition[] {
-  const results: KeymapDefinition[] = []
+/**
+ * Walk a Lua config as a syntax tree and evaluate just enough of it to find
+ * `vim.keymap.set`, `nvim_set_keymap` and `nvim_buf_set_keymap` calls: local
+ * aliases (`local map = vim.keymap.set`), constant strings and their
+ * concatenations, small wrapper functions (inlined at their call sites), and
+ * loops over constant tables. Arguments that depend on runtime state are
+ * unknown, and a mapping without a constant lhs is skipped. lazy.nvim plugin
+ * specs contribute their `keys`, and which-key `add` (v3) and `register` (v2)
+ * calls their mappings and group prefixes. `vim.g.mapleader` and
+ * `vim.g.maplocalleader` assignments update `leaders`.
+ */
+function parseLuaKeymaps(content: string, source: string, leaders: Leaders): KeymapDefinition[] {
+  const walker: LuaWalker = {
+    content,
+    source,
+    results: [],
+    leaders,
+    callLine: null,
+    depth: 0,
+    budget: MAX_LUA_STEPS,
+    created: new Map(),
+    invoked: new Set(),
+    specs: new Set(),
+  }
+  const root: LuaScope = { vars: new Map() }
+  runBlock(parseLua(content), root, walker)
+
+  // Callbacks and functions never called in this file (autocmd callbacks,
+  // `config = function() ... end`) still define mappings when they run
+  for (const [func, scope] of walker.created) {
+    if (walker.invoked.has(func)) continue
+    walker.invoked.add(func)
+    const local: LuaScope = { vars: new Map(func.params.map((param) => [param, UNKNOWN])), parent: scope }
+    runBlock(func.body, local, walker)
+  }
+
+  return walker.results
+}
 
-  for (const pattern of LUA_KEYMAP_PATTERNS) {
-    for (const match of content.matchAll(pattern)) {
-      const [rawArgs] = match.slice(1)
-      if (!rawArgs) continue
-      const args = splitArguments(rawArgs.trim(), 4)
-      if (args.length < 2) continue
-
-      const [modeExpr, lhsExpr] = args
-      const modes = normalizeModes(modeExpr)
-      const lhs = extractStringLiteral(lhsExpr)
-      if (!lhs || modes.length === 0) continue
-
-      const line = estimateLineNumber(content, match.index ?? 0)
-
-      for (const mode of modes) {
-        results.push({
-          mode,
-          lhs,
-          rhs: args[2]?.trim(),
-          source,
-          line,
-        })
+function runBlock(statements: LuaStatement[], scope: LuaScope, walker: LuaWalker): LuaValue | undefined {
+  let returned: LuaValue | undefined
+  const keep = (value: LuaValue | undefined) => {
+    returned ??= value
+  }
+
+  for (const statement of statements) {
+    if (--walker.budget < 0) return returned
+    switch (statement.kind) {
+      case "local": {
+        const values = statement.values.map((value) => evaluate(value, scope, walker))
+        statement.names.forEach((name, index) => scope.vars.set(name, values[index] ?? NIL))
+        break
+      }
+      case "assign": {
+        const values = statement.values.map((value) => evaluate(value, scope, walker))
+        statement.targets.forEach((target, index) => assign(target, values[index] ?? NIL, scope, walker))
+        break
+      }
+      case "call":
+        evaluate(statement.call, scope, walker)
+        break
+      case "function": {
+        const value = evaluate(statement.func, scope, walker)
+        if (statement.local && statement.target.kind === "name") {
+          scope.vars.set(statement.target.name, value)
+        } else {
+          assign(statement.target, value, scope, walker)
+        }
+        break
+      }
+      case "numericFor": {
+        const [from, to, step] = [statement.from, statement.to, statement.step].map((expression) =>
+          expression ? evaluate(expression, scope, walker) : ({ kind: "number", value: 1 } as LuaValue),
+        )
+        const bounds = from.kind === "number" && to.kind === "number" && step.kind === "number" && step.value !== 0
+        const iterations = bounds ? Math.floor((to.value - from.value) / step.value) + 1 : 0
+        if (bounds && iterations <= MAX_LUA_ITERATIONS) {
+          for (let index = 0; index < iterations; index++) {
+            const value: LuaValue = { kind: "number", value: from.value + index * step.value }
+            keep(runBlock(statement.body, childScope(scope, [[statement.variable, value]]), walker))
+          }
+        } else {
+          keep(runBlock(statement.body, childScope(scope, [[statement.variable, UNKNOWN]]), walker))
+        }
+        break
+      }
+      case "genericFor": {
+        const entries = iterate(statement.iterators, scope, walker)
+        if (entries && entries.length <= MAX_LUA_ITERATIONS) {
+          for (const [key, value] of entries) {
+            const [first, second] = statement.names
+            keep(runBlock(statement.body, childScope(scope, [[first, key], ...(second ? [[second, value] as const] : [])]), walker))
+          }
+        } else {
+          keep(runBlock(statement.body, childScope(scope, statement.names.map((name) => [name, UNKNOWN])), walker))
+        }
+        break
+      }
+      case "if":
+        // Conditions are not evaluated: every branch may define mappings
+        for (const clause of statement.clauses) {
+          if (clause.condition) evaluate(clause.condition, scope, walker)
+          keep(runBlock(clause.body, childScope(scope), walker))
+        }
+        break
+      case "while":
+      case "repeat":
+      case "do":
+        keep(runBlock(statement.body, childScope(scope), walker))
+        break
+      case "return": {
+        const values = statement.values.map((value) => evaluate(value, scope, walker))
+        keep(values[0] ?? NIL)
+        return returned
       }
     }
   }
+  return returned
+}
 
-  return results
+function evaluate(expression: LuaExpression, scope: LuaScope, walker: LuaWalker): LuaValue {
+  const node = expression
+  switch (expression.kind) {
+    case "nil":
+      return NIL
+    case "boolean":
+      return { kind: "boolean", value: expression.value, node }
+    case "number":
+      return { kind: "number", value: expression.value, node }
+    case "string":
+      return { kind: "string", value: expression.value, node }
+    case "name":
+      return lookup(scope, expression.name) ?? { kind: "global", path: expression.name, node }
+    case "paren":
+      return evaluate(expression.expression, scope, walker)
+    case "index": {
+      const object = evaluate(expression.object, scope, walker)
+      const key = evaluate(expression.key, scope, walker)
+      if (object.kind === "global" && key.kind === "string") {
+        return { kind: "global", path: `${object.path}.${key.value}`, node }
+      }
+      return object.kind === "table" ? (tableGet(object, key) ?? NIL) : { kind: "unknown", node }
+    }
+    case "function": {
+      if (!walker.created.has(expression)) walker.created.set(expression, scope)
+      return { kind: "function", func: expression, scope, node }
+    }
+    case "table": {
+      const table: LuaValue = { kind: "table", items: [], fields: new Map(), node }
+      for (const field of expression.fields) {
+        const value = evaluate(field.value, scope, walker)
+        if (!field.key) {
+          table.items.push(value)
+          continue
+        }
+        const key = evaluate(field.key, scope, walker)
+        if (key.kind === "string") table.fields.set(key.value, value)
+        else if (key.kind === "number" && Number.isInteger(key.value) && key.value >= 1) table.items[key.value - 1] = value
+      }
+      if (isLazySpec(table) && !walker.specs.has(expression)) {
+        walker.specs.add(expression)
+        recordLazyKeys(table, walker)
+      }
+      return table
+    }
+    case "binary": {
+      const left = evaluate(expression.left, scope, walker)
+      if (expression.operator === "or" || expression.operator === "and") {
+        const truthy = isTruthy(left)
+        if (truthy === null) {
+          evaluate(expression.right, scope, walker)
+          return { kind: "unknown", node }
+        }
+        return truthy === (expression.operator === "or") ? left : evaluate(expression.right, scope, walker)
+      }
+      const right = evaluate(expression.right, scope, walker)
+      if (expression.operator === ".." && isScalar(left) && isScalar(right)) {
+        return { kind: "string", value: `${left.value}${right.value}`, node }
+      }
+      return { kind: "unknown", node }
+    }
+    case "unary": {
+      const operand = evaluate(expression.operand, scope, walker)
+      if (expression.operator === "-" && operand.kind === "number") return { kind: "number", value: -operand.value, node }
+      if (expression.operator === "#" && operand.kind === "table") return { kind: "number", value: operand.items.length, node }
+      return { kind: "unknown", node }
+    }
+    case "call":
+      return evaluateCall(expression, scope, walker)
+    case "vararg":
+      return { kind: "unknown", node }
+  }
 }
 
-function parseVimKeymaps(content: string, source: string): KeymapDefinition[] {
-  const results: KeymapDefinition[] = []
-  const lines = content.split(/\r?\n/)
+function evaluateCall(call: LuaCall, scope: LuaScope, walker: LuaWalker): LuaValue {
+  const target = evaluate(call.callee, scope, walker)
+  const args = call.args.map((arg) => evaluate(arg, scope, walker))
+  let callee = target
+  if (call.method) {
+    callee = target.kind === "table" ? (target.fields.get(call.method) ?? NIL) : { kind: "unknown" }
+    args.unshift(target)
+  }
+  const line = walker.callLine ?? call.line
+
+  if (callee.kind === "global") {
+    switch (callee.path) {
+      case "require":
+        // Keep the module name so `require("which-key").add` can be recognised
+        return args[0]?.kind === "string" ? { kind: "global", path: `require("${args[0].value}")`, node: call } : { kind: "unknown", node: call }
+      case "vim.keymap.set":
+        recordKeymap(walker, { modes: args[0], lhs: args[1], rhs: args[2], opts: args[3], line })
+        return NIL
+      case "vim.api.nvim_set_keymap":
+        recordKeymap(walker, { modes: args[0], lhs: args[1], rhs: args[2], opts: args[3], line })
+        return NIL
+      case "vim.api.nvim_buf_set_keymap":
+        recordKeymap(walker, { modes: args[1], lhs: args[2], rhs: args[3], opts: args[4], line, buffer: args[0] })
+        return NIL
+      case "vim.api.nvim_set_var":
+        if (args[0]?.kind === "string") setLeader(walker.leaders, args[0].value, args[1] ?? NIL)
+        return NIL
+      case "vim.tbl_extend":
+      case "vim.tbl_deep_extend":
+        return mergeTables(args)
+      case 'require("which-key").add':
+        recordWhichKeySpec(args[0] ?? NIL, new Map(), walker)
+        return NIL
+      case 'require("which-key").register': {
+        const opts = args[1]?.kind === "table" ? args[1].fields : new Map<string, LuaValue>()
+        const prefix = opts.get("prefix")
+        recordWhichKeyLegacy(args[0] ?? NIL, prefix?.kind === "string" ? prefix.value : "", opts, walker)
+        return NIL
+      }
+    }
+    return { kind: "unknown", node: call }
+  }
 
-  for (let index = 0; index < lines.length; index++) {
-    const rawLine = lines[index]
-    const line = rawLine.trim()
-    if (!line) continue
-    if (line.startsWith('"')) continue
+  if (callee.kind === "function") return invoke(callee, args, line, walker)
+  return { kind: "unknown", node: call }
+}
 
-    const [cmdRaw, lhsRaw] = line.split(/\s+/, 3)
-    if (!cmdRaw || !lhsRaw) continue
-    if (cmdRaw.startsWith('"')) continue
+function invoke(callee: Extract<LuaValue, { kind: "function" }>, args: LuaValue[], line: number, walker: LuaWalker): LuaValue {
+  if (walker.depth >= MAX_LUA_DEPTH) return UNKNOWN
+  const { func } = callee
+  walker.invoked.add(func)
+  const bindings = func.params.map((param, index): [string, LuaValue] => [param, param === "..." ? UNKNOWN : (args[index] ?? NIL)])
+  const outerLine = walker.callLine
+  walker.callLine = line
+  walker.depth++
+  try {
+    return runBlock(func.body, childScope(callee.scope, bindings), walker) ?? NIL
+  } finally {
+    walker.depth--
+    walker.callLine = outerLine
+  }
+}
 
-    const command = cmdRaw.toLowerCase()
-    const modes = resolveModesFromCommand(command)
-    if (modes.length === 0) continue
+// A lazy.nvim spec names its plugin by `owner/repo`, `dir` or `url`; only those with `keys` matter here
+function isLazySpec(table: LuaTableValue): boolean {
+  if (!table.fields.has("keys")) return false
+  const [first] = table.items
+  if (first?.kind === "string" && /^[\w.-]+\/[\w.-]+$/.test(first.value)) return true
+  return ["dir", "url"].some((field) => table.fields.get(field)?.kind === "string")
+}
 
-    const lhs = lhsRaw.trim()
-    if (!lhs) continue
+function lazyPluginName(spec: LuaTableValue): string | undefined {
+  const name = spec.fields.get("name")
+  if (name?.kind === "string") return name.value
+  const [first] = spec.items
+  const location = first?.kind === "string" ? first : (spec.fields.get("url") ?? spec.fields.get("dir"))
+  if (location?.kind !== "string") return undefined
+  return location.value.replace(/\.git$/, "").replace(/\/+$/, "").split("/").pop() || undefined
+}
 
-    for (const mode of modes) {
-      results.push({
-        mode,
-        lhs,
-        source,
-        line: index + 1,
-      })
-    }
+/**
+ * lazy.nvim `keys`: a lhs string, or `{ lhs, rhs, mode = ..., desc = ..., ft = ... }`
+ * entries, possibly returned by a `keys = function(plugin, keys)` callback.
+ * Entries default to Normal mode; those limited to filetypes are buffer-local.
+ */
+function recordLazyKeys(spec: LuaTableValue, walker: LuaWalker) {
+  const plugin = lazyPluginName(spec)
+  let keys = spec.fields.get("keys")!
+  if (keys.kind === "function") {
+    keys = invoke(keys, [spec, { kind: "table", items: [], fields: new Map() }], keys.func.line, walker)
   }
+  const entries = keys.kind === "table" ? keys.items : [keys]
 
-  return results
+  for (const entry of entries) {
+    const line = entry.node?.line ?? spec.node?.line ?? 0
+    const extra: Partial<KeymapDefinition> = { origin: "lazy", ...(plugin ? { plugin } : {}) }
+    if (entry.kind === "string") {
+      recordKeymap(walker, { modes: NORMAL_MODE, lhs: entry, line, extra })
+      continue
+    }
+    if (entry.kind !== "table") continue
+    const ft = entry.fields.get("ft")
+    recordKeymap(walker, {
+      modes: entry.fields.get("mode") ?? NORMAL_MODE,
+      lhs: entry.items[0],
+      rhs: entry.items[1],
+      opts: entry,
+      line,
+      buffer: ft && ft.kind !== "nil" ? { kind: "boolean", value: true } : undefined,
+      extra,
+    })
+  }
 }
 
-function splitArguments(input: string, limit: number): string[] {
-  const args: string[] = []
-  let current = ""
-  let depth = 0
-  let inString = false
-  let stringChar = ""
+/**
+ * which-key v3 spec: `{ lhs, rhs, desc = ..., mode = ... }` or `{ lhs, group = ... }`,
+ * or a list of specs whose own fields (`mode`, `buffer`, ...) apply to every
+ * nested spec. Each lhs is complete; nesting adds no prefix.
+ */
+function recordWhichKeySpec(spec: LuaValue, inherited: Map<string, LuaValue>, walker: LuaWalker) {
+  if (spec.kind !== "table") return
+  const fields = new Map([...inherited, ...spec.fields])
+  const [lhs, rhs] = spec.items
+  if (lhs?.kind === "string") {
+    const group = fields.get("group")
+    recordKeymap(walker, {
+      modes: fields.get("mode") ?? NORMAL_MODE,
+      lhs,
+      rhs: group ? undefined : rhs,
+      opts: { kind: "table", items: [], fields },
+      line: spec.node?.line ?? walker.callLine ?? 0,
+      extra: { origin: "which-key", ...(group ? { group: group.kind === "string" ? group.value : (quoteValue(group, walker) ?? "") } : {}) },
+    })
+  }
 
-  const push = () => {
-    if (current.trim()) {
-      args.push(current.trim())
-    }
-    current = ""
+  const shared = new Map(Array.from(fields).filter(([key]) => !WHICH_KEY_OWN_FIELDS.has(key)))
+  for (const item of spec.items.slice(lhs?.kind === "string" ? 2 : 0)) {
+    recordWhichKeySpec(item, shared, walker)
   }
+}
 
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i]
+/**
+ * which-key v2 `register(mappings, opts)`: keys below `opts.prefix` map to a
+ * label string, a `{ rhs, desc }` pair, or a nested table whose `name` makes
+ * the key a group prefix for its own children.
+ */
+function recordWhichKeyLegacy(mappings: LuaValue, prefix: string, options: Map<string, LuaValue>, walker: LuaWalker) {
+  if (mappings.kind !== "table") return
+  const scoped = withOptions(options, mappings)
+
+  for (const [key, value] of mappings.fields) {
+    if (WHICH_KEY_OPTIONS.has(key)) continue
+    const lhs = `${prefix}${key}`
+    const record = (fields: Map<string, LuaValue>, rhs?: LuaValue, group?: string) =>
+      recordKeymap(walker, {
+        modes: fields.get("mode") ?? NORMAL_MODE,
+        lhs: { kind: "string", value: lhs },
+        rhs,
+        opts: { kind: "table", items: [], fields },
+        line: value.node?.line ?? walker.callLine ?? 0,
+        extra: { origin: "which-key", ...(group !== undefined ? { group } : {}) },
+      })
 
-    if (inString) {
-      current += char
-      if (char === stringChar && input[i - 1] !== "\\") {
-        inString = false
-        stringChar = ""
-      }
+    if (value.kind === "string") {
+      if (value.value !== "which_key_ignore") record(new Map([...scoped, ["desc", value]]))
       continue
     }
-
-    if (char === '"' || char === "'" || char === "`") {
-      inString = true
-      stringChar = char
-      current += char
-      continue
+    if (value.kind !== "table") continue
+    const name = value.fields.get("name")
+    if (name?.kind === "string") {
+      record(scoped, undefined, name.value.replace(/^\+/, ""))
+      recordWhichKeyLegacy(value, lhs, scoped, walker)
+    } else if (value.items.length) {
+      const [rhs, desc] = value.items
+      const fields = withOptions(scoped, value)
+      if (desc?.kind === "string") fields.set("desc", desc)
+      record(fields, rhs)
+    } else {
+      recordWhichKeyLegacy(value, lhs, scoped, walker)
     }
+  }
+}
 
-    if (char === "{" || char === "[" || char === "(") {
-      depth++
-      current += char
-      continue
-    }
+function withOptions(options: Map<string, LuaValue>, table: LuaTableValue): Map<string, LuaValue> {
+  const merged = new Map(options)
+  for (const [key, value] of table.fields) {
+    if (WHICH_KEY_OPTIONS.has(key) && !["name", "prefix", "desc"].includes(key)) merged.set(key, value)
+  }
+  return merged
+}
 
-    if (char === "}" || char === "]" || char === ")") {
-      depth = Math.max(depth - 1, 0)
-      current += char
-      if (depth === 0 && char === ")" && args.length + 1 < limit) {
-        push()
-        break
-      }
-      continue
-    }
+/** Where a mapping comes from, e.g. "telescope.nvim's lazy keys (lua/plugins/telescope.lua:12)" */
+export function describeKeymapSource(keymap: KeymapDefinition): string {
+  const location = `${keymap.source}:${keymap.line}`
+  if (!keymap.origin) return location
+  return `${ORIGIN_LABELS[keymap.origin](keymap.plugin)} (${location})`
+}
 
-    if (char === "," && depth === 0) {
-      push()
-      if (args.length >= limit) break
-      continue
-    }
+const ORIGIN_LABELS: Record<KeymapOrigin, (plugin?: string) => string> = {
+  lazy: (plugin) => (plugin ? `${plugin}'s lazy keys` : "lazy keys"),
+  "which-key": () => "which-key",
+}
 
-    if (char === "-" && input[i + 1] === "-" && depth === 0) {
-      break
-    }
+function recordKeymap(
+  walker: LuaWalker,
+  {
+    modes,
+    lhs,
+    rhs,
+    opts,
+    line,
+    buffer,
+    extra,
+  }: { modes?: LuaValue; lhs?: LuaValue; rhs?: LuaValue; opts?: LuaValue; line: number; buffer?: LuaValue; extra?: Partial<KeymapDefinition> },
+) {
+  if (lhs?.kind !== "string") return
+  const resolvedModes = resolveLuaModes(modes ?? NIL)
+  if (!resolvedModes.length) return
+
+  const options = opts?.kind === "table" ? opts.fields : new Map<string, LuaValue>()
+  const callback = options.get("callback")
+  const definition: Omit<KeymapDefinition, "mode"> = {
+    lhs: lhs.value,
+    rhs: rhs?.kind === "string" && rhs.value === "" && callback ? quoteValue(callback, walker) : quoteValue(rhs, walker),
+    source: walker.source,
+    line,
+    ...extra,
+  }
 
-    current += char
+  const desc = options.get("desc")
+  if (desc?.kind === "string") definition.desc = desc.value
+  for (const flag of ["expr", "silent"] as const) {
+    const value = options.get(flag)
+    if (value?.kind === "boolean") definition[flag] = value.value
   }
+  const bufferValue = buffer ?? options.get("buffer")
+  if (bufferValue?.kind === "number") definition.buffer = bufferValue.value
+  else if (bufferValue && bufferValue.kind !== "nil" && !(bufferValue.kind === "boolean" && !bufferValue.value)) definition.buffer = true
 
-  if (current.trim() && args.length < limit) {
-    args.push(current.trim())
+  for (const mode of resolvedModes) {
+    walker.results.push({ mode, ...definition })
+  }
+}
+
+function resolveLuaModes(value: LuaValue): string[] {
+  if (value.kind === "table") {
+    return value.items.flatMap((item) => (item.kind === "string" ? [item.value] : []))
+  }
+  if (value.kind === "string") {
+    return value.value === "" ? ["n", "v", "o"] : splitModeString(value.value)
+  }
+  if (value.kind === "nil" || (value.kind === "boolean" && !value.value) || (value.kind === "number" && value.value === 0)) {
+    return ["n", "v", "o"]
   }
+  return []
+}
 
-  return args
+// A rhs the way it would be written in Lua: strings quoted, anything else as in the source
+function quoteValue(value: LuaValue | undefined, walker: LuaWalker): string | undefined {
+  if (!value || value.kind === "nil") return undefined
+  if (value.kind === "string") return `"${value.value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+  return value.node ? walker.content.slice(value.node.start, value.node.end) : undefined
 }
 
-function normalizeModes(expr: string): string[] {
-  const trimmed = expr.trim()
+function iterate(iterators: LuaExpression[], scope: LuaScope, walker: LuaWalker): [LuaValue, LuaValue][] | null {
+  const [iterator] = iterators
+  if (iterator?.kind !== "call") return null
+  const callee = evaluate(iterator.callee, scope, walker)
+  const table = iterator.args[0] ? evaluate(iterator.args[0], scope, walker) : NIL
+  if (callee.kind !== "global" || table.kind !== "table") return null
+
+  const items = table.items.map((item, index): [LuaValue, LuaValue] => [{ kind: "number", value: index + 1 }, item])
+  if (callee.path === "ipairs") return items
+  if (callee.path !== "pairs") return null
+  const fields = Array.from(table.fields, ([key, item]): [LuaValue, LuaValue] => [{ kind: "string", value: key }, item])
+  return [...items, ...fields]
+}
 
-  if (trimmed.startsWith("{")) {
-    const matches = trimmed.match(/["'`](.+?)["'`]/g)
-    if (!matches) return []
-    return matches.map((match) => extractStringLiteral(match)).filter(Boolean) as string[]
+// vim.tbl_extend(behavior, ...): "force" lets later tables win, "keep" the earlier ones
+function mergeTables(args: LuaValue[]): LuaValue {
+  const [behavior, ...tables] = args
+  const merged: LuaValue = { kind: "table", items: [], fields: new Map() }
+  for (const table of behavior?.kind === "string" && behavior.value === "keep" ? [...tables].reverse() : tables) {
+    if (table.kind !== "table") continue
+    for (const [key, value] of table.fields) merged.fields.set(key, value)
   }
+  return merged
+}
 
-  if (/^["'`]/.test(trimmed)) {
-    const value = extractStringLiteral(trimmed)
-    if (!value) return []
-    if (value.length > 1) {
-      const expanded = value
-        .split("")
-        .filter((char) => VALID_MODES.has(char))
-      if (expanded.length) return expanded
+function assign(target: LuaExpression, value: LuaValue, scope: LuaScope, walker: LuaWalker) {
+  if (target.kind === "name") {
+    let current: LuaScope | undefined = scope
+    while (current) {
+      if (current.vars.has(target.name)) {
+        current.vars.set(target.name, value)
+        return
+      }
+      if (!current.parent) break
+      current = current.parent
     }
-    return [value]
+    // Globals live in the outermost scope
+    current.vars.set(target.name, value)
+    return
+  }
+  if (target.kind === "index") {
+    const object = evaluate(target.object, scope, walker)
+    const key = evaluate(target.key, scope, walker)
+    if (object.kind === "global" && object.path === "vim.g" && key.kind === "string") setLeader(walker.leaders, key.value, value)
+    if (object.kind !== "table") return
+    if (key.kind === "string") object.fields.set(key.value, value)
+    else if (key.kind === "number" && Number.isInteger(key.value) && key.value >= 1) object.items[key.value - 1] = value
   }
+}
 
-  if (trimmed === "false" || trimmed === "nil" || trimmed === "0" || trimmed === "{}") {
-    return ["n", "v", "o"]
+function setLeader(leaders: Leaders, name: string, value: LuaValue) {
+  if (value.kind !== "string") return
+  if (name === "mapleader") leaders.leader = literalKeys(value.value)
+  if (name === "maplocalleader") leaders.localLeader = literalKeys(value.value)
+}
+
+function lookup(scope: LuaScope, name: string): LuaValue | undefined {
+  for (let current: LuaScope | undefined = scope; current; current = current.parent) {
+    const value = current.vars.get(name)
+    if (value) return value
   }
+  return undefined
+}
 
-  return []
+function childScope(parent: LuaScope, bindings: (readonly [string, LuaValue])[] = []): LuaScope {
+  return { vars: new Map(bindings), parent }
+}
+
+function tableGet(table: Extract<LuaValue, { kind: "table" }>, key: LuaValue): LuaValue | undefined {
+  if (key.kind === "string") return table.fields.get(key.value)
+  if (key.kind === "number") return table.items[key.value - 1]
+  return undefined
+}
+
+function isTruthy(value: LuaValue): boolean | null {
+  if (value.kind === "nil") return false
+  if (value.kind === "boolean") return value.value
+  if (value.kind === "unknown" || value.kind === "global") return null
+  return true
+}
+
+function isScalar(value: LuaValue): value is Extract<LuaValue, { kind: "string" | "number" }> {
+  return value.kind === "string" || value.kind === "number"
+}
+
+function parseVimKeymaps(content: string, source: string, leaders: Leaders): KeymapDefinition[] {
+  const results: KeymapDefinition[] = []
+  const lines = content.split(/\r?\n/)
+
+  for (let index = 0; index < lines.length; index++) {
+    const rawLine = lines[index]
+    const line = rawLine.trim()
+    if (!line) continue
+    if (line.startsWith('"')) continue
+
+    const leader = line.match(LEADER_ASSIGNMENT)
+    if (leader) {
+      const keys = decodeVimString(leader[2])
+      if (keys !== null) leaders[leader[1] === "mapleader" ? "leader" : "localLeader"] = keys
+      continue
+    }
+
+    const [cmdRaw, ...rest] = line.split(/\s+/)
+    if (!cmdRaw || cmdRaw.startsWith('"')) continue
+
+    const command = cmdRaw.toLowerCase()
+    const modes = resolveModesFromCommand(command)
+    if (modes.length === 0) continue
+
+    // `:map` arguments such as `<buffer>` and `<silent>` come before the lhs
+    const flags: Partial<KeymapDefinition> = {}
+    while (rest.length && MAP_ARGUMENTS.test(rest[0])) {
+      const argument = rest.shift()!.slice(1, -1).toLowerCase()
+      if (argument === "buffer") flags.buffer = true
+      if (argument === "silent" || argument === "expr") flags[argument] = true
+    }
+    const lhs = rest[0]?.trim()
+    if (!lhs) continue
+
+    for (const mode of modes) {
+      results.push({
+        mode,
+        lhs,
+        source,
+        line: index + 1,
+        ...flags,
+      })
+    }
+  }
+
+  return results
+}
+
+// `"nv"` is shorthand for both modes, like the old `nvim_set_keymap` callers wrote it
+function splitModeString(value: string): string[] {
+  if (value.length > 1) {
+    const expanded = value.split("").filter((char) => VALID_MODES.has(char))
+    if (expanded.length) return expanded
+  }
+  return [value]
 }
 
-function extractStringLiteral(value: string): string | null {
+export function extractStringLiteral(value: string): string | null {
   const trimmed = value.trim()
   if (!/^["'`]/.test(trimmed)) return null
 
@@ -268,7 +756,27 @@ function extractStringLiteral(value: string): string | null {
   return inner.replace(/\\(["'`\\])/g, "$1")
 }
 
-const VALID_MODES = new Set(["n", "i", "v", "x", "s", "c", "t", "o", "R"])
+const LEADER_ASSIGNMENT = /^let\s+(?:g:)?(mapleader|maplocalleader)\s*=\s*(.+)$/
+
+// Vim's escapes that stand for a single key in a double-quoted string
+const STRING_ESCAPES: Record<string, string> = { e: "<Esc>", t: "<Tab>", n: "<NL>", r: "<CR>", b: "<BS>" }
+
+/** Key notation for a Vimscript string literal, `"\<Space>"` → `<Space>`; null for anything else */
+function decodeVimString(literal: string): string | null {
+  const match = literal.trim().match(/^(?:'((?:[^']|'')*)'|"((?:[^"\\]|\\.)*)")/)
+  if (!match) return null
+  if (match[1] !== undefined) return literalKeys(match[1].replace(/''/g, "'"))
+  return match[2].replace(/\\(<[^<>]+>|.)|([\s\S])/g, (_, escaped: string | undefined, char: string | undefined) => {
+    if (char !== undefined) return canonicalKey(char)
+    if (escaped!.startsWith("<")) return canonicalKey(escaped!)
+    return STRING_ESCAPES[escaped!] ?? canonicalKey(escaped!)
+  })
+}
+
+const MAP_ARGUMENTS = /^<(?:buffer|silent|expr|nowait|unique|script|special)>$/i
+
+/** Single-letter modes a mapping can be defined for */
+export const VALID_MODES = new Set(["n", "i", "v", "x", "s", "c", "t", "o", "R"])
 
 function resolveModesFromCommand(command: string): string[] {
   if (COMMAND_MODE_TABLE[command]) {
@@ -276,8 +784,3 @@ function resolveModesFromCommand(command: string): string[] {
   }
   return []
 }
-
-function estimateLineNumber(content: string, index: number): number {
-  const preceding = content.slice(0, index)
-  return preceding.split(/\r?\n/).length
-}
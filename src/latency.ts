@@ -0,0 +1,80 @@
+import { LatencyHistogram, LatencyProfile } from "./types.ts"
+
+// Upper bounds of the duration histogram; the last bucket is open-ended
+export const LATENCY_BUCKETS_MS = [
+  25, 50, 75, 100, 150, 200, 300, 400, 600, 800, 1000, 1500, 2000, 3000, 5000, 10000, 30000, Infinity,
+]
+
+// A pause counts as hesitation when it is long in absolute terms and, for
+// gestures with several gaps, takes up most of the gesture
+const HESITATION_MIN_MS = 400
+const HESITATION_SHARE = 0.6
+const HESITATION_RATE = 0.5
+
+export function createLatencyHistogram(gapCount: number): LatencyHistogram {
+  return {
+    samples: 0,
+    buckets: LATENCY_BUCKETS_MS.map(() => 0),
+    maxMs: 0,
+    gapSumsMs: Array.from({ length: gapCount }, () => 0),
+    hesitations: 0,
+  }
+}
+
+/**
+ * Record one occurrence given the gaps between its consecutive keys.
+ */
+export function recordLatency(histogram: LatencyHistogram, gapsMs: number[]) {
+  const totalMs = gapsMs.reduce((sum, gap) => sum + gap, 0)
+  const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => totalMs <= bound)
+  histogram.buckets[bucket]++
+  histogram.samples++
+  histogram.maxMs = Math.max(histogram.maxMs, totalMs)
+  gapsMs.forEach((gap, index) => {
+    histogram.gapSumsMs[index] += gap
+  })
+  if (isHesitation(gapsMs, totalMs)) {
+    histogram.hesitations++
+  }
+}
+
+export function isHesitation(gapsMs: number[], totalMs = gapsMs.reduce((sum, gap) => sum + gap, 0)): boolean {
+  const longest = Math.max(0, ...gapsMs)
+  if (longest < HESITATION_MIN_MS) return false
+  return gapsMs.length === 1 || longest >= totalMs * HESITATION_SHARE
+}
+
+export function summarizeLatency(histogram: LatencyHistogram): LatencyProfile {
+  const gapProfileMs = histogram.gapSumsMs.map((sum) => sum / histogram.samples)
+  const hesitationRate = histogram.hesitations / histogram.samples
+  const hesitation = hesitationRate >= HESITATION_RATE
+  const profile: LatencyProfile = {
+    p50Ms: percentile(histogram, 0.5),
+    p90Ms: percentile(histogram, 0.9),
+    maxMs: histogram.maxMs,
+    gapProfileMs,
+    hesitationRate,
+    hesitation,
+  }
+  if (hesitation) {
+    profile.hesitationGap = gapProfileMs.indexOf(Math.max(...gapProfileMs))
+  }
+  return profile
+}
+
+// Interpolate inside the bucket holding the target rank, capped at the observed max
+function percentile(histogram: LatencyHistogram, quantile: number): number {
+  const target = quantile * histogram.samples
+  let seen = 0
+  for (let index = 0; index < histogram.buckets.length; index++) {
+    const count = histogram.buckets[index]
+    if (count === 0 || seen + count < target) {
+      seen += count
+      continue
+    }
+    const lower = index === 0 ? 0 : LATENCY_BUCKETS_MS[index - 1]
+    const upper = Math.min(LATENCY_BUCKETS_MS[index], histogram.maxMs)
+    return lower + (upper - lower) * ((target - seen) / count)
+  }
+  return histogram.maxMs
+}
@@ -0,0 +1,122 @@
+import { createHash } from "node:crypto"
+import { mkdir, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import { readTextFile } from "./fs.ts"
+import { LedgerEntry, LedgerStatus, ModelSuggestion } from "./types.ts"
+
+export const LEDGER_STATUSES: LedgerStatus[] = ["proposed", "accepted", "rejected", "snoozed"]
+
+const LEDGER_VERSION = 1
+
+export type LedgerDecision = {
+  status: LedgerStatus
+  reason?: string
+  snoozedUntil?: string
+}
+
+/** Stable id of a `(mode, lhs, sequence)` triple, the same for every run that proposes it */
+export function suggestionId({ mode, lhs, sequence }: Pick<ModelSuggestion, "mode" | "lhs" | "sequence">): string {
+  return createHash("sha256").update(JSON.stringify([mode, lhs, sequence])).digest("hex").slice(0, 8)
+}
+
+/**
+ * Read the suggestion ledger, `{ "version": 1, "suggestions": [...] }`. A
+ * ledger that does not exist yet is empty.
+ */
+export async function loadSuggestionLedger(path: string): Promise<LedgerEntry[]> {
+  if (!(await Bun.file(path).exists())) return []
+  const parsed = JSON.parse(await readTextFile(path))
+  if (parsed?.version !== LEDGER_VERSION || !Array.isArray(parsed.suggestions)) {
+    throw new Error(`Suggestion ledger ${path} must be { "version": ${LEDGER_VERSION}, "suggestions": [...] }`)
+  }
+  return parsed.suggestions
+}
+
+export async function saveSuggestionLedger(path: string, entries: LedgerEntry[]): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify({ version: LEDGER_VERSION, suggestions: entries }, null, 2)}\n`)
+}
+
+/**
+ * Whether the user's decision still stands: accepted and rejected suggestions
+ * are settled for good, snoozed ones until `snoozedUntil`.
+ */
+export function isDecided(entry: LedgerEntry, now: Date): boolean {
+  if (entry.status === "accepted" || entry.status === "rejected") return true
+  return entry.status === "snoozed" && (!entry.snoozedUntil || Date.parse(entry.snoozedUntil) > now.getTime())
+}
+
+/** Tag suggestions with their ledger id and split off the ones already decided */
+export function partitionByLedger(
+  suggestions: ModelSuggestion[],
+  entries: LedgerEntry[],
+  now: Date,
+): { fresh: ModelSuggestion[]; decided: ModelSuggestion[] } {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]))
+  const fresh: ModelSuggestion[] = []
+  const decided: ModelSuggestion[] = []
+  for (const suggestion of suggestions) {
+    const ledgerId = suggestionId(suggestion)
+    const entry = byId.get(ledgerId)
+    if (entry && isDecided(entry, now)) {
+      decided.push({ ...suggestion, ledgerId })
+    } else {
+      fresh.push({ ...suggestion, ledgerId })
+    }
+  }
+  return { fresh, decided }
+}
+
+/**
+ * Add the suggestions shown to the user as `proposed`. Known ones keep their
+ * history, except that a snooze that ran out turns back into a proposal.
+ */
+export function recordProposals(entries: LedgerEntry[], suggestions: ModelSuggestion[], now: Date): LedgerEntry[] {
+  const next = [...entries]
+  for (const suggestion of suggestions) {
+    const id = suggestion.ledgerId ?? suggestionId(suggestion)
+    const index = next.findIndex((entry) => entry.id === id)
+    if (index === -1) {
+      next.push({
+        id,
+        mode: suggestion.mode,
+        lhs: suggestion.lhs,
+        sequence: suggestion.sequence,
+        ...(suggestion.recommendedMapping ? { recommendedMapping: suggestion.recommendedMapping } : {}),
+        status: "proposed",
+        proposedAt: now.toISOString(),
+      })
+    } else if (next[index].status === "snoozed" && !isDecided(next[index], now)) {
+      next[index] = { ...undecided(next[index]), status: "proposed" }
+    }
+  }
+  return next
+}
+
+/**
+ * Set the status of the entries named by `ids`; a unique prefix of an id is
+ * enough, like with git commits. Unknown or ambiguous ids are errors.
+ */
+export function decideSuggestions(entries: LedgerEntry[], ids: string[], decision: LedgerDecision, now: Date): LedgerEntry[] {
+  const next = [...entries]
+  for (const id of ids) {
+    const matches = next.filter((entry) => entry.id.startsWith(id))
+    if (matches.length !== 1) {
+      throw new Error(matches.length ? `Ledger id '${id}' is ambiguous: ${matches.map((entry) => entry.id).join(", ")}` : `No ledger entry '${id}'`)
+    }
+    const index = next.indexOf(matches[0])
+    next[index] = {
+      ...undecided(next[index]),
+      status: decision.status,
+      ...(decision.reason ? { reason: decision.reason } : {}),
+      decidedAt: now.toISOString(),
+      ...(decision.snoozedUntil ? { snoozedUntil: decision.snoozedUntil } : {}),
+    }
+  }
+  return next
+}
+
+// The entry without the details of its latest decision
+function undecided({ id, mode, lhs, sequence, recommendedMapping, status, proposedAt }: LedgerEntry): LedgerEntry {
+  return { id, mode, lhs, sequence, ...(recommendedMapping ? { recommendedMapping } : {}), status, proposedAt }
+}
@@ -1,21 +1,212 @@
-import { readTextFile } from "./fs.ts"
+import { access, readdir, stat } from "node:fs/promises"
+import { constants, createReadStream } from "node:fs"
+import { basename, dirname, isAbsolute, join } from "node:path"
+import { createGunzip } from "node:zlib"
+import { DecodedEvent, decodeEvent } from "./schema.ts"
 import { KeystrokeEvent } from "./types.ts"
 
-export async function readKeystrokeLog(path: string): Promise<KeystrokeEvent[]> {
-  const text = await readTextFile(path)
+// `keystrokes.jsonl.1`, `keystrokes.jsonl.1.gz` (logrotate) or `keystrokes.jsonl.2026-09.gz` (compact)
+const ROTATION_SUFFIX = /\.(\d+|\d{4}-\d{2})(\.gz)?$/
+const GLOB_CHARS = /[*?[]/
+
+export type LogRecord = {
+  event: KeystrokeEvent
+  /** Byte offset of the line in the log file. */
+  offset: number
+  /** Byte offset just past the line (including its newline). */
+  end: number
+}
+
+/**
+ * Read every event from one or more logs. Paths may be globs, gzip-compressed
+ * and are extended with their rotated siblings (see `resolveLogPaths`).
+ */
+export async function readKeystrokeLog(path: string | string[]): Promise<KeystrokeEvent[]> {
   const events: KeystrokeEvent[] = []
+  for (const logPath of await resolveLogPaths(path)) {
+    for await (const { event } of streamKeystrokeLog(logPath)) {
+      events.push(event)
+    }
+  }
+  return events
+}
+
+export function isCompressedLog(path: string): boolean {
+  return path.endsWith(".gz")
+}
+
+/**
+ * Expand log paths and globs into the files to read, oldest first: for a live
+ * log the rotated and archived siblings next to it (`<log>.<n>[.gz]`,
+ * `<log>.<yyyy-mm>.gz`) come before it unless `rotated` is false.
+ */
+export async function resolveLogPaths(
+  inputs: string | string[],
+  { rotated = true }: { rotated?: boolean } = {},
+): Promise<string[]> {
+  const paths = new Set<string>()
+  for (const input of Array.isArray(inputs) ? inputs : [inputs]) {
+    const matches = GLOB_CHARS.test(input) ? await expandGlob(input) : [input]
+    for (const match of matches) {
+      if (match.endsWith(".checkpoint.json")) continue
+      paths.add(match)
+      if (rotated && !ROTATION_SUFFIX.test(match)) {
+        for (const sibling of await findRotatedSiblings(match)) paths.add(sibling)
+      }
+    }
+  }
+  return Array.from(paths).sort(compareLogPaths)
+}
+
+/**
+ * Stream events from a JSONL log without loading the whole file, starting at
+ * `startOffset` bytes. Offsets are reported so callers can resume later.
+ */
+export async function* streamKeystrokeLog(path: string, startOffset = 0): AsyncGenerator<LogRecord> {
+  await access(path, constants.F_OK)
+  if (startOffset > 0 && isCompressedLog(path)) {
+    throw new Error(`Cannot resume a compressed log at an offset: ${path}`)
+  }
 
-  const lines = text.split(/\r?\n/)
-  for (const [index, line] of lines.entries()) {
-    const trimmed = line.trim()
+  let skipped = 0
+  for await (const { text, offset, end } of streamLogLines(path, startOffset)) {
+    const trimmed = text.trim()
     if (!trimmed) continue
-    try {
-      const parsed = JSON.parse(trimmed)
-      events.push(parsed as KeystrokeEvent)
-    } catch (error) {
-      console.warn(`Skipping malformed log line ${index + 1}: ${error}`)
+    const decoded = decodeLine(trimmed)
+    if ("error" in decoded) {
+      skipped++
+      continue
     }
+    yield { event: decoded.event, offset, end }
   }
+  if (skipped) {
+    console.warn(`Skipped ${skipped} invalid line(s) in ${path}; run \`ai-keymap validate\` for details`)
+  }
+}
 
-  return events
+/** Parse one JSONL line and upgrade it to the current event schema */
+export function decodeLine(text: string): DecodedEvent {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { error: `invalid JSON (${error instanceof Error ? error.message : error})` }
+  }
+  return decodeEvent(parsed)
+}
+
+export async function* streamLogLines(
+  path: string,
+  startOffset = 0,
+): AsyncGenerator<{ text: string; offset: number; end: number }> {
+  let pending: Buffer = Buffer.alloc(0)
+  let pendingOffset = startOffset
+
+  const file = createReadStream(path, { start: startOffset })
+  // Offsets of a compressed log count decompressed bytes
+  const source = isCompressedLog(path) ? file.pipe(createGunzip()) : file
+  for await (const chunk of source) {
+    pending = pending.length ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer)
+
+    let lineStart = 0
+    let newline = pending.indexOf(0x0a, lineStart)
+    while (newline !== -1) {
+      yield {
+        text: pending.subarray(lineStart, newline).toString("utf8"),
+        offset: pendingOffset + lineStart,
+        end: pendingOffset + newline + 1,
+      }
+      lineStart = newline + 1
+      newline = pending.indexOf(0x0a, lineStart)
+    }
+
+    pending = pending.subarray(lineStart)
+    pendingOffset += lineStart
+  }
+
+  if (pending.length) {
+    yield { text: pending.toString("utf8"), offset: pendingOffset, end: pendingOffset + pending.length }
+  }
+}
+
+/** The live log a rotated or archived file belongs to (the path itself for a live log) */
+export function rotationFamily(path: string): string {
+  return path.replace(ROTATION_SUFFIX, "")
+}
+
+async function findRotatedSiblings(path: string): Promise<string[]> {
+  const dir = dirname(path)
+  const name = basename(path)
+  let entries: string[]
+  try {
+    entries = await readdir(dir)
+  } catch {
+    return []
+  }
+  return entries
+    .filter((entry) => ROTATION_SUFFIX.test(entry) && rotationFamily(entry) === name)
+    .map((entry) => join(dir, entry))
+}
+
+// Group rotated files with their live log: monthly archives by month, then
+// numbered rotations from the highest (oldest) number, then the live log
+function compareLogPaths(a: string, b: string): number {
+  const [familyA, familyB] = [rotationFamily(a), rotationFamily(b)]
+  if (familyA !== familyB) return familyA < familyB ? -1 : 1
+  return rotationRank(a).localeCompare(rotationRank(b))
+}
+
+function rotationRank(path: string): string {
+  const suffix = path.match(ROTATION_SUFFIX)?.[1]
+  if (!suffix) return "2"
+  if (suffix.includes("-")) return `0${suffix}`
+  return `1${String(Number.MAX_SAFE_INTEGER - Number(suffix)).padStart(16, "0")}`
+}
+
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split("/").filter(Boolean)
+  let candidates = [isAbsolute(pattern) ? "/" : "."]
+
+  for (const [index, segment] of segments.entries()) {
+    const last = index === segments.length - 1
+    const next: string[] = []
+    for (const base of candidates) {
+      if (!GLOB_CHARS.test(segment)) {
+        next.push(join(base, segment))
+        continue
+      }
+      const matcher = globSegment(segment)
+      const entries = await readdir(base, { withFileTypes: true }).catch(() => [])
+      for (const entry of entries) {
+        if (matcher.test(entry.name) && (last || entry.isDirectory())) next.push(join(base, entry.name))
+      }
+    }
+    candidates = next
+  }
+
+  const existing: string[] = []
+  for (const candidate of candidates) {
+    if (await stat(candidate).then((stats) => stats.isFile(), () => false)) existing.push(candidate)
+  }
+  return existing
+}
+
+function globSegment(segment: string): RegExp {
+  let source = ""
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index]
+    const close = char === "[" ? segment.indexOf("]", index + 1) : -1
+    if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (close !== -1) {
+      source += `[${segment.slice(index + 1, close).replace(/^!/, "^")}]`
+      index = close
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  // Like a shell, wildcards do not match hidden files
+  return new RegExp(segment.startsWith(".") ? `^${source}$` : `^(?!\\.)${source}$`)
 }
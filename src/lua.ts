@@ -0,0 +1,579 @@
+/**
+ * A small Lua 5.1/LuaJIT tokenizer and parser, enough to walk Neovim configs
+ * as syntax trees instead of matching them with regexes. Expressions keep their
+ * source range so callers can quote them back.
+ */
+
+export type LuaToken = {
+  type: "name" | "keyword" | "string" | "number" | "symbol" | "eof"
+  value: string
+  line: number
+  start: number
+  end: number
+}
+
+type Range = { line: number; start: number; end: number }
+
+export type LuaExpression = Range &
+  (
+    | { kind: "nil" | "vararg" }
+    | { kind: "boolean"; value: boolean }
+    | { kind: "number"; value: number }
+    | { kind: "string"; value: string }
+    | { kind: "name"; name: string }
+    | { kind: "index"; object: LuaExpression; key: LuaExpression }
+    | { kind: "call"; callee: LuaExpression; method?: string; args: LuaExpression[] }
+    | { kind: "function"; params: string[]; body: LuaStatement[] }
+    | { kind: "table"; fields: LuaField[] }
+    | { kind: "binary"; operator: string; left: LuaExpression; right: LuaExpression }
+    | { kind: "unary"; operator: string; operand: LuaExpression }
+    | { kind: "paren"; expression: LuaExpression }
+  )
+
+export type LuaCall = Extract<LuaExpression, { kind: "call" }>
+export type LuaFunction = Extract<LuaExpression, { kind: "function" }>
+export type LuaTable = Extract<LuaExpression, { kind: "table" }>
+
+/** A table constructor field; positional fields have no key */
+export type LuaField = { key?: LuaExpression; value: LuaExpression }
+
+export type LuaStatement = { line: number } & (
+  | { kind: "local"; names: string[]; values: LuaExpression[] }
+  | { kind: "assign"; targets: LuaExpression[]; values: LuaExpression[] }
+  | { kind: "call"; call: LuaCall }
+  | { kind: "function"; target: LuaExpression; local: boolean; func: LuaFunction }
+  | { kind: "numericFor"; variable: string; from: LuaExpression; to: LuaExpression; step?: LuaExpression; body: LuaStatement[] }
+  | { kind: "genericFor"; names: string[]; iterators: LuaExpression[]; body: LuaStatement[] }
+  | { kind: "if"; clauses: { condition?: LuaExpression; body: LuaStatement[] }[] }
+  | { kind: "while"; condition: LuaExpression; body: LuaStatement[] }
+  | { kind: "repeat"; body: LuaStatement[]; condition: LuaExpression }
+  | { kind: "do"; body: LuaStatement[] }
+  | { kind: "return"; values: LuaExpression[] }
+  | { kind: "break" | "goto" | "label" }
+)
+
+const KEYWORDS = new Set([
+  "and", "break", "do", "else", "elseif", "end", "false", "for", "function", "goto", "if", "in",
+  "local", "nil", "not", "or", "repeat", "return", "then", "true", "until", "while",
+])
+
+// Longest first so `...` wins over `..` and `.`
+const SYMBOLS = ["...", "..", "==", "~=", "<=", ">=", "<<", ">>", "//", "::", "+", "-", "*", "/", "%", "^", "#", "&", "~", "|", "<", ">", "=", "(", ")", "{", "}", "[", "]", ";", ":", ",", "."]
+
+// [left, right] binding power, see the Lua manual's operator precedence table
+const BINARY_PRECEDENCE: Record<string, [number, number]> = {
+  or: [1, 1],
+  and: [2, 2],
+  "<": [3, 3], ">": [3, 3], "<=": [3, 3], ">=": [3, 3], "~=": [3, 3], "==": [3, 3],
+  "|": [4, 4],
+  "~": [5, 5],
+  "&": [6, 6],
+  "<<": [7, 7], ">>": [7, 7],
+  "..": [9, 8],
+  "+": [10, 10], "-": [10, 10],
+  "*": [11, 11], "/": [11, 11], "//": [11, 11], "%": [11, 11],
+  "^": [14, 13],
+}
+const UNARY_PRECEDENCE = 12
+
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", a: "\x07", b: "\b", f: "\f", v: "\v" }
+
+export function tokenizeLua(source: string): LuaToken[] {
+  const tokens: LuaToken[] = []
+  let index = 0
+  let line = 1
+
+  const advanceLines = (text: string) => {
+    for (const char of text) if (char === "\n") line++
+  }
+
+  while (index < source.length) {
+    const char = source[index]
+    if (char === "\n") {
+      line++
+      index++
+      continue
+    }
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+    // Shebang on the first line
+    if (index === 0 && source.startsWith("#!")) {
+      index = source.indexOf("\n") === -1 ? source.length : source.indexOf("\n")
+      continue
+    }
+
+    if (source.startsWith("--", index)) {
+      const long = readLongBracket(source, index + 2)
+      if (long) {
+        advanceLines(source.slice(index, long.end))
+        index = long.end
+      } else {
+        const newline = source.indexOf("\n", index)
+        index = newline === -1 ? source.length : newline
+      }
+      continue
+    }
+
+    const start = index
+    const startLine = line
+    const push = (type: LuaToken["type"], value: string) => tokens.push({ type, value, line: startLine, start, end: index })
+
+    if (/[A-Za-z_]/.test(char)) {
+      const name = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0]
+      index += name.length
+      push(KEYWORDS.has(name) ? "keyword" : "name", name)
+      continue
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[index + 1] ?? ""))) {
+      const number = source
+        .slice(index)
+        .match(/^(?:0[xX](?:[0-9a-fA-F]*\.?[0-9a-fA-F]*)(?:[pP][+-]?\d+)?|(?:\d*\.?\d*)(?:[eE][+-]?\d+)?)(?:ULL|LL|i)?/)![0]
+      index += number.length
+      push("number", number)
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ""
+      index++
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\n") throw syntaxError("Unfinished string", startLine)
+        if (source[index] !== "\\") {
+          value += source[index++]
+          continue
+        }
+        const next = source[index + 1] ?? ""
+        if (ESCAPES[next]) {
+          value += ESCAPES[next]
+          index += 2
+        } else if (next === "\n") {
+          value += "\n"
+          line++
+          index += 2
+        } else if (next === "z") {
+          index += 2
+          while (index < source.length && /\s/.test(source[index])) {
+            if (source[index] === "\n") line++
+            index++
+          }
+        } else if (next === "x") {
+          value += String.fromCharCode(parseInt(source.slice(index + 2, index + 4), 16))
+          index += 4
+        } else if (/[0-9]/.test(next)) {
+          const digits = source.slice(index + 1).match(/^\d{1,3}/)![0]
+          value += String.fromCharCode(Number(digits))
+          index += 1 + digits.length
+        } else if (next === "u" && source[index + 2] === "{") {
+          const close = source.indexOf("}", index)
+          value += String.fromCodePoint(parseInt(source.slice(index + 3, close), 16))
+          index = close + 1
+        } else {
+          value += next
+          index += 2
+        }
+      }
+      if (index >= source.length) throw syntaxError("Unfinished string", startLine)
+      index++
+      push("string", value)
+      continue
+    }
+
+    if (char === "[") {
+      const long = readLongBracket(source, index)
+      if (long) {
+        advanceLines(source.slice(index, long.end))
+        index = long.end
+        // A newline right after the opening bracket is not part of the string
+        push("string", long.content.replace(/^\r?\n/, ""))
+        continue
+      }
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, index))
+    if (!symbol) throw syntaxError(`Unexpected character '${char}'`, line)
+    index += symbol.length
+    push("symbol", symbol)
+  }
+
+  tokens.push({ type: "eof", value: "", line, start: source.length, end: source.length })
+  return tokens
+}
+
+/** Parse a Lua chunk into statements, throwing on invalid code. */
+export function parseLua(source: string): LuaStatement[] {
+  const tokens = tokenizeLua(source)
+  let position = 0
+
+  const peek = (offset = 0) => tokens[Math.min(position + offset, tokens.length - 1)]
+  const next = () => tokens[position++]
+  const check = (value: string) => {
+    const token = peek()
+    return (token.type === "symbol" || token.type === "keyword") && token.value === value
+  }
+  const accept = (value: string) => (check(value) ? next() : null)
+  const expect = (value: string) => {
+    const token = accept(value)
+    if (!token) throw syntaxError(`Expected '${value}' near '${peek().value || "<eof>"}'`, peek().line)
+    return token
+  }
+  const expectName = () => {
+    const token = peek()
+    if (token.type !== "name") throw syntaxError(`Expected a name near '${token.value || "<eof>"}'`, token.line)
+    return next().value
+  }
+
+  const body = parseBlock()
+  if (peek().type !== "eof") throw syntaxError(`Unexpected '${peek().value}'`, peek().line)
+  return body
+
+  function blockEnds(): boolean {
+    const token = peek()
+    return token.type === "eof" || (token.type === "keyword" && ["end", "else", "elseif", "until"].includes(token.value))
+  }
+
+  function parseBlock(): LuaStatement[] {
+    const statements: LuaStatement[] = []
+    while (!blockEnds()) {
+      if (accept(";")) continue
+      const statement = parseStatement()
+      statements.push(statement)
+      if (statement.kind === "return") break
+    }
+    return statements
+  }
+
+  function parseStatement(): LuaStatement {
+    const token = peek()
+    const line = token.line
+
+    if (token.type === "keyword") {
+      switch (token.value) {
+        case "local": {
+          next()
+          if (accept("function")) {
+            const name = expectName()
+            const nameToken = tokens[position - 1]
+            const target: LuaExpression = { kind: "name", name, line, start: nameToken.start, end: nameToken.end }
+            return { kind: "function", line, target, local: true, func: parseFunctionBody(token) }
+          }
+          const names = [parseLocalName()]
+          while (accept(",")) names.push(parseLocalName())
+          const values = accept("=") ? parseExpressionList() : []
+          return { kind: "local", line, names, values }
+        }
+        case "function": {
+          next()
+          let target: LuaExpression = parseNameExpression()
+          let method = false
+          while (check(".") || check(":")) {
+            method = next().value === ":"
+            const keyToken = peek()
+            const key = expectName()
+            target = {
+              kind: "index",
+              object: target,
+              key: { kind: "string", value: key, line: keyToken.line, start: keyToken.start, end: keyToken.end },
+              line,
+              start: target.start,
+              end: keyToken.end,
+            }
+            if (method) break
+          }
+          const func = parseFunctionBody(token)
+          // `function obj:name(...)` receives the object as an implicit first parameter
+          if (method) func.params.unshift("self")
+          return { kind: "function", line, target, local: false, func }
+        }
+        case "if": {
+          next()
+          const clauses: { condition?: LuaExpression; body: LuaStatement[] }[] = []
+          const condition = parseExpression()
+          expect("then")
+          clauses.push({ condition, body: parseBlock() })
+          while (check("elseif")) {
+            next()
+            const elseCondition = parseExpression()
+            expect("then")
+            clauses.push({ condition: elseCondition, body: parseBlock() })
+          }
+          if (accept("else")) clauses.push({ body: parseBlock() })
+          expect("end")
+          return { kind: "if", line, clauses }
+        }
+        case "for": {
+          next()
+          const first = expectName()
+          if (accept("=")) {
+            const from = parseExpression()
+            expect(",")
+            const to = parseExpression()
+            const step = accept(",") ? parseExpression() : undefined
+            expect("do")
+            const loopBody = parseBlock()
+            expect("end")
+            return { kind: "numericFor", line, variable: first, from, to, step, body: loopBody }
+          }
+          const names = [first]
+          while (accept(",")) names.push(expectName())
+          expect("in")
+          const iterators = parseExpressionList()
+          expect("do")
+          const loopBody = parseBlock()
+          expect("end")
+          return { kind: "genericFor", line, names, iterators, body: loopBody }
+        }
+        case "while": {
+          next()
+          const condition = parseExpression()
+          expect("do")
+          const loopBody = parseBlock()
+          expect("end")
+          return { kind: "while", line, condition, body: loopBody }
+        }
+        case "repeat": {
+          next()
+          const loopBody = parseBlock()
+          expect("until")
+          return { kind: "repeat", line, body: loopBody, condition: parseExpression() }
+        }
+        case "do": {
+          next()
+          const block = parseBlock()
+          expect("end")
+          return { kind: "do", line, body: block }
+        }
+        case "return": {
+          next()
+          const values = blockEnds() || check(";") ? [] : parseExpressionList()
+          accept(";")
+          return { kind: "return", line, values }
+        }
+        case "break":
+          next()
+          return { kind: "break", line }
+        case "goto":
+          next()
+          expectName()
+          return { kind: "goto", line }
+      }
+    }
+    if (accept("::")) {
+      expectName()
+      expect("::")
+      return { kind: "label", line }
+    }
+
+    const expression = parseSuffixedExpression()
+    if (check("=") || check(",")) {
+      const targets = [expression]
+      while (accept(",")) targets.push(parseSuffixedExpression())
+      expect("=")
+      return { kind: "assign", line, targets, values: parseExpressionList() }
+    }
+    if (expression.kind !== "call") {
+      throw syntaxError("expected an assignment or a function call", line)
+    }
+    return { kind: "call", line, call: expression }
+  }
+
+  // `local x <const>` attributes (Lua 5.4) are accepted and ignored
+  function parseLocalName(): string {
+    const name = expectName()
+    if (check("<") && peek(1).type === "name" && peek(2).value === ">") position += 3
+    return name
+  }
+
+  function parseFunctionBody(startToken: LuaToken): LuaFunction {
+    expect("(")
+    const params: string[] = []
+    if (!check(")")) {
+      do {
+        if (accept("...")) {
+          params.push("...")
+          break
+        }
+        params.push(expectName())
+      } while (accept(","))
+    }
+    expect(")")
+    const block = parseBlock()
+    const end = expect("end")
+    return { kind: "function", params, body: block, line: startToken.line, start: startToken.start, end: end.end }
+  }
+
+  function parseExpressionList(): LuaExpression[] {
+    const list = [parseExpression()]
+    while (accept(",")) list.push(parseExpression())
+    return list
+  }
+
+  function parseExpression(limit = 0): LuaExpression {
+    let left: LuaExpression
+    const token = peek()
+    if ((token.type === "keyword" && token.value === "not") || (token.type === "symbol" && ["-", "#", "~"].includes(token.value))) {
+      next()
+      const operand = parseExpression(UNARY_PRECEDENCE)
+      left = { kind: "unary", operator: token.value, operand, line: token.line, start: token.start, end: operand.end }
+    } else {
+      left = parseSimpleExpression()
+    }
+
+    while (true) {
+      const operator = peek()
+      const precedence = (operator.type === "symbol" || operator.type === "keyword") && BINARY_PRECEDENCE[operator.value]
+      if (!precedence || precedence[0] <= limit) break
+      next()
+      const right = parseExpression(precedence[1])
+      left = { kind: "binary", operator: operator.value, left, right, line: left.line, start: left.start, end: right.end }
+    }
+    return left
+  }
+
+  function parseSimpleExpression(): LuaExpression {
+    const token = peek()
+    const range = { line: token.line, start: token.start, end: token.end }
+    switch (token.type) {
+      case "number":
+        next()
+        return { kind: "number", value: parseNumber(token.value), ...range }
+      case "string":
+        next()
+        return { kind: "string", value: token.value, ...range }
+      case "keyword":
+        if (token.value === "nil") return next() && { kind: "nil", ...range }
+        if (token.value === "true" || token.value === "false") {
+          next()
+          return { kind: "boolean", value: token.value === "true", ...range }
+        }
+        if (token.value === "function") {
+          next()
+          return parseFunctionBody(token)
+        }
+        break
+      case "symbol":
+        if (token.value === "...") return next() && { kind: "vararg", ...range }
+        if (token.value === "{") return parseTable()
+        break
+    }
+    return parseSuffixedExpression()
+  }
+
+  function parseNameExpression(): LuaExpression {
+    const token = peek()
+    const name = expectName()
+    return { kind: "name", name, line: token.line, start: token.start, end: token.end }
+  }
+
+  function parsePrimaryExpression(): LuaExpression {
+    const token = peek()
+    if (accept("(")) {
+      const expression = parseExpression()
+      const close = expect(")")
+      return { kind: "paren", expression, line: token.line, start: token.start, end: close.end }
+    }
+    return parseNameExpression()
+  }
+
+  function parseSuffixedExpression(): LuaExpression {
+    let expression = parsePrimaryExpression()
+    while (true) {
+      const token = peek()
+      if (check(".")) {
+        next()
+        const keyToken = peek()
+        const key = expectName()
+        expression = {
+          kind: "index",
+          object: expression,
+          key: { kind: "string", value: key, line: keyToken.line, start: keyToken.start, end: keyToken.end },
+          line: expression.line,
+          start: expression.start,
+          end: keyToken.end,
+        }
+      } else if (check("[")) {
+        next()
+        const key = parseExpression()
+        const close = expect("]")
+        expression = { kind: "index", object: expression, key, line: expression.line, start: expression.start, end: close.end }
+      } else if (check(":")) {
+        next()
+        const method = expectName()
+        const { args, end } = parseCallArguments()
+        expression = { kind: "call", callee: expression, method, args, line: token.line, start: expression.start, end }
+      } else if (check("(") || check("{") || token.type === "string") {
+        const { args, end } = parseCallArguments()
+        expression = { kind: "call", callee: expression, args, line: expression.line, start: expression.start, end }
+      } else {
+        return expression
+      }
+    }
+  }
+
+  function parseCallArguments(): { args: LuaExpression[]; end: number } {
+    const token = peek()
+    if (token.type === "string") {
+      next()
+      return { args: [{ kind: "string", value: token.value, line: token.line, start: token.start, end: token.end }], end: token.end }
+    }
+    if (check("{")) {
+      const table = parseTable()
+      return { args: [table], end: table.end }
+    }
+    expect("(")
+    const args = check(")") ? [] : parseExpressionList()
+    const close = expect(")")
+    return { args, end: close.end }
+  }
+
+  function parseTable(): LuaTable {
+    const open = expect("{")
+    const fields: LuaField[] = []
+    while (!check("}")) {
+      if (check("[")) {
+        next()
+        const key = parseExpression()
+        expect("]")
+        expect("=")
+        fields.push({ key, value: parseExpression() })
+      } else if (peek().type === "name" && peek(1).value === "=" && peek(1).type === "symbol") {
+        const keyToken = next()
+        next()
+        const key: LuaExpression = { kind: "string", value: keyToken.value, line: keyToken.line, start: keyToken.start, end: keyToken.end }
+        fields.push({ key, value: parseExpression() })
+      } else {
+        fields.push({ value: parseExpression() })
+      }
+      if (!accept(",") && !accept(";")) break
+    }
+    const close = expect("}")
+    return { kind: "table", fields, line: open.line, start: open.start, end: close.end }
+  }
+}
+
+function syntaxError(message: string, line: number): Error {
+  return new Error(`Lua syntax error: ${message} on line ${line}`)
+}
+
+function parseNumber(text: string): number {
+  const plain = text.replace(/(?:ULL|LL|i)$/, "")
+  if (/^0[xX]/.test(plain) && !/[.pP]/.test(plain)) return parseInt(plain, 16)
+  const value = Number(plain)
+  return Number.isNaN(value) ? 0 : value
+}
+
+// `[[...]]`, `[==[...]==]` starting at `index`; null when it is not a long bracket
+function readLongBracket(source: string, index: number): { content: string; end: number } | null {
+  const open = source.slice(index).match(/^\[(=*)\[/)
+  if (!open) return null
+  const close = `]${open[1]}]`
+  const contentStart = index + open[0].length
+  const closeIndex = source.indexOf(close, contentStart)
+  if (closeIndex === -1) {
+    const line = source.slice(0, index).split("\n").length
+    throw syntaxError("Unfinished long string or comment", line)
+  }
+  return { content: source.slice(contentStart, closeIndex), end: closeIndex + close.length }
+}
@@ -0,0 +1,121 @@
+import { splitKeyNotation } from "./grammar.ts"
+import { Leaders } from "./types.ts"
+
+/** Vim's defaults when neither `mapleader` nor `maplocalleader` is set */
+export const DEFAULT_LEADERS: Leaders = { leader: "\\", localLeader: "\\" }
+
+// Lower-cased key names and the spelling keytrans() uses for them
+const NAMED_KEYS: Record<string, string> = {
+  cr: "CR",
+  return: "CR",
+  enter: "CR",
+  esc: "Esc",
+  tab: "Tab",
+  bs: "BS",
+  backspace: "BS",
+  space: "Space",
+  lt: "lt",
+  bslash: "Bslash",
+  bar: "Bar",
+  del: "Del",
+  delete: "Del",
+  nl: "NL",
+  newline: "NL",
+  linefeed: "NL",
+  lf: "NL",
+  nul: "Nul",
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  home: "Home",
+  end: "End",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  insert: "Insert",
+  help: "Help",
+  undo: "Undo",
+  cmd: "Cmd",
+  plug: "Plug",
+  sid: "SID",
+  nop: "Nop",
+  leader: "Leader",
+  localleader: "LocalLeader",
+}
+
+// Characters that need a name inside <...>, the ones that need it even on their
+// own, and the names keytrans() writes as the bare character
+const CHARACTER_NAMES: Record<string, string> = { " ": "Space", "<": "lt", "\\": "Bslash", "|": "Bar" }
+const LITERAL_NAMES: Record<string, string> = { " ": "<Space>", "<": "<lt>" }
+const BARE_NAMES: Record<string, string> = { Bslash: "\\", Bar: "|" }
+
+// CTRL-[ and friends are the very same byte as a named key
+const CONTROL_ALIASES: Record<string, string> = { "[": "Esc", i: "Tab", m: "CR", j: "NL", "@": "Nul" }
+
+// keytrans() writes modifiers in this order; `A-` is another spelling of `M-`
+const MODIFIER_ORDER = ["M", "T", "C", "S", "D"]
+
+/**
+ * Canonical spelling of one key, the way keytrans() would write it:
+ * `<c-a>` → `<C-A>`, `<C-[>` → `<Esc>`, `<Bslash>` → `\`, `<S-a>` → `A`,
+ * ` ` → `<Space>`. Unknown `<...>` names are kept as written.
+ */
+export function canonicalKey(key: string): string {
+  if (key.length === 1) return LITERAL_NAMES[key] ?? key
+  if (!key.startsWith("<") || !key.endsWith(">")) return key
+
+  let inner = key.slice(1, -1)
+  const modifiers = new Set<string>()
+  let match: RegExpMatchArray | null
+  while ((match = inner.match(/^([MATCSD])-(.+)$/i))) {
+    const modifier = match[1].toUpperCase()
+    modifiers.add(modifier === "A" ? "M" : modifier)
+    inner = match[2]
+  }
+
+  let base: string
+  if (inner.length === 1) {
+    // `<a>` is not a key name: Vim reads it as three characters
+    if (!modifiers.size) return literalKeys(key)
+    base = inner
+  } else {
+    const lower = inner.toLowerCase()
+    const named = NAMED_KEYS[lower] ?? (/^f\d{1,2}$/.test(lower) ? lower.toUpperCase() : undefined)
+    if (!named) return key
+    base = named
+  }
+
+  if (inner.length === 1) {
+    if (modifiers.size === 1 && modifiers.has("S") && /^[a-z]$/i.test(base)) {
+      modifiers.delete("S")
+      base = base.toUpperCase()
+    }
+    if (modifiers.size === 1 && modifiers.has("C") && CONTROL_ALIASES[base.toLowerCase()]) {
+      modifiers.clear()
+      base = CONTROL_ALIASES[base.toLowerCase()]
+    } else if (modifiers.has("C") && /^[a-z]$/i.test(base)) {
+      base = base.toUpperCase()
+    }
+    if (!modifiers.size) return canonicalKey(base.length === 1 ? base : `<${base}>`)
+    base = CHARACTER_NAMES[base] ?? base
+  }
+
+  if (!modifiers.size) return BARE_NAMES[base] ?? `<${base}>`
+  const prefix = MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)).join("-")
+  return `<${prefix}-${base}>`
+}
+
+/**
+ * Canonical form of a lhs for comparing mappings: `<leader>`/`<localleader>`
+ * expanded to the configured keys and every key spelled as by keytrans(), so
+ * with a space leader `<leader>f`, `<Space>f` and `<space>f` are all `<Space>f`.
+ */
+export function canonicalLhs(lhs: string, leaders: Leaders = DEFAULT_LEADERS): string {
+  const expanded = lhs.replace(/<(local)?leader>/gi, (_, local) => (local ? leaders.localLeader : leaders.leader))
+  return splitKeyNotation(expanded).map(canonicalKey).join("")
+}
+
+/** Notation for a string of literal characters, e.g. a `mapleader` value of `" "` → `<Space>` */
+export function literalKeys(text: string): string {
+  return Array.from(text, canonicalKey).join("")
+}
@@ -0,0 +1,78 @@
+import { SuggestionParams } from "./ai.ts"
+import { findBuiltinEquivalents } from "./catalog.ts"
+import { findConflicts } from "./conflicts.ts"
+import { isRunLabel } from "./grammar.ts"
+import { canonicalLhs, DEFAULT_LEADERS } from "./notation.ts"
+import { ModelSuggestion, SequenceStat } from "./types.ts"
+
+const ALPHABET = Array.from("abcdefghijklmnopqrstuvwxyz")
+
+/**
+ * Suggest mappings from the mined sequences alone, no model involved: each
+ * worthwhile Normal or Visual mode sequence becomes `<leader>` plus one key,
+ * preferring a key from the sequence itself (`ciw` → `<leader>w`) and skipping
+ * any that conflict with existing keymaps, built-ins, earlier suggestions or
+ * that the user already rejected for the same sequence.
+ * Sequences a built-in already shortens are left to that recommendation.
+ */
+export function suggestOffline({
+  sequences,
+  scope,
+  existingKeymaps,
+  leaders = DEFAULT_LEADERS,
+  negativeExamples = [],
+  topN = 5,
+}: SuggestionParams): ModelSuggestion[] {
+  const suggestions: ModelSuggestion[] = []
+  const taken = new Set<string>()
+
+  for (const sequence of sequences) {
+    if (suggestions.length >= topN) break
+    const mode = suggestionMode(sequence.mode)
+    if (!mode || sequence.estimatedSavings <= 0) continue
+    if (sequence.keys.some(isRunLabel)) continue
+    if (findBuiltinEquivalents([sequence]).length) continue
+
+    const rhs = sequence.keys.join("")
+    for (const key of candidateKeys(rhs)) {
+      const lhs = `<leader>${key}`
+      const canonical = canonicalLhs(lhs, leaders)
+      if (taken.has(`${mode}:${canonical}`)) continue
+      if (negativeExamples.some((entry) => entry.mode === mode && entry.lhs === lhs && entry.sequence.join("") === rhs)) continue
+      const suggestion: ModelSuggestion = {
+        mode,
+        lhs,
+        sequence: sequence.keys,
+        recommendedMapping: rhs,
+        rationale: describeSaving(sequence),
+        canonicalLhs: canonical,
+        ...(scope ? { scope } : {}),
+      }
+      if (findConflicts(suggestion, existingKeymaps, leaders).length) continue
+      taken.add(`${mode}:${canonical}`)
+      suggestions.push(suggestion)
+      break
+    }
+  }
+
+  return suggestions
+}
+
+function suggestionMode(mode: string): string | null {
+  if (mode.startsWith("n")) return "n"
+  if (mode === "v" || mode === "V" || mode === "\u0016") return "x"
+  return null
+}
+
+// Letters of the sequence from the end (the motion or object names it best), then the rest of the alphabet
+function candidateKeys(rhs: string): string[] {
+  const own = Array.from(rhs.replace(/<[^<>]+>/g, "").toLowerCase())
+    .reverse()
+    .filter((char) => ALPHABET.includes(char))
+  return Array.from(new Set([...own, ...ALPHABET]))
+}
+
+function describeSaving(sequence: SequenceStat): string {
+  const perUse = sequence.keystrokeCost - sequence.replacementCost
+  return `Typed ${sequence.count} times; a leader mapping saves about ${perUse.toFixed(1)} keystrokes each time (offline heuristic).`
+}
@@ -0,0 +1,159 @@
+import { combineOptions, computeDelta } from "./analyzer.ts"
+import { splitSessions } from "./sessions.ts"
+import { AnalyzerOptions, KeystrokeEvent, PatternTemplateStat } from "./types.ts"
+
+type SlotName = "textobj" | "char" | "count" | "motion"
+
+type TemplateToken =
+  | { kind: "literal"; key: string; repeat?: boolean }
+  | { kind: "slot"; slot: SlotName }
+
+type PatternTemplate = {
+  family: string
+  tokens: TemplateToken[]
+}
+
+const TEXT_OBJECTS = new Set(["w", "W", "s", "p", '"', "'", "`", "(", ")", "b", "[", "]", "{", "}", "B", "<lt>", "<", ">", "t"])
+const MOTIONS = new Set(["h", "j", "k", "l", "w", "W", "b", "B", "e", "E", "0", "^", "$", "G", "{", "}", "(", ")", "%", "H", "M", "L"])
+const OPERATORS = ["c", "d", "y", "v"]
+
+const literal = (key: string, repeat = false): TemplateToken => ({ kind: "literal", key, repeat })
+const slot = (name: SlotName): TemplateToken => ({ kind: "slot", slot: name })
+
+const TEMPLATES: PatternTemplate[] = [
+  ...OPERATORS.flatMap((op) =>
+    ["i", "a"].map((modifier) => ({
+      family: "text-object",
+      tokens: [literal(op), literal(modifier), slot("textobj")],
+    })),
+  ),
+  ...["f", "F", "t", "T"].map((find) => ({
+    family: "find-repeat",
+    tokens: [literal(find), slot("char"), literal(";", true)],
+  })),
+  { family: "count-motion", tokens: [slot("count"), slot("motion")] },
+  ...OPERATORS.filter((op) => op !== "v").map((op) => ({
+    family: "operator-motion",
+    tokens: [literal(op), slot("motion")],
+  })),
+]
+
+function templateLabel(template: PatternTemplate): string {
+  return template.tokens
+    .map((token) => (token.kind === "slot" ? `<${token.slot}>` : `${token.key}${token.repeat ? "+" : ""}`))
+    .join(" ")
+}
+
+export type TemplateTotals = Map<string, PatternTemplateStat>
+
+/**
+ * Mine generalised gesture templates (`c i <textobj>`, `f <char> ;+`,
+ * `<count> <motion>`) so families like `ci"`/`ci'`/`ci(` are counted together.
+ * Operator-pending keys (`no` modes) belong to the Normal mode gesture that
+ * started them, and matches never cross a session boundary.
+ */
+export function findPatternTemplates(events: KeystrokeEvent[], options?: AnalyzerOptions): PatternTemplateStat[] {
+  const totals: TemplateTotals = new Map()
+
+  for (const { events: sessionEvents } of splitSessions(events, combineOptions(options).session)) {
+    accumulateTemplates(totals, sessionEvents)
+  }
+
+  return rankTemplates(totals, options)
+}
+
+export function accumulateTemplates(totals: TemplateTotals, sessionEvents: KeystrokeEvent[]) {
+  const normalEvents = sessionEvents.filter((event) => event.mode.startsWith("n") && (event.key || event.raw))
+  const keys = normalEvents.map((event) => (event.key || event.raw).trim())
+
+  for (const template of TEMPLATES) {
+    const label = templateLabel(template)
+    let index = 0
+    while (index < keys.length) {
+      const length = matchTemplate(template.tokens, keys, index)
+      if (length === 0) {
+        index++
+        continue
+      }
+
+      const concrete = keys.slice(index, index + length)
+      const deltaMs = computeDelta(normalEvents[index].timestamp, normalEvents[index + length - 1].timestamp)
+      let stat = totals.get(label)
+      if (!stat) {
+        stat = { mode: "n", template: label, family: template.family, count: 0, meanDeltaMs: 0, instantiations: [] }
+        totals.set(label, stat)
+      }
+
+      stat.meanDeltaMs = (stat.meanDeltaMs * stat.count + deltaMs) / (stat.count + 1)
+      stat.count++
+
+      const signature = concrete.join(" ")
+      const instantiation = stat.instantiations.find((entry) => entry.keys.join(" ") === signature)
+      if (instantiation) {
+        instantiation.count++
+      } else {
+        stat.instantiations.push({ keys: concrete, count: 1 })
+      }
+
+      index += length
+    }
+  }
+}
+
+export function rankTemplates(totals: TemplateTotals, options?: AnalyzerOptions): PatternTemplateStat[] {
+  const { minOccurrences } = combineOptions(options)
+
+  return Array.from(totals.values())
+    .filter((stat) => stat.count >= minOccurrences)
+    .map((stat) => ({
+      ...stat,
+      instantiations: stat.instantiations.slice().sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => {
+      if (b.count === a.count) {
+        return b.instantiations.length - a.instantiations.length
+      }
+      return b.count - a.count
+    })
+}
+
+function matchTemplate(tokens: TemplateToken[], keys: string[], start: number): number {
+  let position = start
+
+  for (const token of tokens) {
+    if (token.kind === "literal") {
+      if (keys[position] !== token.key) return 0
+      position++
+      if (token.repeat) {
+        while (keys[position] === token.key) position++
+      }
+      continue
+    }
+
+    const consumed = matchSlot(token.slot, keys, position)
+    if (consumed === 0) return 0
+    position += consumed
+  }
+
+  return position - start
+}
+
+function matchSlot(name: SlotName, keys: string[], position: number): number {
+  const key = keys[position]
+  if (key === undefined) return 0
+
+  switch (name) {
+    case "textobj":
+      return TEXT_OBJECTS.has(key) ? 1 : 0
+    case "motion":
+      return MOTIONS.has(key) ? 1 : 0
+    case "char":
+      return key.length === 1 || key === "<lt>" || key === "<Space>" ? 1 : 0
+    case "count": {
+      if (!/^[1-9]$/.test(key)) return 0
+      let length = 1
+      while (/^[0-9]$/.test(keys[position + length] ?? "")) length++
+      return length
+    }
+  }
+}
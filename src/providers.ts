@@ -0,0 +1,68 @@
+import { createOpenAI } from "@ai-sdk/openai"
+import { requestSuggestions, SuggestionParams } from "./ai.ts"
+import { ResponseStore } from "./cache.ts"
+import { DEFAULT_MODEL } from "./consts.ts"
+import { suggestOffline } from "./offline.ts"
+import { ProviderName, SuggestionResponse } from "./types.ts"
+
+export const PROVIDER_NAMES: ProviderName[] = ["openai", "openai-compatible", "offline"]
+
+export type SuggestionProvider = {
+  name: ProviderName
+  /** Why the provider cannot run as configured (e.g. a missing API key), or null */
+  unavailableReason(): string | null
+  suggest(params: SuggestionParams): Promise<SuggestionResponse>
+}
+
+export type ProviderOptions = {
+  /** Endpoint of an OpenAI-compatible server, e.g. `http://localhost:11434/v1` */
+  baseURL?: string
+  apiKey?: string
+  /** Where model answers are looked up and stored; the offline provider has none to store */
+  cache?: ResponseStore
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Build the provider behind `--provider`. `openai` reads `OPENAI_API_KEY`;
+ * `openai-compatible` talks Chat Completions to `baseURL` (or
+ * `OPENAI_COMPATIBLE_BASE_URL`) with an optional `OPENAI_COMPATIBLE_API_KEY`;
+ * `offline` needs nothing. All of them answer with a `SuggestionResponse`.
+ */
+export function createSuggestionProvider(name: ProviderName, { baseURL, apiKey, cache, env = process.env }: ProviderOptions = {}): SuggestionProvider {
+  switch (name) {
+    case "openai": {
+      const key = apiKey ?? env.OPENAI_API_KEY
+      return {
+        name,
+        unavailableReason: () => (key ? null : "OPENAI_API_KEY not found"),
+        suggest: async (params) => {
+          const model = createOpenAI({ apiKey: key })(params.model ?? DEFAULT_MODEL)
+          return { ...(await requestSuggestions(params, model, { cache })), provider: name }
+        },
+      }
+    }
+    case "openai-compatible": {
+      const url = baseURL ?? env.OPENAI_COMPATIBLE_BASE_URL
+      // Local servers usually take any key, or none at all
+      const key = apiKey ?? env.OPENAI_COMPATIBLE_API_KEY ?? ""
+      return {
+        name,
+        unavailableReason: () => (url ? null : "--base-url (or OPENAI_COMPATIBLE_BASE_URL) is required for the openai-compatible provider"),
+        suggest: async (params) => {
+          const model = createOpenAI({ baseURL: url, apiKey: key, name }).chat(params.model ?? DEFAULT_MODEL)
+          return { ...(await requestSuggestions(params, model, { cache, baseURL: url })), provider: name }
+        },
+      }
+    }
+    case "offline":
+      return {
+        name,
+        unavailableReason: () => null,
+        suggest: async (params) => {
+          const suggestions = suggestOffline(params)
+          return { suggestions, raw: JSON.stringify(suggestions, null, 2), provider: name }
+        },
+      }
+  }
+}
@@ -0,0 +1,157 @@
+import { createHash } from "node:crypto"
+import { basename, extname } from "node:path"
+import { normalizeCommand } from "./cmdline.ts"
+import { expandMapMode } from "./conflicts.ts"
+import {
+  CommandClusterStat,
+  KeymapDefinition,
+  LedgerEntry,
+  PatternTemplateStat,
+  RedactionLevel,
+  SequenceStat,
+  SuggestionScope,
+} from "./types.ts"
+
+export const REDACTION_LEVELS: RedactionLevel[] = ["none", "standard", "strict"]
+
+export type RedactableInput = {
+  sequences: SequenceStat[]
+  templates: PatternTemplateStat[]
+  commands: CommandClusterStat[]
+  scope?: SuggestionScope
+  existingKeymaps: KeymapDefinition[]
+  /** Rejected suggestions from the ledger, shown to the model as what not to propose */
+  negativeExamples?: LedgerEntry[]
+}
+
+// Modes whose keys are literal text the user typed rather than commands
+const TEXT_MODES = /^(?:i|R|c(?!ommand))/
+// Normal mode keys whose next key is a literal character (`fx`, `rx`, `ma`)
+const CHAR_ARGUMENT_KEYS = new Set(["f", "F", "t", "T", "r", "m", "'", "`", "q", "@"])
+
+/**
+ * Strip what could identify the user's files or leak typed content before the
+ * analysis is sent to a model.
+ *
+ * - `standard` hashes file and project paths (keeping the extension), reduces
+ *   ex commands and searches to their placeholder templates, replaces the
+ *   arguments of `:!`, `:normal` and unknown commands with `<args>` and drops
+ *   Insert/Replace/Cmdline mode text entirely. Rejected suggestions get the
+ *   same treatment: the command lines in their sequences are templated.
+ * - `strict` also removes paths instead of hashing them, drops the concrete
+ *   variants behind templates and clusters, commands that cannot be fully
+ *   templated, keymap descriptions, group labels and rejection reasons, and
+ *   masks the character argument of `f`/`t`/`r`/`m`-style keys.
+ */
+export function redactInput(input: RedactableInput, level: RedactionLevel): RedactableInput {
+  if (level === "none") return input
+  const strict = level === "strict"
+  const redactPath = (path: string | undefined) => (path && !strict ? hashPath(path) : undefined)
+
+  const redactKeys = (seq: SequenceStat, keys: string[]) =>
+    seq.mode === "command" ? redactCommands(keys, seq.commandType, strict) : strict ? maskCharArguments(keys) : keys
+
+  const sequences = input.sequences
+    .filter((seq) => !TEXT_MODES.test(seq.mode))
+    .flatMap((seq) => {
+      const keys = redactKeys(seq, seq.keys)
+      if (!keys) return []
+      const redacted: SequenceStat = { ...seq, keys, sampleFile: redactPath(seq.sampleFile) }
+      if (seq.absorbed) {
+        redacted.absorbed = seq.absorbed.flatMap((entry) => {
+          const absorbedKeys = redactKeys(seq, entry.keys)
+          return absorbedKeys ? [{ ...entry, keys: absorbedKeys }] : []
+        })
+      }
+      if (!redacted.sampleFile) delete redacted.sampleFile
+      return [redacted]
+    })
+
+  const templates = input.templates
+    .filter((template) => !TEXT_MODES.test(template.mode))
+    .map((template) => ({
+      ...template,
+      instantiations: strict ? [] : template.instantiations,
+    }))
+
+  const commands = input.commands.flatMap((cluster) => {
+    const { sampleFile, ...rest } = cluster
+    // Every variant shares the cluster's template, so the first tells whether it holds typed text
+    const masked = cluster.variants[0] && normalizeCommand(cluster.variants[0].command, cluster.commandType)?.masked
+    if (masked !== undefined && strict) return []
+    const template = masked ?? cluster.template
+    const redacted: CommandClusterStat = {
+      ...rest,
+      template,
+      // Variants are the literal command lines, the template is all that may leave
+      variants: strict ? [] : [{ command: template, count: cluster.count }],
+    }
+    const path = redactPath(sampleFile)
+    return [path ? { ...redacted, sampleFile: path } : redacted]
+  })
+
+  const existingKeymaps = input.existingKeymaps.map((keymap) => ({
+    ...keymap,
+    source: strict ? "dotfiles" : hashPath(keymap.source),
+    rhs: undefined,
+    desc: strict ? undefined : keymap.desc,
+    group: strict && keymap.group !== undefined ? "" : keymap.group,
+  }))
+
+  const scope =
+    input.scope?.kind === "project"
+      ? { ...input.scope, name: strict ? "current project" : hashPath(input.scope.name) }
+      : input.scope
+
+  const negativeExamples = input.negativeExamples?.flatMap((entry) => {
+    // Insert and Cmdline mode sequences are typed text
+    if (expandMapMode(entry.mode).every((mode) => TEXT_MODES.test(mode))) return []
+    const sequence = redactSuggestedKeys(entry.sequence, strict)
+    if (!sequence) return []
+    // The recommended mapping repeats the sequence and is left out; reasons are the user's own words
+    const { id, mode, lhs, status, proposedAt, reason } = entry
+    return [{ id, mode, lhs, sequence, status, proposedAt, ...(reason && !strict ? { reason } : {}) }]
+  })
+
+  return { sequences, templates, commands, scope, existingKeymaps, ...(negativeExamples ? { negativeExamples } : {}) }
+}
+
+export function hashPath(path: string): string {
+  const digest = createHash("sha256").update(path).digest("hex").slice(0, 10)
+  const extension = extname(basename(path))
+  return `<path:${digest}>${extension}`
+}
+
+/**
+ * Template each command line: searches and ex commands lose their literals,
+ * and arguments that cannot be templated (`:!`, `:normal`, user commands)
+ * become `<args>`. Under strict redaction a command that cannot be fully
+ * templated drops the whole sequence (null).
+ */
+function redactCommands(commands: string[], commandType = ":", strict: boolean): string[] | null {
+  const redacted: string[] = []
+  for (const command of commands) {
+    const normalized = normalizeCommand(command, commandType)
+    if (strict && normalized?.masked !== undefined) return null
+    if (!normalized) {
+      if (strict) return null
+      redacted.push("<command>")
+    } else {
+      redacted.push(normalized.masked ?? normalized.template)
+    }
+  }
+  return redacted
+}
+
+// A suggested sequence is keys, or a command line like `:%s/a/b/g<CR>` or `/foo<CR>`
+function redactSuggestedKeys(keys: string[], strict: boolean): string[] | null {
+  const commandLine = keys.join("").match(/^([:/?])(.*?)((?:<cr>)?)$/is)
+  if (!commandLine) return strict ? maskCharArguments(keys) : keys
+  const [, commandType, command, enter] = commandLine
+  const redacted = redactCommands([command], commandType, strict)
+  return redacted && [`${commandType}${redacted[0]}${enter}`]
+}
+
+function maskCharArguments(keys: string[]): string[] {
+  return keys.map((key, index) => (index > 0 && CHAR_ARGUMENT_KEYS.has(keys[index - 1]) ? "<char>" : key))
+}
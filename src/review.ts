@@ -0,0 +1,210 @@
+import { SuggestionParams } from "./ai.ts"
+import { expandMapMode } from "./conflicts.ts"
+import { isRunLabel, splitKeyNotation } from "./grammar.ts"
+import { VALID_MODES } from "./keymaps.ts"
+import { canonicalLhs, DEFAULT_LEADERS } from "./notation.ts"
+import { keyCost, sequenceCost } from "./scoring.ts"
+import { Leaders, ModelSuggestion, SequenceStat, SuggestionCheck, SuggestionReview } from "./types.ts"
+
+/** What the suggestions were generated from */
+export type ReviewSources = Pick<SuggestionParams, "sequences" | "templates" | "commands">
+
+// Keys that run a typed command line
+const EXECUTE_KEYS = /<(?:cr|enter|return|nl)>|[\r\n]/i
+// A `<Name` that never reaches its `>`, e.g. `:w<CR` or `<leader`
+const UNTERMINATED_NOTATION = /<([A-Za-z][\w-]*)(?=$|[^\w>-])/
+
+type Source = { kind: "sequence"; sequence: SequenceStat } | { kind: "family"; label: string }
+
+/**
+ * Check every suggestion after generation and attach a `review`: it is
+ * accepted only when all of these pass.
+ *
+ * - `keystrokes`: the lhs is cheaper to type than the sequence it replaces
+ * - `mode`: the mode is a Vim map mode and covers the mode the sequence was typed in
+ * - `rhs`: the recommended mapping is well-formed (terminated key notation,
+ *   `:` commands that end in `<CR>` or leave the cursor on purpose, balanced parentheses)
+ * - `faithfulness`: the sequence is one that was mined and the rhs replays it
+ */
+export function reviewSuggestions(
+  suggestions: ModelSuggestion[],
+  sources: ReviewSources,
+  leaders: Leaders = DEFAULT_LEADERS,
+): ModelSuggestion[] {
+  return suggestions.map((suggestion) => ({ ...suggestion, review: reviewSuggestion(suggestion, sources, leaders) }))
+}
+
+export function reviewSuggestion(suggestion: ModelSuggestion, sources: ReviewSources, leaders: Leaders = DEFAULT_LEADERS): SuggestionReview {
+  const source = findSource(suggestion, sources)
+  const rhs = suggestion.recommendedMapping?.trim() || suggestion.sequence.join("")
+  const checks = [
+    checkKeystrokes(suggestion, source, leaders),
+    checkMode(suggestion, source),
+    checkRhs(rhs),
+    checkFaithfulness(suggestion, source, rhs),
+  ]
+  const failed = checks.filter((check) => !check.passed)
+  return {
+    status: failed.length ? "rejected" : "accepted",
+    score: round(checks.reduce((total, check) => total + check.score, 0) / checks.length),
+    reasons: failed.map((check) => check.message),
+    checks,
+  }
+}
+
+function checkKeystrokes(suggestion: ModelSuggestion, source: Source | null, leaders: Leaders): SuggestionCheck {
+  const lhsCost = splitKeyNotation(suggestion.canonicalLhs ?? canonicalLhs(suggestion.lhs, leaders)).reduce(
+    (total, key) => total + keyCost(key),
+    0,
+  )
+  const replaced = source?.kind === "sequence" ? source.sequence : { mode: suggestion.mode, keys: suggestion.sequence }
+  const sourceCost = sequenceCost(replaced)
+  if (lhsCost >= sourceCost) {
+    return {
+      name: "keystrokes",
+      passed: false,
+      score: 0,
+      message: `${suggestion.lhs} costs ${formatCost(lhsCost)} keystrokes, no fewer than the ${formatCost(sourceCost)} of the sequence it replaces`,
+    }
+  }
+  return {
+    name: "keystrokes",
+    passed: true,
+    score: round((sourceCost - lhsCost) / sourceCost),
+    message: `saves ${formatCost(sourceCost - lhsCost)} of ${formatCost(sourceCost)} keystrokes per use`,
+  }
+}
+
+function checkMode(suggestion: ModelSuggestion, source: Source | null): SuggestionCheck {
+  if (!VALID_MODES.has(suggestion.mode)) {
+    return {
+      name: "mode",
+      passed: false,
+      score: 0,
+      message: `mode "${suggestion.mode}" is not a map mode (${Array.from(VALID_MODES).join(", ")})`,
+    }
+  }
+  if (source?.kind === "sequence") {
+    const typedIn = typedModes(source.sequence.mode)
+    if (!expandMapMode(suggestion.mode).some((mode) => typedIn.includes(mode))) {
+      return {
+        name: "mode",
+        passed: false,
+        score: 0,
+        message: `mode ${suggestion.mode} does not cover mode ${source.sequence.mode}, where the sequence was typed`,
+      }
+    }
+  }
+  return { name: "mode", passed: true, score: 1, message: `mode ${suggestion.mode} is valid` }
+}
+
+function checkRhs(rhs: string): SuggestionCheck {
+  const problems: string[] = []
+  const unterminated = rhs.match(UNTERMINATED_NOTATION)
+  if (unterminated) problems.push(`<${unterminated[1]} is missing its closing >`)
+
+  const command = rhs.match(/^(?::|<cmd>)([\s\S]*)$/i)
+  if (command) {
+    const isCmd = !rhs.startsWith(":")
+    const runs = EXECUTE_KEYS.test(command[1])
+    // `:%s//g<Left><Left>` stops on purpose so the user can type the rest
+    const prefills = !isCmd && /(?:<left>)+$/i.test(command[1])
+    if (!runs && !prefills) {
+      problems.push(isCmd ? "<Cmd> mappings must end with <CR>" : "the : command is never run, it needs a <CR>")
+    }
+    const text = command[1].replace(/<[^<>]+>/g, "")
+    if (!balancedParentheses(text)) problems.push("the command has unbalanced parentheses")
+  }
+
+  return problems.length
+    ? { name: "rhs", passed: false, score: 0, message: `${rhs} is malformed: ${problems.join("; ")}` }
+    : { name: "rhs", passed: true, score: 1, message: "rhs is well-formed" }
+}
+
+function checkFaithfulness(suggestion: ModelSuggestion, source: Source | null, rhs: string): SuggestionCheck {
+  const keys = suggestion.sequence.join("")
+  if (!source) {
+    return { name: "faithfulness", passed: false, score: 0, message: `[${suggestion.sequence.join(" ")}] is not one of the mined sequences` }
+  }
+  if (source.kind === "family") {
+    return { name: "faithfulness", passed: true, score: 0.75, message: `generalises ${source.label}; rhs not compared key by key` }
+  }
+  if (!suggestion.recommendedMapping?.trim()) {
+    return { name: "faithfulness", passed: true, score: 1, message: "replays the sequence as typed" }
+  }
+
+  const { sequence } = source
+  if (sequence.keys.some(isRunLabel)) {
+    return { name: "faithfulness", passed: true, score: 0.5, message: "the sequence includes typed text; rhs not compared" }
+  }
+  if (sequence.mode === "command") {
+    const typed = sequence.keys.join("")
+    return commandText(rhs)?.includes(typed)
+      ? { name: "faithfulness", passed: true, score: 1, message: `runs :${typed}` }
+      : { name: "faithfulness", passed: false, score: 0, message: `${rhs} does not run :${typed}` }
+  }
+  if (canonicalLhs(rhs) === canonicalLhs(keys)) {
+    return { name: "faithfulness", passed: true, score: 1, message: "replays the sequence" }
+  }
+  if (commandText(rhs) !== null) {
+    return { name: "faithfulness", passed: true, score: 0.5, message: "rhs runs a command in place of the keys; not compared" }
+  }
+  return { name: "faithfulness", passed: false, score: 0, message: `${rhs} does not reproduce ${keys}` }
+}
+
+// The mined sequence, template family or command cluster a suggestion was made for
+function findSource(suggestion: ModelSuggestion, { sequences, templates = [], commands = [] }: ReviewSources): Source | null {
+  const keys = canonicalLhs(suggestion.sequence.join(""))
+  const matching = sequences.filter((sequence) => canonicalLhs(sequence.keys.join("")) === keys)
+  const sequence =
+    matching.find((entry) => expandMapMode(suggestion.mode).some((mode) => typedModes(entry.mode).includes(mode))) ?? matching[0]
+  if (sequence) return { kind: "sequence", sequence }
+
+  const template = templates.find(
+    (entry) => entry.template === keys || entry.instantiations.some((instance) => canonicalLhs(instance.keys.join("")) === keys),
+  )
+  if (template) return { kind: "family", label: `the ${template.family} family ${template.template}` }
+
+  const typed = suggestion.sequence.join("").replace(/^[:/?]/, "")
+  const cluster = commands.find((entry) => {
+    // A suggestion that pre-fills the fixed part of the cluster, `%s/` of `%s/<x>/<y>/g`
+    const fixed = entry.template.split("<")[0]
+    return entry.template === typed || entry.variants.some((variant) => variant.command === typed) || (fixed.length > 1 && typed.startsWith(fixed))
+  })
+  if (cluster) return { kind: "family", label: `the command cluster ${cluster.commandType}${cluster.template}` }
+  return null
+}
+
+// Map modes a mapping for keys typed in a logged mode can be defined in
+function typedModes(mode: string): string[] {
+  if (mode === "command") return ["n", "x", "c"]
+  if (mode.startsWith("n")) return ["n"]
+  if (/^[vV\u0016]/.test(mode)) return ["x"]
+  if (mode.startsWith("i")) return ["i"]
+  if (mode.startsWith("c")) return ["n", "c"]
+  if (mode.startsWith("R")) return ["i"]
+  return [mode]
+}
+
+// The command a `:`/`<Cmd>` rhs runs, without the trailing keys; null for plain keys
+function commandText(rhs: string): string | null {
+  const match = rhs.match(/^(?::|<cmd>)([\s\S]*)$/i)
+  return match ? match[1].replace(/(?:<(?:cr|enter|return|nl)>|[\r\n])+$/i, "") : null
+}
+
+function balancedParentheses(text: string): boolean {
+  let depth = 0
+  for (const char of text) {
+    if (char === "(") depth++
+    if (char === ")" && --depth < 0) return false
+  }
+  return depth === 0
+}
+
+function formatCost(cost: number): string {
+  return Number.isInteger(cost) ? String(cost) : cost.toFixed(1)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,275 @@
+import { createHash } from "node:crypto"
+import { readFile } from "node:fs/promises"
+import { resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseActions } from "./grammar.ts"
+import { AntiPatternRule, KeystrokeEvent, RuleEvidence, RuleFinding, RuleSeverity, VimAction } from "./types.ts"
+
+export type RuleRegistry = {
+  register(rule: AntiPatternRule): void
+  get(name: string): AntiPatternRule | undefined
+  list(): AntiPatternRule[]
+}
+
+export type FindingTotals = Map<string, RuleFinding>
+
+const MAX_EVIDENCE = 5
+/** Content hash of the module each custom rule was loaded from */
+const ruleSources = new WeakMap<AntiPatternRule, string>()
+const SEVERITY_ORDER: Record<RuleSeverity, number> = { error: 0, warning: 1, info: 2 }
+const ARROW_KEYS = new Set(["<Left>", "<Right>", "<Up>", "<Down>"])
+
+export const BUILTIN_RULES: AntiPatternRule[] = [
+  {
+    name: "hjkl-spam",
+    description: "Same h/j/k/l motion pressed four or more times in a row",
+    severity: "warning",
+    technique: "Prefix a count (`5j`) or jump with a larger motion (`}`, `<C-d>`, `/pattern`, `f<char>`).",
+    detect: ({ actions }) =>
+      findRuns(actions, (action) => action.kind === "motion" && !action.count && /^[hjkl]$/.test(action.motion ?? ""), 4),
+  },
+  {
+    name: "insert-arrow-keys",
+    description: "Arrow keys used to move around in Insert mode",
+    severity: "warning",
+    technique: "Leave Insert mode and use motions, or run one Normal mode command with `<C-o>`.",
+    detect: ({ events }) => {
+      const evidence: RuleEvidence[] = []
+      let run: KeystrokeEvent[] = []
+      const flush = () => {
+        if (run.length) evidence.push(evidenceFromEvents(run))
+        run = []
+      }
+      for (const event of events) {
+        if (event.mode.startsWith("i") && ARROW_KEYS.has(event.key)) {
+          run.push(event)
+        } else {
+          flush()
+        }
+      }
+      flush()
+      return evidence
+    },
+  },
+  {
+    name: "repeated-x",
+    description: "`x` pressed three or more times in a row to delete characters",
+    severity: "info",
+    technique: "Delete by motion (`dw`, `de`, `dt<char>`) or give `x` a count (`3x`).",
+    detect: ({ actions }) => findRuns(actions, (action) => action.command === "x" && !action.count, 3),
+  },
+  {
+    name: "esc-reenter-insert",
+    description: "`<Esc>` immediately followed by `A`, `o` or `O` to keep typing elsewhere",
+    severity: "info",
+    technique: "Stay in Insert mode and use `<C-o>A` / `<C-o>o` for the one Normal mode command.",
+    detect: ({ actions }) => {
+      const evidence: RuleEvidence[] = []
+      for (let index = 1; index < actions.length; index++) {
+        const previous = actions[index - 1]
+        const current = actions[index]
+        if (previous.kind !== "insert" || previous.keys[previous.keys.length - 1] !== "<Esc>") continue
+        if (current.kind !== "command" || !["A", "o", "O"].includes(current.command ?? "")) continue
+        evidence.push({
+          startSeq: previous.endSeq,
+          endSeq: current.endSeq,
+          keys: ["<Esc>", ...current.keys],
+          file: current.file,
+        })
+      }
+      return evidence
+    },
+  },
+  {
+    name: "d-dollar",
+    description: "`d$` typed out instead of the built-in `D`",
+    severity: "info",
+    technique: "Use `D` (delete to end of line); `C` does the same for `c$`.",
+    detect: ({ actions }) =>
+      actions
+        .filter((action) => action.operator === "d" && action.motion === "$" && !action.motionCount)
+        .map((action) => evidenceFromActions([action])),
+  },
+  {
+    name: "zero-insert",
+    description: "`0i` (or `^i`) typed instead of the built-in `I`",
+    severity: "info",
+    technique: "Use `I` to insert at the first non-blank character of the line.",
+    detect: ({ actions }) => {
+      const evidence: RuleEvidence[] = []
+      for (let index = 1; index < actions.length; index++) {
+        const previous = actions[index - 1]
+        const current = actions[index]
+        if ((previous.motion === "0" || previous.motion === "^") && !previous.count && current.command === "i") {
+          evidence.push(evidenceFromActions([previous, current]))
+        }
+      }
+      return evidence
+    },
+  },
+]
+
+export function createRuleRegistry(rules: AntiPatternRule[] = BUILTIN_RULES): RuleRegistry {
+  const entries = new Map<string, AntiPatternRule>()
+
+  const registry: RuleRegistry = {
+    register(rule) {
+      validateRule(rule)
+      if (entries.has(rule.name)) {
+        throw new Error(`Rule '${rule.name}' is already registered`)
+      }
+      entries.set(rule.name, rule)
+    },
+    get(name) {
+      return entries.get(name)
+    },
+    list() {
+      return Array.from(entries.values())
+    },
+  }
+
+  for (const rule of rules) {
+    registry.register(rule)
+  }
+  return registry
+}
+
+/**
+ * Resolve which rules run. `enable` restricts the set to the named rules,
+ * `disable` removes rules from it; unknown names are an error so typos surface.
+ */
+export function selectRules(
+  registry: RuleRegistry,
+  { enable = [], disable = [] }: { enable?: string[]; disable?: string[] } = {},
+): AntiPatternRule[] {
+  for (const name of [...enable, ...disable]) {
+    if (!registry.get(name)) {
+      throw new Error(`Unknown rule '${name}'`)
+    }
+  }
+  return registry
+    .list()
+    .filter((rule) => enable.length === 0 || enable.includes(rule.name))
+    .filter((rule) => !disable.includes(rule.name))
+}
+
+/**
+ * Load custom rules from a local module exporting a rule or an array of rules,
+ * either as the default export or as `rules`.
+ */
+export async function loadRuleModule(path: string): Promise<AntiPatternRule[]> {
+  const module = await import(pathToFileURL(resolve(path)).href)
+  const exported = module.rules ?? module.default
+  if (!exported) {
+    throw new Error(`Rule module ${path} must export 'rules' or a default export`)
+  }
+  const rules = (Array.isArray(exported) ? exported : [exported]) as AntiPatternRule[]
+  rules.forEach((rule) => validateRule(rule, path))
+  const hash = createHash("sha256").update(await readFile(path)).digest("hex")
+  rules.forEach((rule) => ruleSources.set(rule, hash))
+  return rules
+}
+
+/**
+ * Identify a rule by name and, for custom rules, the module it came from, so
+ * editing a rule module invalidates findings computed with the old version.
+ */
+export function ruleIdentity(rule: AntiPatternRule): string {
+  const source = ruleSources.get(rule)
+  return source ? `${rule.name}@${source}` : rule.name
+}
+
+export function runRules(events: KeystrokeEvent[], rules: AntiPatternRule[]): RuleFinding[] {
+  const totals: FindingTotals = new Map()
+  accumulateFindings(totals, events, rules)
+  return rankFindings(totals)
+}
+
+export function accumulateFindings(totals: FindingTotals, sessionEvents: KeystrokeEvent[], rules: AntiPatternRule[]) {
+  if (rules.length === 0) return
+  const context = { events: sessionEvents, actions: parseActions(sessionEvents) }
+
+  for (const rule of rules) {
+    let evidence: RuleEvidence[]
+    try {
+      evidence = rule.detect(context)
+    } catch (error) {
+      throw new Error(`Rule '${rule.name}' failed: ${error}`)
+    }
+    if (evidence.length === 0) continue
+
+    let finding = totals.get(rule.name)
+    if (!finding) {
+      finding = {
+        rule: rule.name,
+        description: rule.description,
+        severity: rule.severity,
+        technique: rule.technique,
+        count: 0,
+        evidence: [],
+      }
+      totals.set(rule.name, finding)
+    }
+    finding.count += evidence.length
+    finding.evidence.push(...evidence.slice(0, MAX_EVIDENCE - finding.evidence.length))
+  }
+}
+
+export function rankFindings(totals: FindingTotals): RuleFinding[] {
+  return Array.from(totals.values()).sort((a, b) => {
+    if (a.severity !== b.severity) {
+      return SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    }
+    return b.count - a.count
+  })
+}
+
+function validateRule(rule: AntiPatternRule, source?: string) {
+  const where = source ? ` in ${source}` : ""
+  if (!rule || typeof rule.name !== "string" || !rule.name) {
+    throw new Error(`Invalid rule${where}: missing name`)
+  }
+  if (typeof rule.detect !== "function") {
+    throw new Error(`Invalid rule '${rule.name}'${where}: detect must be a function`)
+  }
+  if (!(rule.severity in SEVERITY_ORDER)) {
+    throw new Error(`Invalid rule '${rule.name}'${where}: unknown severity '${rule.severity}'`)
+  }
+}
+
+function findRuns(actions: VimAction[], matches: (action: VimAction) => boolean, minLength: number): RuleEvidence[] {
+  const evidence: RuleEvidence[] = []
+  let index = 0
+  while (index < actions.length) {
+    const first = actions[index]
+    if (!matches(first)) {
+      index++
+      continue
+    }
+    let end = index + 1
+    while (end < actions.length && matches(actions[end]) && actions[end].label === first.label) end++
+    if (end - index >= minLength) {
+      evidence.push(evidenceFromActions(actions.slice(index, end)))
+    }
+    index = end
+  }
+  return evidence
+}
+
+function evidenceFromActions(actions: VimAction[]): RuleEvidence {
+  return {
+    startSeq: actions[0].startSeq,
+    endSeq: actions[actions.length - 1].endSeq,
+    keys: actions.flatMap((action) => action.keys),
+    file: actions[0].file,
+  }
+}
+
+function evidenceFromEvents(events: KeystrokeEvent[]): RuleEvidence {
+  return {
+    startSeq: events[0].seq,
+    endSeq: events[events.length - 1].seq,
+    keys: events.map((event) => event.key),
+    file: events[0].file,
+  }
+}
@@ -0,0 +1,92 @@
+import { KeystrokeEvent, KeystrokeEventType } from "./types.ts"
+
+/**
+ * Version written by the plugin today. Lines without a `v` field predate
+ * versioning and are read as version 1.
+ */
+export const LOG_SCHEMA_VERSION = 2
+
+export type DecodedEvent = { event: KeystrokeEvent; version: number } | { error: string }
+
+type RawEvent = Record<string, unknown>
+
+// MIGRATIONS[n] upgrades an event from version n to n + 1
+const MIGRATIONS: Record<number, (event: RawEvent) => RawEvent> = {
+  // v1: key, `command` and `session` events told apart by `mode` only, unnamed
+  // buffers logged as `file: ""` and command events possibly without a type
+  1: (event) => {
+    const type: KeystrokeEventType = event.mode === "session" ? "session" : event.mode === "command" ? "command" : "key"
+    const migrated: RawEvent = { ...event, v: 2, type }
+    if (migrated.key === undefined) migrated.key = event.raw
+    if (migrated.raw === undefined) migrated.raw = event.key
+    if (type === "command" && migrated.command_type === undefined) migrated.command_type = ":"
+    if (migrated.file === "") delete migrated.file
+    return migrated
+  },
+}
+
+const EVENT_TYPES: KeystrokeEventType[] = ["key", "command", "session"]
+
+const OPTIONAL_FIELDS: [string, "string" | "number" | "boolean"][] = [
+  ["blocking", "boolean"],
+  ["bufnr", "number"],
+  ["filetype", "string"],
+  ["file", "string"],
+  ["typed", "string"],
+  ["time", "number"],
+]
+
+/**
+ * Upgrade a parsed log line to the current schema and check it, so a missing
+ * `mode` or a string `timestamp` is rejected instead of reaching the analysis.
+ */
+export function decodeEvent(value: unknown): DecodedEvent {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "event must be a JSON object" }
+  }
+
+  let event = value as RawEvent
+  const version = event.v === undefined ? 1 : event.v
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { error: `invalid schema version ${JSON.stringify(event.v)}` }
+  }
+  if (version > LOG_SCHEMA_VERSION) {
+    return { error: `schema version ${version} is newer than the supported ${LOG_SCHEMA_VERSION}` }
+  }
+  for (let current = version; current < LOG_SCHEMA_VERSION; current++) {
+    event = MIGRATIONS[current](event)
+  }
+
+  const error = checkEvent(event)
+  return error ? { error } : { event: event as KeystrokeEvent, version }
+}
+
+/** Events repeated by overlapping rotations or copies share this identity */
+export function eventIdentity(event: KeystrokeEvent): string {
+  return `${event.seq}:${event.timestamp}:${event.file ?? ""}`
+}
+
+function checkEvent(event: RawEvent): string | null {
+  if (typeof event.seq !== "number" || !Number.isInteger(event.seq) || event.seq < 0) {
+    return "seq must be a non-negative integer"
+  }
+  if (typeof event.timestamp !== "number" || !Number.isFinite(event.timestamp)) {
+    return "timestamp must be a number"
+  }
+  if (typeof event.mode !== "string" || !event.mode) return "mode must be a non-empty string"
+  if (typeof event.key !== "string") return "key must be a string"
+  if (typeof event.raw !== "string") return "raw must be a string"
+  if (!EVENT_TYPES.includes(event.type as KeystrokeEventType)) {
+    return `type must be one of ${EVENT_TYPES.join(", ")}`
+  }
+  if ((event.type === "command") !== (event.mode === "command") || (event.type === "session") !== (event.mode === "session")) {
+    return `type '${event.type}' does not match mode '${event.mode}'`
+  }
+  if (event.type === "command" && typeof event.command_type !== "string") {
+    return "command events need a command_type"
+  }
+  for (const [field, type] of OPTIONAL_FIELDS) {
+    if (event[field] !== undefined && typeof event[field] !== type) return `${field} must be a ${type}`
+  }
+  return null
+}
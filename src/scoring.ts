@@ -0,0 +1,77 @@
+import { splitKeyNotation } from "./grammar.ts"
+import { RawSequenceStat, SequenceSortOrder, SequenceStat } from "./types.ts"
+
+const MODIFIER_WEIGHT = 0.5
+// `<leader>` plus one key is the shortest mapping we can reasonably propose
+const LEADER_MAPPING_COST = 2
+const SHIFTED_SYMBOLS = new Set(Array.from('~!@#$%^&*()_+{}|:"<>?'))
+const COUNTABLE_MOTIONS = new Set(["h", "j", "k", "l", "w", "W", "b", "B", "e", "E", "x", "n", "N", "u", "p", "}", "{", ";", ","])
+
+/**
+ * Cost of pressing a single key in keytrans notation. Plain keys cost 1 and
+ * every modifier held down (including Shift for capitals and symbols) adds a
+ * fractional penalty, so `<C-S-x>` is more expensive than `x`.
+ */
+export function keyCost(key: string): number {
+  const chord = key.match(/^<((?:[CMADS]-)+)(.+)>$/i)
+  if (chord) {
+    const modifiers = chord[1].split("-").filter(Boolean).length
+    return 1 + modifiers * MODIFIER_WEIGHT
+  }
+
+  if (key.startsWith("<") && key.endsWith(">") && key.length > 2) {
+    return 1
+  }
+
+  if (key.length === 1) {
+    const shifted = (key >= "A" && key <= "Z") || SHIFTED_SYMBOLS.has(key)
+    return shifted ? 1 + MODIFIER_WEIGHT : 1
+  }
+
+  // Multi-key strings such as parsed actions (`"ayy`, `<C-w>j`) cost the sum of their keys
+  return splitKeyNotation(key).reduce((total, part) => total + keyCost(part), 0)
+}
+
+export function sequenceCost(seq: Pick<SequenceStat, "mode" | "keys">): number {
+  const keys = seq.mode === "command" ? [":", ...Array.from(seq.keys.join("")), "<CR>"] : seq.keys
+  return keys.reduce((total, key) => total + keyCost(key), 0)
+}
+
+export function replacementCost(seq: Pick<SequenceStat, "mode" | "keys">): number {
+  const [first] = seq.keys
+  const repeated = seq.keys.length > 1 && seq.keys.every((key) => key === first)
+  if (seq.mode === "n" && repeated && COUNTABLE_MOTIONS.has(first)) {
+    // `jjjj` is best replaced with the built-in `4j`, not a mapping
+    return Math.min(String(seq.keys.length).length + keyCost(first), LEADER_MAPPING_COST)
+  }
+  return LEADER_MAPPING_COST
+}
+
+export function scoreSequence(seq: RawSequenceStat): SequenceStat {
+  const cost = sequenceCost(seq)
+  const replacement = Math.min(replacementCost(seq), cost)
+  return {
+    ...seq,
+    keystrokeCost: cost,
+    replacementCost: replacement,
+    estimatedSavings: (cost - replacement) * seq.count,
+  }
+}
+
+export function sortSequences(sequences: SequenceStat[], order: SequenceSortOrder): SequenceStat[] {
+  return sequences.sort((a, b) => {
+    switch (order) {
+      case "savings":
+        if (b.estimatedSavings !== a.estimatedSavings) return b.estimatedSavings - a.estimatedSavings
+        return b.count - a.count
+      case "latency":
+        if (b.meanDeltaMs !== a.meanDeltaMs) return b.meanDeltaMs - a.meanDeltaMs
+        return b.count - a.count
+      case "count":
+        if (b.count === a.count) {
+          return a.meanDeltaMs - b.meanDeltaMs
+        }
+        return b.count - a.count
+    }
+  })
+}
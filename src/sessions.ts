@@ -0,0 +1,151 @@
+import { KeystrokeEvent, KeystrokeSession, SessionBoundary, SessionOptions, SessionSummary } from "./types.ts"
+
+export const SESSION_MARKER_MODE = "session"
+
+const DEFAULT_SESSION_OPTIONS: Required<SessionOptions> = {
+  idleGapMs: 5 * 60 * 1000,
+  splitOnBufferChange: true,
+}
+
+export function combineSessionOptions(options?: SessionOptions): Required<SessionOptions> {
+  return {
+    idleGapMs: options?.idleGapMs ?? DEFAULT_SESSION_OPTIONS.idleGapMs,
+    splitOnBufferChange: options?.splitOnBufferChange ?? DEFAULT_SESSION_OPTIONS.splitOnBufferChange,
+  }
+}
+
+export function isSessionMarker(event: KeystrokeEvent): boolean {
+  return event.mode === SESSION_MARKER_MODE
+}
+
+export type SessionSplitter = {
+  /** Feed the next event; returns the session it closed, if any. */
+  push(event: KeystrokeEvent): { closed: KeystrokeSession | null; started: boolean }
+  /** Close and return the session still open at the end of the stream. */
+  flush(): KeystrokeSession | null
+}
+
+/**
+ * Split a keystroke stream into editing sessions. A new session starts after an
+ * idle gap, a buffer/file switch, a `seq` discontinuity (Neovim restarted or
+ * events were lost) or an explicit start/stop marker written by the plugin.
+ */
+export function splitSessions(events: KeystrokeEvent[], options?: SessionOptions): KeystrokeSession[] {
+  const splitter = createSessionSplitter(options)
+  const sessions: KeystrokeSession[] = []
+
+  for (const event of events) {
+    const { closed } = splitter.push(event)
+    if (closed) sessions.push(closed)
+  }
+
+  const last = splitter.flush()
+  if (last) sessions.push(last)
+  return sessions
+}
+
+/**
+ * Incremental form of `splitSessions` for streamed logs: only the session that
+ * is still open is kept in memory.
+ */
+export function createSessionSplitter(
+  options?: SessionOptions,
+  resume: { index: number; boundary: SessionBoundary } = { index: 0, boundary: "start" },
+): SessionSplitter {
+  const { idleGapMs, splitOnBufferChange } = combineSessionOptions(options)
+
+  let nextIndex = resume.index
+  let current: KeystrokeSession | null = null
+  let previous: KeystrokeEvent | null = null
+  let pendingBoundary: SessionBoundary = resume.boundary
+
+  const close = (): KeystrokeSession | null => {
+    const closed = current && current.events.length > 0 ? current : null
+    current = null
+    return closed
+  }
+
+  return {
+    push(event) {
+      if (isSessionMarker(event)) {
+        previous = null
+        pendingBoundary = "marker"
+        return { closed: close(), started: false }
+      }
+
+      const boundary = previous ? detectBoundary(previous, event, idleGapMs, splitOnBufferChange) : null
+      const closed = boundary ? close() : null
+      if (boundary) {
+        pendingBoundary = boundary
+      }
+
+      const started = current === null
+      if (!current) {
+        current = { index: nextIndex++, boundary: pendingBoundary, events: [] }
+      }
+      current.events.push(event)
+      previous = event
+      return { closed, started }
+    },
+    flush() {
+      return close()
+    },
+  }
+}
+
+function detectBoundary(
+  previous: KeystrokeEvent,
+  current: KeystrokeEvent,
+  idleGapMs: number,
+  splitOnBufferChange: boolean,
+): SessionBoundary | null {
+  if (typeof previous.seq === "number" && typeof current.seq === "number" && current.seq !== previous.seq + 1) {
+    return "seq"
+  }
+
+  if (previous.timestamp && current.timestamp) {
+    const gapMs = (current.timestamp - previous.timestamp) / 1_000_000
+    // hrtime restarts with Neovim, so a negative gap is a restart as well
+    if (gapMs < 0) return "seq"
+    if (gapMs > idleGapMs) return "idle"
+  }
+
+  if (splitOnBufferChange) {
+    if (previous.bufnr !== undefined && current.bufnr !== undefined && previous.bufnr !== current.bufnr) {
+      return "buffer"
+    }
+    if (previous.file !== undefined && current.file !== undefined && previous.file !== current.file) {
+      return "buffer"
+    }
+  }
+
+  return null
+}
+
+export function summarizeSessions(sessions: KeystrokeSession[]): SessionSummary[] {
+  return sessions.map((session) => summarizeSession(session))
+}
+
+export function summarizeSession(session: KeystrokeSession): SessionSummary {
+  const first = session.events[0]
+  const last = session.events[session.events.length - 1]
+  const durationMs = first.timestamp && last.timestamp ? (last.timestamp - first.timestamp) / 1_000_000 : 0
+
+  const modeCounts = new Map<string, number>()
+  for (const event of session.events) {
+    modeCounts.set(event.mode, (modeCounts.get(event.mode) ?? 0) + 1)
+  }
+  const dominantModes = Array.from(modeCounts.entries())
+    .map(([mode, count]) => ({ mode, count, share: count / session.events.length }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3)
+
+  return {
+    index: session.index,
+    boundary: session.boundary,
+    durationMs,
+    eventCount: session.events.length,
+    dominantModes,
+    file: first.file,
+  }
+}
@@ -0,0 +1,31 @@
+import { ModelSuggestion } from "./types.ts"
+
+export function generateLuaKeymap(suggestion: ModelSuggestion): string {
+  const { mode, lhs, sequence, recommendedMapping, scope } = suggestion
+
+  // Use recommendedMapping if provided and meaningful, otherwise fall back to sequence
+  const rhs = recommendedMapping && recommendedMapping.trim() !== ""
+    ? recommendedMapping.trim()
+    : sequence.join("")
+
+  const escapedLhs = escapeLuaString(lhs)
+  const escapedRhs = escapeLuaString(rhs).replace(/\n/g, "\\n")
+  const desc = `AI-suggested: compress ${sequence.join(" → ")}`
+
+  if (scope?.kind === "filetype") {
+    // ftplugin-style: only buffers of this filetype get the mapping
+    return `vim.api.nvim_create_autocmd("FileType", { pattern = "${escapeLuaString(
+      scope.name,
+    )}", callback = function(args) vim.keymap.set("${mode}", "${escapedLhs}", "${escapedRhs}", { buffer = args.buf, desc = "${desc}" }) end })`
+  }
+
+  const mapping = `vim.keymap.set("${mode}", "${escapedLhs}", "${escapedRhs}", { desc = "${desc}" })`
+  if (scope?.kind === "project") {
+    return `-- ${scope.name}/.nvim.lua (project-local config, needs vim.o.exrc = true)\n${mapping}`
+  }
+  return mapping
+}
+
+function escapeLuaString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+}
@@ -1,4 +1,9 @@
+export type KeystrokeEventType = "key" | "command" | "session"
+
 export type KeystrokeEvent = {
+  /** Log schema version, see `LOG_SCHEMA_VERSION` */
+  v?: number
+  type?: KeystrokeEventType
   seq: number
   raw: string
   key: string
@@ -9,28 +14,319 @@ export type KeystrokeEvent = {
   filetype?: string
   file?: string
   command_type?: string
+  /** Key as typed, when a mapping turned it into something else */
+  typed?: string
+  /** Wall-clock epoch milliseconds, written on session markers */
+  time?: number
+}
+
+export type VimActionKind = "edit" | "motion" | "command" | "insert" | "cmdline" | "replace"
+
+export type VimAction = {
+  kind: VimActionKind
+  mode: string
+  keys: string[]
+  label: string
+  count?: number
+  register?: string
+  operator?: string
+  motionCount?: number
+  motion?: string
+  textObject?: string
+  command?: string
+  linewise?: boolean
+  incomplete?: boolean
+  startSeq: number
+  endSeq: number
+  startTimestamp: number
+  endTimestamp: number
+  file?: string
 }
 
+export type SequenceUnit = "key" | "action"
+
 export type SequenceStat = {
   mode: string
   keys: string[]
+  /** `:` for ex commands, `/` or `?` for searches; only on `command` mode sequences */
+  commandType?: string
   count: number
   meanDeltaMs: number
   sampleFile?: string
+  unit?: SequenceUnit
+  absorbed?: AbsorbedSequence[]
+  absorbedCount?: number
+  latency?: LatencyProfile
+  keystrokeCost: number
+  replacementCost: number
+  estimatedSavings: number
+}
+
+export type AbsorbedSequence = {
+  keys: string[]
+  count: number
+}
+
+/**
+ * Mergeable timing totals for one sequence: a duration histogram over
+ * `LATENCY_BUCKETS_MS` plus per-gap sums, so sessions can be folded together.
+ */
+export type LatencyHistogram = {
+  samples: number
+  buckets: number[]
+  maxMs: number
+  gapSumsMs: number[]
+  hesitations: number
+}
+
+export type LatencyProfile = {
+  p50Ms: number
+  p90Ms: number
+  maxMs: number
+  /** Mean gap before each key after the first */
+  gapProfileMs: number[]
+  /** Share of occurrences where one long gap dominates the gesture */
+  hesitationRate: number
+  hesitation: boolean
+  /** Index into `gapProfileMs` of the dominant pause when `hesitation` is set */
+  hesitationGap?: number
+}
+
+export type RawSequenceStat = Omit<SequenceStat, "keystrokeCost" | "replacementCost" | "estimatedSavings" | "latency"> & {
+  timing?: LatencyHistogram
+}
+
+export type SequenceSortOrder = "savings" | "count" | "latency"
+
+export type PatternInstantiation = {
+  keys: string[]
+  count: number
+}
+
+export type PatternTemplateStat = {
+  mode: string
+  template: string
+  family: string
+  count: number
+  meanDeltaMs: number
+  instantiations: PatternInstantiation[]
+}
+
+export type CommandCategory = "ex" | "search"
+
+export type ParsedExCommand = {
+  range: string
+  name: string
+  bang: boolean
+  args: string
+}
+
+export type CommandVariant = {
+  command: string
+  count: number
+}
+
+export type CommandClusterStat = {
+  category: CommandCategory
+  /** `:` for ex commands, `/` or `?` for searches */
+  commandType: string
+  /** Full command name (`substitute`), empty for searches and bare ranges */
+  name: string
+  template: string
+  count: number
+  variants: CommandVariant[]
+  sampleFile?: string
 }
 
 export type AnalyzerOptions = {
   windowSize?: number
   minSequenceLength?: number
   minOccurrences?: number
+  sortBy?: SequenceSortOrder
+  closed?: boolean
+  unit?: SequenceUnit
+  session?: SessionOptions
 }
 
+export type SessionOptions = {
+  idleGapMs?: number
+  splitOnBufferChange?: boolean
+}
+
+export type SessionBoundary = "start" | "idle" | "buffer" | "seq" | "marker"
+
+export type KeystrokeSession = {
+  index: number
+  boundary: SessionBoundary
+  events: KeystrokeEvent[]
+}
+
+export type SessionSummary = {
+  index: number
+  boundary: SessionBoundary
+  durationMs: number
+  eventCount: number
+  dominantModes: { mode: string; count: number; share: number }[]
+  file?: string
+}
+
+export type RuleSeverity = "info" | "warning" | "error"
+
+export type RuleEvidence = {
+  startSeq: number
+  endSeq: number
+  keys: string[]
+  file?: string
+}
+
+export type RuleContext = {
+  events: KeystrokeEvent[]
+  actions: VimAction[]
+}
+
+export type AntiPatternRule = {
+  name: string
+  description: string
+  severity: RuleSeverity
+  technique: string
+  detect(context: RuleContext): RuleEvidence[]
+}
+
+export type RuleFinding = {
+  rule: string
+  description: string
+  severity: RuleSeverity
+  technique: string
+  count: number
+  evidence: RuleEvidence[]
+}
+
+export type GroupBy = "filetype" | "project"
+
+export type SuggestionScope = {
+  kind: GroupBy
+  name: string
+}
+
+export type SequenceGroup = {
+  scope: SuggestionScope
+  eventCount: number
+  sequences: SequenceStat[]
+}
+
+export type LogAnalysis = {
+  /** Every log read, oldest first */
+  logPaths: string[]
+  eventCount: number
+  sequences: SequenceStat[]
+  templates: PatternTemplateStat[]
+  sessions: SessionSummary[]
+  findings: RuleFinding[]
+  commands: CommandClusterStat[]
+  /** Built-ins that shorten what was typed, from the parsed actions of every session */
+  builtins: BuiltinRecommendation[]
+  groups: SequenceGroup[]
+  checkpoint: {
+    path: string
+    status: "disabled" | "created" | "resumed" | "rebuilt"
+    resumedFrom: number
+  }
+}
+
+export type ImportFormat = "scriptout" | "csv" | "tsv"
+
+export type LogIssueKind = "malformed" | "duplicate" | "out-of-order"
+
+export type LogIssue = {
+  kind: LogIssueKind
+  line: number
+  message: string
+}
+
+export type LogValidationReport = {
+  path: string
+  lines: number
+  events: number
+  /** Events per schema version they were written with */
+  versions: Record<number, number>
+  counts: Record<LogIssueKind, number>
+  /** The first issues found, up to the listing limit */
+  issues: LogIssue[]
+}
+
+export type CompactSummary = {
+  inputs: string[]
+  output: string
+  read: number
+  duplicates: number
+  written: number
+  liveEvents: number
+  archives: { path: string; events: number }[]
+  /** Rotated files of the output that were merged and deleted */
+  removed: string[]
+  /** Other inputs that were merged but left in place */
+  kept: string[]
+}
+
+export type AdoptedMapping = {
+  mode: string
+  lhs: string
+  /** The long sequence the mapping replaces, in key notation split into keys */
+  sequence: string[]
+  adoptedAt: string
+  source?: string
+}
+
+export type AdoptionPeriod = {
+  events: number
+  lhsUses: number
+  sequenceUses: number
+  /** Old-sequence uses per 1000 keystrokes */
+  sequenceRate: number
+}
+
+export type AdoptionVerdict = "stuck" | "partial" | "unused" | "no-data"
+
+export type AdoptionReport = {
+  mapping: AdoptedMapping
+  before: AdoptionPeriod
+  after: AdoptionPeriod
+  netSavedKeystrokes: number
+  verdict: AdoptionVerdict
+}
+
+export type RedactionLevel = "none" | "standard" | "strict"
+
+/** How a mapping is declared when it is not a plain map call */
+export type KeymapOrigin = "lazy" | "which-key"
+
 export type KeymapDefinition = {
   mode: string
   lhs: string
   rhs?: string
   source: string
   line: number
+  desc?: string
+  /** Buffer-local mapping: the buffer number when known, otherwise true */
+  buffer?: number | boolean
+  expr?: boolean
+  silent?: boolean
+  origin?: KeymapOrigin
+  /** Plugin whose lazy.nvim spec declares the mapping, e.g. `telescope.nvim` */
+  plugin?: string
+  /** which-key group label: the lhs is a prefix for other mappings, not a mapping itself */
+  group?: string
+  /** lhs with leaders expanded and keys spelled canonically, for comparing mappings */
+  canonicalLhs?: string
+}
+
+/** Key notation that `<leader>` and `<localleader>` stand for, e.g. `<Space>` */
+export type Leaders = { leader: string; localLeader: string }
+
+export type KeymapCollection = {
+  keymaps: KeymapDefinition[]
+  /** From the last `mapleader`/`maplocalleader` assignment found, else Vim's defaults */
+  leaders: Leaders
 }
 
 export type ModelSuggestion = {
@@ -39,9 +335,114 @@ export type ModelSuggestion = {
   sequence: string[]
   recommendedMapping?: string
   rationale: string
+  scope?: SuggestionScope
+  /** lhs normalised with the dotfiles' leaders, comparable to `KeymapDefinition.canonicalLhs` */
+  canonicalLhs?: string
+  /** Clashes with existing keymaps, set once the suggestion has been checked */
+  conflicts?: KeymapConflict[]
+  /** Verdict of the post-generation checks, set once the suggestion has been reviewed */
+  review?: SuggestionReview
+  /** Id of the suggestion's entry in the suggestion ledger, for `accept`/`reject`/`snooze` */
+  ledgerId?: string
+}
+
+export type SuggestionCheckName = "keystrokes" | "mode" | "rhs" | "faithfulness"
+
+export type SuggestionCheck = {
+  name: SuggestionCheckName
+  passed: boolean
+  /** 0 (worthless) to 1 (ideal) */
+  score: number
+  message: string
 }
 
+export type SuggestionReview = {
+  status: "accepted" | "rejected"
+  /** Mean of the check scores */
+  score: number
+  /** Messages of the failed checks */
+  reasons: string[]
+  checks: SuggestionCheck[]
+}
+
+export type KeymapConflictKind = "duplicate" | "mode-overlap" | "buffer-shadow" | "prefix" | "default"
+
+export type KeymapConflict = {
+  kind: KeymapConflictKind
+  /** Single modes (`n`, `x`, `s`, ...) both mappings apply in */
+  modes: string[]
+  message: string
+  /** The user's mapping in the way; absent for `default` conflicts */
+  existing?: Pick<KeymapDefinition, "mode" | "lhs" | "source" | "line" | "plugin">
+  /** The built-in command a `default` conflict hides or delays */
+  builtin?: BuiltinCommand
+}
+
+/** A default Vim command, `modes` being single modes (`n`, `x`, `o`, `i`) */
+export type BuiltinCommand = {
+  lhs: string
+  modes: string[]
+  description: string
+}
+
+/** A sequence the user types that a shorter built-in command already does */
+export type BuiltinRecommendation = {
+  mode: string
+  keys: string[]
+  /** The keys to type instead, e.g. `D` for `d$` or `4j` for `jjjj` */
+  builtin: string
+  reasons: string[]
+  count: number
+  savedPerUse: number
+  estimatedSavings: number
+}
+
+/** Where suggestions come from: a hosted model, a self-hosted OpenAI-style endpoint, or local heuristics */
+export type ProviderName = "openai" | "openai-compatible" | "offline"
+
+/** `--cache`: whether model answers are reused and stored */
+export type CacheMode = "off" | "read" | "write"
+
+/** How a response store is used: as the `--cache`, or for `--record`/`--replay` fixtures */
+export type ResponseStoreMode = "read" | "write" | "record" | "replay"
+
 export type SuggestionResponse = {
   suggestions: ModelSuggestion[]
   raw: string
+  provider?: ProviderName
+  /** Model calls made, the first answer plus any repair rounds */
+  attempts?: number
+  /** Answers or entries that failed schema validation, from every attempt */
+  rejected?: RejectedSuggestion[]
+  /** Suggestions left out by `--strict` because of their conflicts */
+  dropped?: ModelSuggestion[]
+  /** Suggestions left out because the ledger already has a decision for them */
+  decided?: ModelSuggestion[]
+}
+
+export type RejectedSuggestion = {
+  attempt: number
+  /** Position in the answer's `suggestions`; absent when the whole answer was rejected */
+  index?: number
+  entry?: unknown
+  reasons: string[]
+}
+
+export type LedgerStatus = "proposed" | "accepted" | "rejected" | "snoozed"
+
+/** A suggestion the user has been shown, and what they decided about it */
+export type LedgerEntry = {
+  /** Short hash of mode, lhs and sequence */
+  id: string
+  mode: string
+  lhs: string
+  sequence: string[]
+  recommendedMapping?: string
+  status: LedgerStatus
+  reason?: string
+  /** ISO timestamps of the first proposal and the latest decision */
+  proposedAt: string
+  decidedAt?: string
+  /** Snoozed suggestions stay hidden until this ISO timestamp */
+  snoozedUntil?: string
 }
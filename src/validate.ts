@@ -0,0 +1,101 @@
+import { access } from "node:fs/promises"
+import { constants } from "node:fs"
+import { decodeLine, resolveLogPaths, streamLogLines } from "./log.ts"
+import { eventIdentity } from "./schema.ts"
+import { isSessionMarker } from "./sessions.ts"
+import { LogIssueKind, LogValidationReport } from "./types.ts"
+
+// Counts stay exact, but a badly broken log should not print every line
+const MAX_LISTED_ISSUES = 100
+
+/**
+ * Check every line of the given logs (globs and rotated siblings included)
+ * against the event schema, reporting issues by line number.
+ */
+export async function validateLogs(
+  inputs: string | string[],
+  { rotated = true }: { rotated?: boolean } = {},
+): Promise<LogValidationReport[]> {
+  const paths = await resolveLogPaths(inputs, { rotated })
+  if (paths.length === 0) {
+    throw new Error(`No keystroke logs found for ${[inputs].flat().join(", ")}`)
+  }
+  const reports: LogValidationReport[] = []
+  for (const path of paths) {
+    reports.push(await validateLog(path))
+  }
+  return reports
+}
+
+/**
+ * Report malformed lines (invalid JSON or schema violations), duplicated events
+ * and events whose seq or timestamp goes backwards. Both restart with each
+ * Neovim instance, so ordering is only checked between session start markers;
+ * version 1 logs predate the markers, so any jump back in one is a restart.
+ */
+export async function validateLog(path: string): Promise<LogValidationReport> {
+  await access(path, constants.F_OK)
+  const report: LogValidationReport = {
+    path,
+    lines: 0,
+    events: 0,
+    versions: {},
+    counts: { malformed: 0, duplicate: 0, "out-of-order": 0 },
+    issues: [],
+  }
+  const seen = new Map<string, number>()
+  let previous: { seq: number; timestamp: number; line: number } | null = null
+
+  for await (const { text } of streamLogLines(path)) {
+    const line = ++report.lines
+    const trimmed = text.trim()
+    if (!trimmed) continue
+
+    const decoded = decodeLine(trimmed)
+    if ("error" in decoded) {
+      addIssue(report, "malformed", line, decoded.error)
+      continue
+    }
+    const { event, version } = decoded
+    report.events++
+    report.versions[version] = (report.versions[version] ?? 0) + 1
+
+    const identity = eventIdentity(event)
+    const original = seen.get(identity)
+    if (original !== undefined) {
+      addIssue(report, "duplicate", line, `seq ${event.seq} repeats line ${original}`)
+      continue
+    }
+    seen.set(identity, line)
+
+    const restarted = previous !== null && (event.seq <= previous.seq || event.timestamp < previous.timestamp)
+    // v1 logs have no start markers, so a jump back there is read as a restart, as `splitSessions` does
+    if ((isSessionMarker(event) && event.key === "start") || (restarted && version === 1)) {
+      previous = null
+    }
+    if (previous && event.seq <= previous.seq) {
+      addIssue(report, "out-of-order", line, `seq ${event.seq} follows seq ${previous.seq} (line ${previous.line})`)
+    } else if (previous && event.timestamp < previous.timestamp) {
+      addIssue(report, "out-of-order", line, `timestamp goes back ${formatNs(previous.timestamp - event.timestamp)} from line ${previous.line}`)
+    }
+    previous = { seq: event.seq, timestamp: event.timestamp, line }
+  }
+
+  return report
+}
+
+export function countIssues(report: LogValidationReport): number {
+  return report.counts.malformed + report.counts.duplicate + report.counts["out-of-order"]
+}
+
+function addIssue(report: LogValidationReport, kind: LogIssueKind, line: number, message: string) {
+  report.counts[kind]++
+  if (report.issues.length < MAX_LISTED_ISSUES) {
+    report.issues.push({ kind, line, message })
+  }
+}
+
+function formatNs(ns: number): string {
+  const ms = ns / 1_000_000
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms.toFixed(0)}ms`
+}
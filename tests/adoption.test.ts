@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { analyzeAdoption, loadAdoptionLedger, mappingsFromKeymaps } from "../src/adoption.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const ADOPTED = "2026-09-01"
+const ADOPTED_MS = Date.parse(ADOPTED)
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-adoption-"))
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+function session(time: number, keys: (string | [string, string])[]): Omit<KeystrokeEvent, "seq">[] {
+  return [
+    { raw: "", key: "start", mode: "session", timestamp: 1_000_000, time },
+    ...keys.map((entry, index) => {
+      const [key, typed] = Array.isArray(entry) ? entry : [entry, undefined]
+      return { raw: key, key, mode: "n", timestamp: (index + 2) * 1_000_000, ...(typed !== undefined ? { typed } : {}) }
+    }),
+  ]
+}
+
+async function writeLog(name: string, events: Omit<KeystrokeEvent, "seq">[]): Promise<string> {
+  const path = join(tmpDir, name)
+  await writeFile(path, events.map((event, index) => JSON.stringify({ seq: index + 1, ...event })).join("\n") + "\n")
+  return path
+}
+
+describe("analyzeAdoption", () => {
+  it("compares lhs and old-sequence use around the adoption date", async () => {
+    const logPath = await writeLog("stuck.jsonl", [
+      ...session(ADOPTED_MS - DAY_MS, ["c", "i", "w", "j", "c", "i", "w"]),
+      // `<Space>w` expands to `ciw`: the plugin logs the produced keys, the first
+      // with the typed lhs and the others with an empty `typed`
+      ...session(ADOPTED_MS + DAY_MS, [
+        ["c", "<Space>w"],
+        ["i", ""],
+        ["w", ""],
+        "j",
+        ["c", "<Space>w"],
+        ["i", ""],
+        ["w", ""],
+      ]),
+    ])
+
+    const { reports } = await analyzeAdoption(
+      logPath,
+      [{ mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], adoptedAt: ADOPTED }],
+      { leader: " " },
+    )
+
+    expect(reports[0].before).toMatchObject({ lhsUses: 0, sequenceUses: 2 })
+    expect(reports[0].after).toMatchObject({ lhsUses: 2, sequenceUses: 0 })
+    expect(reports[0].netSavedKeystrokes).toBe(2)
+    expect(reports[0].verdict).toBe("stuck")
+  })
+
+  it("marks mappings that are never pressed as unused and skips undated events", async () => {
+    const logPath = await writeLog("unused.jsonl", [
+      { raw: "j", key: "j", mode: "n", timestamp: 1_000_000 },
+      ...session(ADOPTED_MS + DAY_MS, ["c", "i", "w"]),
+    ])
+    const { reports, undatedEvents } = await analyzeAdoption(logPath, [
+      { mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], adoptedAt: ADOPTED },
+    ])
+
+    expect(undatedEvents).toBe(1)
+    expect(reports[0].verdict).toBe("unused")
+  })
+})
+
+describe("adopted mapping sources", () => {
+  it("reads ledgers with key-notation sequences", async () => {
+    const path = join(tmpDir, "ledger.json")
+    await writeFile(path, JSON.stringify({ mappings: [{ lhs: "<leader>s", sequence: ":w<CR>", adoptedAt: ADOPTED }] }))
+    const [mapping] = await loadAdoptionLedger(path)
+    expect(mapping).toMatchObject({ mode: "n", sequence: [":", "w", "<CR>"] })
+  })
+
+  it("derives sequences from string rhs keymaps only", () => {
+    const mappings = mappingsFromKeymaps(
+      [
+        { mode: "n", lhs: "<leader>s", rhs: "'<cmd>w<CR>'", source: "init.lua", line: 3 },
+        { mode: "n", lhs: "<leader>f", rhs: "function() end", source: "init.lua", line: 4 },
+      ],
+      ADOPTED,
+    )
+    expect(mappings.map((mapping) => [mapping.lhs, mapping.sequence.join("")])).toEqual([["<leader>s", ":w<CR>"]])
+    expect(() => mappingsFromKeymaps([], "not a date")).toThrow("Invalid adoption date")
+  })
+})
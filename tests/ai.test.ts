@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { join } from "node:path"
+import { LanguageModel } from "ai"
+import { requestSuggestions, validateSuggestionOutput } from "../src/ai.ts"
+import { createResponseStore } from "../src/cache.ts"
+import { SequenceStat } from "../src/types.ts"
+
+const valid = { mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], recommendedMapping: "ciw", rationale: "ciw often" }
+
+const sequences: SequenceStat[] = [
+  { mode: "n", keys: ["c", "i", "w"], count: 5, meanDeltaMs: 120, keystrokeCost: 3, replacementCost: 2, estimatedSavings: 5 },
+]
+
+type ScriptedModel = Exclude<LanguageModel, string>
+type CallOptions = Parameters<ScriptedModel["doGenerate"]>[0]
+
+// A model that replies with the given texts in turn and records each call
+function scriptedModel(texts: string[]): ScriptedModel & { calls: CallOptions[] } {
+  const calls: CallOptions[] = []
+  return {
+    specificationVersion: "v2",
+    provider: "test",
+    modelId: "scripted",
+    supportedUrls: {},
+    calls,
+    doGenerate: async (options) => {
+      calls.push(options)
+      return {
+        content: [{ type: "text", text: texts[calls.length - 1] ?? "" }],
+        finishReason: "stop",
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }
+    },
+    doStream: () => {
+      throw new Error("not streamed")
+    },
+  }
+}
+
+describe("validateSuggestionOutput", () => {
+  it("keeps valid entries and explains the rejected ones", () => {
+    const { suggestions, rejected } = validateSuggestionOutput(
+      JSON.stringify({ suggestions: [valid, { mode: "normal", lhs: "", sequence: [], rationale: 1 }] }),
+    )
+    expect(suggestions).toEqual([valid])
+    expect(rejected).toEqual([
+      {
+        index: 1,
+        entry: { mode: "normal", lhs: "", sequence: [], rationale: 1 },
+        reasons: [
+          "mode must be one of n, v, x, s, o, i, c, t",
+          "lhs must be a non-empty string",
+          "sequence must be a non-empty array of strings",
+          "rationale must be a string",
+        ],
+      },
+    ])
+  })
+
+  it("accepts code fences and bare arrays but rejects prose", () => {
+    expect(validateSuggestionOutput("```json\n" + JSON.stringify({ suggestions: [valid] }) + "\n```").suggestions).toEqual([valid])
+    expect(validateSuggestionOutput(JSON.stringify([valid])).suggestions).toEqual([valid])
+    const prose = validateSuggestionOutput(`Here you go: ${JSON.stringify([valid])}`)
+    expect(prose.suggestions).toEqual([])
+    expect(prose.rejected[0].reasons[0]).toContain("not valid JSON")
+    expect(validateSuggestionOutput('{"mappings": []}').rejected[0].reasons).toEqual(['answer must be an object with a "suggestions" array'])
+  })
+})
+
+describe("requestSuggestions", () => {
+  it("declares the schema and sends validation errors back for repair", async () => {
+    const model = scriptedModel([`Sure! ${JSON.stringify([valid])}`, JSON.stringify({ suggestions: [valid] })])
+    const response = await requestSuggestions({ sequences, existingKeymaps: [] }, model)
+
+    expect(response.attempts).toBe(2)
+    expect(response.suggestions.map((entry) => entry.lhs)).toEqual(["<leader>w"])
+    expect(response.rejected).toHaveLength(1)
+    expect(response.rejected?.[0]).toMatchObject({ attempt: 1 })
+    expect(model.calls[0].responseFormat).toMatchObject({ type: "json", schema: { required: ["suggestions"] } })
+    const repair = model.calls[1].prompt
+    expect(repair.map((message) => message.role)).toEqual(["system", "user", "assistant", "user"])
+    expect(JSON.stringify(repair[3])).toContain("answer is not valid JSON")
+  })
+
+  it("stops after the repair budget and keeps the best answer", async () => {
+    const partial = JSON.stringify({ suggestions: [valid, { ...valid, mode: "normal" }] })
+    const model = scriptedModel([partial, "no", "still no"])
+    const response = await requestSuggestions({ sequences, existingKeymaps: [] }, model)
+
+    expect(response.attempts).toBe(3)
+    expect(model.calls).toHaveLength(3)
+    expect(response.suggestions).toHaveLength(1)
+    expect(response.raw).toBe(partial)
+    expect(response.rejected?.map((entry) => [entry.attempt, entry.index])).toEqual([
+      [1, 1],
+      [2, undefined],
+      [3, undefined],
+    ])
+  })
+
+  it("answers repeated calls from the cache", async () => {
+    const dir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-ai-"))
+    try {
+      const cache = createResponseStore(dir, "write")
+      const first = scriptedModel([JSON.stringify({ suggestions: [valid] })])
+      const second = scriptedModel([])
+      const fresh = await requestSuggestions({ sequences, existingKeymaps: [] }, first, { cache })
+      const cached = await requestSuggestions({ sequences, existingKeymaps: [] }, second, { cache })
+
+      expect(first.calls).toHaveLength(1)
+      expect(second.calls).toHaveLength(0)
+      expect(cached).toEqual(fresh)
+      await requestSuggestions({ sequences, existingKeymaps: [], temperature: 0.7 }, second, { cache })
+      expect(second.calls.length).toBeGreaterThan(0)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test"
-import { findFrequentSequences } from "../src/analyzer.ts"
-import type { KeystrokeEvent } from "../src/types.ts"
+import { closeSequences, findFrequentSequences } from "../src/analyzer.ts"
+import type { KeystrokeEvent, RawSequenceStat } from "../src/types.ts"
 
 const baseTimestamp = 1_000_000_000
 
@@ -75,3 +75,85 @@ describe("findFrequentSequences", () => {
     expect(filtered.length).toBe(0)
   })
 })
+
+describe("findFrequentSequences sessions", () => {
+  it("does not join keys across session boundaries", () => {
+    const stream: KeystrokeEvent[] = [
+      { seq: 1, raw: "j", key: "j", mode: "n", timestamp: baseTimestamp, bufnr: 1 },
+      { seq: 2, raw: "j", key: "j", mode: "n", timestamp: baseTimestamp + 100_000, bufnr: 1 },
+      { seq: 3, raw: "j", key: "j", mode: "n", timestamp: baseTimestamp + 200_000, bufnr: 2 },
+      { seq: 4, raw: "j", key: "j", mode: "n", timestamp: baseTimestamp + 300_000, bufnr: 2 },
+    ]
+
+    const sequences = findFrequentSequences(stream, { minOccurrences: 1 })
+    expect(sequences.find((seq) => seq.keys.join("") === "jjj")).toBeUndefined()
+
+    const joined = findFrequentSequences(stream, {
+      minOccurrences: 1,
+      session: { splitOnBufferChange: false },
+    })
+    expect(joined.find((seq) => seq.keys.join("") === "jjj")).toBeTruthy()
+  })
+})
+
+describe("closeSequences", () => {
+  const run: KeystrokeEvent[] = Array.from({ length: 5 }, (_, index) => ({
+    seq: index + 1,
+    raw: "j",
+    key: "j",
+    mode: "n",
+    timestamp: baseTimestamp + index * 100_000,
+  }))
+
+  it("folds sub-sequences of a single run into the longest sequence", () => {
+    const sequences = findFrequentSequences(run, { minOccurrences: 1, closed: true })
+
+    expect(sequences.length).toBe(1)
+    expect(sequences[0].keys.join("")).toBe("jjjjj")
+    expect(sequences[0].absorbed?.map((entry) => entry.keys.join(""))).toEqual(["jjjj", "jjj"])
+    expect(sequences[0].absorbedCount).toBe(5)
+  })
+
+  it("keeps sub-sequences that also occur on their own", () => {
+    const closed = closeSequences<RawSequenceStat>([
+      { mode: "n", keys: ["c", "i", "w"], count: 2, meanDeltaMs: 10 },
+      { mode: "n", keys: ["c", "i", "w", "<Esc>"], count: 1, meanDeltaMs: 10 },
+    ])
+
+    expect(closed.map((seq) => seq.keys.join(""))).toEqual(["ciw<Esc>", "ciw"])
+    expect(closed[0].absorbed).toBeUndefined()
+  })
+
+  it("keeps a sub-sequence with more support than the superset explains", () => {
+    const closed = closeSequences<RawSequenceStat>([
+      { mode: "n", keys: ["j", "j", "j"], count: 5, meanDeltaMs: 10 },
+      { mode: "n", keys: ["j", "j", "j", "j", "j"], count: 2, meanDeltaMs: 10 },
+    ])
+
+    expect(closed.map((seq) => [seq.keys.join(""), seq.count])).toEqual([
+      ["jjjjj", 2],
+      ["jjj", 5],
+    ])
+    expect(closed[0].absorbed).toBeUndefined()
+  })
+})
+
+describe("findFrequentSequences actions", () => {
+  it("mines parsed actions instead of raw keys", () => {
+    const keys = ["c", "i", "w", "3", "j", "c", "i", "w", "3", "j"]
+    const stream: KeystrokeEvent[] = keys.map((key, index) => ({
+      seq: index + 1,
+      raw: key,
+      key,
+      mode: "n",
+      timestamp: baseTimestamp + index * 100_000,
+    }))
+
+    const sequences = findFrequentSequences(stream, { unit: "action", minSequenceLength: 1, minOccurrences: 2 })
+    const labels = sequences.map((seq) => seq.keys.join(" "))
+
+    expect(labels).toContain("ciw")
+    expect(labels).toContain("ciw 3j")
+    expect(sequences.every((seq) => seq.unit === "action")).toBeTrue()
+  })
+})
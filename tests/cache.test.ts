@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { join } from "node:path"
+import { cacheKey, createResponseStore, ModelCall } from "../src/cache.ts"
+
+let tempDir: string
+
+beforeAll(async () => {
+  tempDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-cache-"))
+})
+
+afterAll(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+const call: ModelCall = { model: "openai:gpt-4.1", temperature: 0.1, system: "system", messages: [{ role: "user", content: "prompt" }] }
+
+describe("cacheKey", () => {
+  it("changes with everything that changes the answer", () => {
+    expect(cacheKey(call)).toBe(cacheKey({ ...call, messages: [{ role: "user", content: "prompt" }] }))
+    expect(cacheKey({ ...call, temperature: 0.2 })).not.toBe(cacheKey(call))
+    expect(cacheKey({ ...call, model: "openai:gpt-5" })).not.toBe(cacheKey(call))
+    expect(cacheKey({ ...call, baseURL: "http://localhost:11434/v1" })).not.toBe(cacheKey(call))
+    expect(cacheKey({ ...call, baseURL: "http://localhost:11434/v1" })).not.toBe(cacheKey({ ...call, baseURL: "http://gpu-box:8000/v1" }))
+    expect(cacheKey({ ...call, system: "other" })).not.toBe(cacheKey(call))
+    expect(cacheKey({ ...call, messages: [{ role: "user", content: "other" }] })).not.toBe(cacheKey(call))
+  })
+})
+
+describe("createResponseStore", () => {
+  it("stores and reuses answers in write mode but only reads in read mode", async () => {
+    const dir = join(tempDir, "cache")
+    const readOnly = createResponseStore(dir, "read")
+    await readOnly.store(call, "ignored")
+    expect(await readOnly.lookup(call)).toBeNull()
+
+    const cache = createResponseStore(dir, "write")
+    expect(await cache.lookup(call)).toBeNull()
+    await cache.store(call, '{"suggestions": []}')
+    expect(await cache.lookup(call)).toBe('{"suggestions": []}')
+    expect(await readOnly.lookup(call)).toBe('{"suggestions": []}')
+    expect(await readdir(dir)).toEqual([`${cacheKey(call)}.json`])
+  })
+
+  it("records fixtures without reading them and replays only what was recorded", async () => {
+    const dir = join(tempDir, "fixtures")
+    const recorder = createResponseStore(dir, "record")
+    await recorder.store(call, "first")
+    expect(await recorder.lookup(call)).toBeNull()
+
+    const fixture = await Bun.file(join(dir, `${cacheKey(call)}.json`)).json()
+    expect(fixture).toMatchObject({ key: cacheKey(call), model: call.model, system: "system", text: "first" })
+
+    const replay = createResponseStore(dir, "replay")
+    expect(await replay.lookup(call)).toBe("first")
+    await replay.store({ ...call, temperature: 1 }, "never written")
+    await expect(replay.lookup({ ...call, temperature: 1 })).rejects.toThrow("No recorded response")
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test"
+import { findBuiltinCommands, findBuiltinEquivalents } from "../src/catalog.ts"
+import { SequenceStat } from "../src/types.ts"
+
+function sequence(keys: string[], mode = "n", count = 5): SequenceStat {
+  return { mode, keys, count, meanDeltaMs: 100, keystrokeCost: 0, replacementCost: 0, estimatedSavings: 0 }
+}
+
+describe("findBuiltinEquivalents", () => {
+  it("rewrites typed-out sequences into the built-ins", () => {
+    const found = findBuiltinEquivalents([
+      sequence(["d", "$"]),
+      sequence(["c", "$"]),
+      sequence(["0", "i"]),
+      sequence(["$", "a"]),
+      sequence(["V", "y"]),
+      sequence(["j", "j", "j", "j"], "n", 10),
+    ])
+    expect(found.map((entry) => [entry.keys.join(""), entry.builtin])).toEqual([
+      ["jjjj", "4j"],
+      ["d$", "D"],
+      ["c$", "C"],
+      ["$a", "A"],
+      ["0i", "I"],
+      ["Vy", "yy"],
+    ])
+    expect(found[0]).toMatchObject({ count: 10, savedPerUse: 2, estimatedSavings: 20, reasons: ["`jjjj` is `4j`"] })
+  })
+
+  it("reads action sequences and folds repeated linewise commands", () => {
+    const [entry] = findBuiltinEquivalents([sequence(["dd", "dd", "dd"])])
+    expect(entry).toMatchObject({ keys: ["d", "d", "d", "d", "d", "d"], builtin: "3dd" })
+  })
+
+  it("leaves counts, other modes and sequences without a shorter form alone", () => {
+    expect(findBuiltinEquivalents([sequence(["1", "0", "i"]), sequence(["c", "i", "w"]), sequence(["j", "j", "j"], "i")])).toEqual([])
+  })
+})
+
+describe("findBuiltinCommands", () => {
+  it("finds defaults by lhs and single mode", () => {
+    expect(findBuiltinCommands("gx", ["n"]).map((command) => command.description)).toEqual(["open URL under cursor"])
+    expect(findBuiltinCommands("iw", ["o"])).toHaveLength(1)
+    expect(findBuiltinCommands("iw", ["n"])).toEqual([])
+  })
+})
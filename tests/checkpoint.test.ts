@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { appendFile, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { gzipSync } from "node:zlib"
+import { analyzeLog } from "../src/checkpoint.ts"
+import { loadRuleModule } from "../src/rules.ts"
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-checkpoint-"))
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+function lines(keys: string[], firstSeq: number, bufnr = 1): string {
+  return keys
+    .map((key, index) =>
+      JSON.stringify({ seq: firstSeq + index, raw: key, key, mode: "n", timestamp: (firstSeq + index) * 1_000_000, bufnr }),
+    )
+    .map((line) => `${line}\n`)
+    .join("")
+}
+
+describe("analyzeLog", () => {
+  it("recommends built-ins for what was typed, operator-pending keys included", async () => {
+    const logPath = join(tmpDir, "builtins.jsonl")
+    // d$ with the $ in Operator-pending mode, then 0i<text><Esc>, twice
+    const typed: [string, string][] = [
+      ["d", "n"],
+      ["$", "no"],
+      ["0", "n"],
+      ["i", "n"],
+      ["x", "i"],
+      ["<Esc>", "i"],
+    ]
+    const events = [...typed, ...typed].map(([key, mode], index) =>
+      JSON.stringify({ seq: index + 1, raw: key, key, mode, timestamp: (index + 1) * 1_000_000 }),
+    )
+    await writeFile(logPath, events.map((line) => `${line}\n`).join(""))
+
+    for (const unit of ["key", "action"] as const) {
+      const analysis = await analyzeLog(logPath, { unit }, { useCheckpoint: false })
+      expect(analysis.builtins.map((entry) => [entry.keys.join(""), entry.builtin, entry.count])).toEqual([
+        ["d$", "D", 2],
+        ["0i", "I", 2],
+      ])
+    }
+  })
+
+  it("only re-reads the open session and appended events", async () => {
+    const logPath = join(tmpDir, "append.jsonl")
+    await writeFile(logPath, lines(["j", "j", "j"], 1, 1) + lines(["k", "k", "k"], 4, 2))
+
+    const first = await analyzeLog(logPath, { minOccurrences: 1 })
+    expect(first.checkpoint.status).toBe("created")
+
+    await appendFile(logPath, lines(["k", "k", "k"], 7, 2))
+    const second = await analyzeLog(logPath, { minOccurrences: 1 })
+    const fresh = await analyzeLog(logPath, { minOccurrences: 1 }, { useCheckpoint: false })
+
+    expect(second.checkpoint.status).toBe("resumed")
+    expect(second.checkpoint.resumedFrom).toBeGreaterThan(0)
+    expect(second.eventCount).toBe(9)
+    expect(second.sessions.length).toBe(2)
+    expect(second.sequences).toEqual(fresh.sequences)
+    expect(second.sessions).toEqual(fresh.sessions)
+  })
+
+  it("rebuilds when the log is truncated or rotated", async () => {
+    const logPath = join(tmpDir, "rotate.jsonl")
+    await writeFile(logPath, lines(["j", "j", "j"], 1, 1) + lines(["w", "w", "w"], 4, 2))
+    await analyzeLog(logPath, { minOccurrences: 1 })
+
+    await writeFile(logPath, lines(["b", "b", "b"], 1, 1))
+    const rotated = await analyzeLog(logPath, { minOccurrences: 1 })
+
+    expect(rotated.checkpoint.status).toBe("rebuilt")
+    expect(rotated.eventCount).toBe(3)
+    expect(rotated.sequences.map((seq) => seq.keys.join(""))).toEqual(["bbb"])
+  })
+
+  it("rebuilds when analyzer options change", async () => {
+    const logPath = join(tmpDir, "options.jsonl")
+    await writeFile(logPath, lines(["j", "j", "j"], 1, 1) + lines(["w", "w", "w"], 4, 2))
+    await analyzeLog(logPath, { windowSize: 5 })
+
+    const changed = await analyzeLog(logPath, { windowSize: 3 })
+    expect(changed.checkpoint.status).toBe("rebuilt")
+  })
+
+  it("rebuilds when a custom rule module changes", async () => {
+    const logPath = join(tmpDir, "custom-rule.jsonl")
+    await writeFile(logPath, lines(["j", "j", "w"], 1, 1) + lines(["w", "w", "w"], 4, 2))
+    const ruleModule = (key: string) =>
+      `export default {
+        name: "custom-key",
+        description: "custom key pressed",
+        severity: "info",
+        technique: "stop",
+        detect: ({ events }) => events.filter((event) => event.key === "${key}").map((event) => ({ startSeq: event.seq, endSeq: event.seq, keys: ["${key}"] })),
+      }`
+    // Two files stand in for one module edited between runs, as imports are cached per path
+    const before = join(tmpDir, "rules-before.mjs")
+    const after = join(tmpDir, "rules-after.mjs")
+    await writeFile(before, ruleModule("j"))
+    await writeFile(after, ruleModule("w"))
+
+    const first = await analyzeLog(logPath, undefined, { rules: await loadRuleModule(before) })
+    expect(first.findings.map((finding) => finding.count)).toEqual([2])
+
+    const edited = await analyzeLog(logPath, undefined, { rules: await loadRuleModule(after) })
+    expect(edited.checkpoint.status).toBe("rebuilt")
+    expect(edited.findings.map((finding) => finding.count)).toEqual([4])
+  })
+
+  it("reads rotated siblings first and rebuilds when one changes", async () => {
+    const logPath = join(tmpDir, "family.jsonl")
+    await writeFile(`${logPath}.1.gz`, gzipSync(lines(["j", "j", "j"], 1, 1)))
+    await writeFile(logPath, lines(["w", "w", "w"], 1, 1))
+
+    const first = await analyzeLog(logPath, { minOccurrences: 1 })
+    expect(first.logPaths).toEqual([`${logPath}.1.gz`, logPath])
+    expect(first.eventCount).toBe(6)
+    expect(first.sessions.length).toBe(2)
+
+    await appendFile(logPath, lines(["w"], 4, 1))
+    const resumed = await analyzeLog(logPath, { minOccurrences: 1 })
+    expect(resumed.checkpoint.status).toBe("resumed")
+    expect(resumed.eventCount).toBe(7)
+
+    await writeFile(`${logPath}.1.gz`, gzipSync(lines(["b", "b", "b"], 1, 1)))
+    const changed = await analyzeLog(logPath, { minOccurrences: 1 })
+    expect(changed.checkpoint.status).toBe("rebuilt")
+    expect(changed.sequences.some((seq) => seq.keys.join("") === "bbb")).toBe(true)
+
+    const live = await analyzeLog(logPath, { minOccurrences: 1 }, { useCheckpoint: false, rotated: false })
+    expect(live.logPaths).toEqual([logPath])
+    expect(live.eventCount).toBe(4)
+  })
+})
@@ -68,4 +68,80 @@ describe("CLI integration", () => {
     expect(payload.sequences.length).toBeGreaterThan(0)
     expect(payload.keymapCount).toBeGreaterThanOrEqual(1)
   })
+
+  it("records model answers and replays them without a server", async () => {
+    const ciwLog = join(tempDir, "ciw.jsonl")
+    const lines = Array.from({ length: 6 }, (_, rep) =>
+      ["c", "i", "w"].map((key, index) =>
+        JSON.stringify({ seq: rep * 4 + index + 1, raw: key, key, mode: "n", timestamp: (rep * 4 + index + 1) * 200_000 }),
+      ),
+    ).flat()
+    await Bun.write(ciwLog, lines.join("\n"))
+
+    const content = JSON.stringify({
+      suggestions: [{ mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], recommendedMapping: "ciw", rationale: "often" }],
+    })
+    let calls = 0
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        calls++
+        return Response.json({
+          id: "chatcmpl-1",
+          object: "chat.completion",
+          created: 0,
+          model: "llama3",
+          choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        })
+      },
+    })
+
+    const fixtures = join(tempDir, "fixtures")
+    const base = ["bun", "run", "src/cli.ts", "--log", ciwLog, "--no-checkpoint", "--format", "json", "--provider", "openai-compatible", "--model", "llama3", "--ledger", join(tempDir, "suggestions.json")]
+    const run = async (args: string[]) => {
+      const proc = Bun.spawn([...base, ...args], { stdout: "pipe", stderr: "pipe" })
+      const stdout = await new Response(proc.stdout).text()
+      expect(await proc.exited).toBe(0)
+      return JSON.parse(stdout)
+    }
+
+    // Answers are keyed by endpoint, so the replay names the same one, now stopped
+    const baseUrl = `http://localhost:${server.port}/v1`
+    let recorded: { ai: unknown }
+    try {
+      recorded = await run(["--base-url", baseUrl, "--record", fixtures])
+    } finally {
+      server.stop(true)
+    }
+    expect(calls).toBe(1)
+
+    const replayed = await run(["--base-url", baseUrl, "--replay", fixtures])
+    expect(replayed.ai).toEqual(recorded.ai)
+    expect(replayed.ai.suggestions.map((entry: { lhs: string }) => entry.lhs)).toEqual(["<leader>w"])
+  })
+
+  it("prompts for keys outside any group without a scope", async () => {
+    const groupedLog = join(tempDir, "grouped.jsonl")
+    const lines = ["lua", ""].flatMap((filetype, half) =>
+      Array.from({ length: 6 }, (_, rep) =>
+        ["c", "i", "w"].map((key, index) => {
+          const seq = half * 100 + rep * 4 + index + 1
+          return JSON.stringify({ seq, raw: key, key, mode: "n", filetype, timestamp: seq * 200_000 })
+        }),
+      ).flat(),
+    )
+    await Bun.write(groupedLog, lines.join("\n"))
+
+    const proc = Bun.spawn(
+      ["bun", "run", "src/cli.ts", "--log", groupedLog, "--no-checkpoint", "--group-by", "filetype", "--dry-run-prompt", "--format", "json"],
+      { stdout: "pipe", stderr: "pipe" },
+    )
+    const stdout = await new Response(proc.stdout).text()
+    expect(await proc.exited).toBe(0)
+
+    const { prompts } = JSON.parse(stdout)
+    expect(prompts.map((entry: { scope: unknown }) => entry.scope)).toEqual([{ kind: "filetype", name: "lua" }, null])
+    expect(prompts[1].prompt).not.toContain("(none)")
+  })
 })
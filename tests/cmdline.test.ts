@@ -0,0 +1,71 @@
+import { describe, expect, it } from "bun:test"
+import { findCommandClusters, normalizeCommand, parseExCommand } from "../src/cmdline.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+function commands(entries: [string, string][]): KeystrokeEvent[] {
+  return entries.map(([key, commandType], index) => ({
+    seq: index + 1,
+    raw: key,
+    key,
+    mode: "command",
+    command_type: commandType,
+    timestamp: (index + 1) * 1_000_000,
+  }))
+}
+
+describe("parseExCommand", () => {
+  it("splits range, name, bang and arguments", () => {
+    expect(parseExCommand("'<,'>s/a/b/g")).toEqual({ range: "'<,'>", name: "s", bang: false, args: "/a/b/g" })
+    expect(parseExCommand(".,+3normal! A;")).toEqual({ range: ".,+3", name: "normal", bang: true, args: "A;" })
+    expect(parseExCommand("42")).toEqual({ range: "42", name: "", bang: false, args: "" })
+  })
+})
+
+describe("normalizeCommand", () => {
+  it("replaces substitute literals with placeholders", () => {
+    expect(normalizeCommand("%s/foo/bar/g")?.template).toBe("%s/<x>/<y>/g")
+    expect(normalizeCommand("'<,'>s#a\\#b#c#gc")?.template).toBe("'<,'>s#<x>#<y>#gc")
+    expect(normalizeCommand("g/TODO/d")?.template).toBe("g/<x>/d")
+  })
+
+  it("clusters abbreviations of the same command together", () => {
+    expect(normalizeCommand("%substitute/a/b/g")?.key).toBe(normalizeCommand("%s/c/d/g")?.key)
+    expect(normalizeCommand("e src/a.ts")?.key).toBe(normalizeCommand("edit README.md")?.key)
+  })
+
+  it("keeps searches in their own category", () => {
+    expect(normalizeCommand("\\<foo\\>", "/")).toMatchObject({ category: "search", template: "\\<<x>\\>" })
+    expect(normalizeCommand("bar?e", "?")?.template).toBe("<x>?e")
+    expect(normalizeCommand("1+1", "=")).toBeNull()
+  })
+
+  it("masks arguments it cannot template", () => {
+    expect(normalizeCommand("!curl -H 'Bearer sk-live-abc' https://x")?.masked).toBe("!<args>")
+    expect(normalizeCommand("'<,'>normal! Amy secret text")?.masked).toBe("'<,'>normal! <args>")
+    expect(normalizeCommand("Gitsigns blame_line")?.masked).toBe("Gitsigns <args>")
+    expect(normalizeCommand("g/TODO/norm Adone")?.masked).toBe("g/<x>/norm <args>")
+    expect(normalizeCommand("%s/foo/bar/g")?.masked).toBeUndefined()
+    expect(normalizeCommand("set tw=80")?.masked).toBeUndefined()
+  })
+})
+
+describe("findCommandClusters", () => {
+  it("counts variants under one template", () => {
+    const events = commands([
+      ["%s/foo/bar/g", ":"],
+      ["%s/baz/qux/g", ":"],
+      ["%s/foo/bar/g", ":"],
+      ["foo", "/"],
+      ["bar", "/"],
+      ["w", ":"],
+    ])
+    const [substitute, search] = findCommandClusters(events, { minOccurrences: 2 })
+
+    expect(substitute).toMatchObject({ category: "ex", name: "substitute", template: "%s/<x>/<y>/g", count: 3 })
+    expect(substitute.variants).toEqual([
+      { command: "%s/foo/bar/g", count: 2 },
+      { command: "%s/baz/qux/g", count: 1 },
+    ])
+    expect(search).toMatchObject({ category: "search", template: "<x>", count: 2 })
+  })
+})
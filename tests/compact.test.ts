@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { gunzipSync, gzipSync } from "node:zlib"
+import { compactLogs } from "../src/compact.ts"
+import { KeystrokeEvent } from "../src/types.ts"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.parse("2026-10-15T12:00:00Z")
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-compact-"))
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+function jsonl(events: Partial<KeystrokeEvent>[]): string {
+  return events.map((event) => `${JSON.stringify({ raw: event.key, mode: "n", ...event })}\n`).join("")
+}
+
+function parse(text: string): KeystrokeEvent[] {
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line))
+}
+
+describe("compactLogs", () => {
+  it("dedupes, archives old events by month and re-sequences each file", async () => {
+    const logPath = join(tmpDir, "keys.jsonl")
+    const september = Date.parse("2026-09-03T08:00:00Z")
+    const rotated = [
+      { seq: 10, key: "start", mode: "session", timestamp: 1_000_000, time: september },
+      { seq: 11, key: "j", timestamp: 2_000_000 },
+      { seq: 12, key: "k", timestamp: 3_000_000 },
+    ]
+    await writeFile(`${logPath}.2.gz`, gzipSync(jsonl(rotated.slice(0, 2))))
+    await writeFile(`${logPath}.1`, jsonl(rotated))
+    await writeFile(
+      logPath,
+      jsonl([
+        { seq: 1, key: "start", mode: "session", timestamp: 5_000_000, time: NOW - DAY_MS },
+        { seq: 2, key: "w", timestamp: 6_000_000 },
+        { seq: 7, key: "b", timestamp: 7_000_000 },
+      ]),
+    )
+
+    const summary = await compactLogs(logPath, { now: NOW })
+
+    expect(summary.read).toBe(8)
+    expect(summary.duplicates).toBe(2)
+    expect(summary.removed.sort()).toEqual([`${logPath}.1`, `${logPath}.2.gz`])
+    expect((await readdir(tmpDir)).sort()).toEqual(["keys.jsonl", "keys.jsonl.2026-09.gz"])
+
+    const archived = parse(gunzipSync(await readFile(`${logPath}.2026-09.gz`)).toString("utf8"))
+    expect(archived.map((event) => event.seq)).toEqual([1, 2, 3, 4])
+    // `k` came from a different file than `j`, so it starts a new session
+    expect(archived.map((event) => event.key)).toEqual(["start", "j", "start", "k"])
+    expect(archived[2].time).toBe(september + 2)
+
+    const live = parse(await readFile(logPath, "utf8"))
+    expect(live.map((event) => event.seq)).toEqual([1, 2, 3, 4])
+    // The seq gap before `b` is kept as a session boundary
+    expect(live.map((event) => event.key)).toEqual(["start", "w", "start", "b"])
+    expect(summary.liveEvents).toBe(4)
+  })
+
+  it("keeps undated events and other explicit inputs in place", async () => {
+    const logPath = join(tmpDir, "live.jsonl")
+    const otherPath = join(tmpDir, "laptop.jsonl")
+    await writeFile(logPath, jsonl([{ seq: 1, key: "x", timestamp: 1, file: "/a.ts" }]))
+    await writeFile(otherPath, jsonl([{ seq: 1, key: "y", timestamp: 1, file: "/b.ts" }]))
+
+    const summary = await compactLogs([otherPath, logPath], { output: logPath, now: NOW })
+
+    expect(summary.kept).toEqual([otherPath])
+    expect(summary.archives).toEqual([])
+    const live = parse(await readFile(logPath, "utf8"))
+    expect(live.filter((event) => event.mode !== "session").map((event) => event.key)).toEqual(["y", "x"])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test"
+import { checkSuggestions, clashesWithKeymaps, expandMapMode, findConflicts } from "../src/conflicts.ts"
+import { KeymapDefinition, ModelSuggestion } from "../src/types.ts"
+
+const leaders = { leader: "<Space>", localLeader: "\\" }
+
+function suggestion(lhs: string, mode = "n", extra: Partial<ModelSuggestion> = {}): ModelSuggestion {
+  return { mode, lhs, sequence: ["c", "i", "w"], rationale: "", ...extra }
+}
+
+function keymap(lhs: string, mode = "n", extra: Partial<KeymapDefinition> = {}): KeymapDefinition {
+  return { mode, lhs, source: "init.lua", line: 1, ...extra }
+}
+
+describe("findConflicts", () => {
+  it("flags duplicates across notation and leader spellings", () => {
+    const [conflict] = findConflicts(suggestion("<leader>w"), [keymap("<space>w")], leaders)
+    expect(conflict).toMatchObject({ kind: "duplicate", modes: ["n"], existing: { lhs: "<space>w", line: 1 } })
+    expect(findConflicts(suggestion("<C-a>"), [keymap("<c-A>")], leaders)).toHaveLength(1)
+    expect(findConflicts(suggestion("<leader>w"), [keymap("<leader>w", "i")], leaders)).toEqual([])
+  })
+
+  it("flags prefixes that would wait for timeoutlen", () => {
+    expect(findConflicts(suggestion("<leader>g"), [keymap("<leader>gs")], leaders).map((entry) => entry.kind)).toEqual(["prefix"])
+    expect(findConflicts(suggestion("<leader>gs"), [keymap("<leader>g")], leaders).map((entry) => entry.kind)).toEqual(["prefix"])
+  })
+
+  it("allows mappings inside a which-key group but not on the group itself", () => {
+    const group = keymap("<leader>f", "n", { group: "file", origin: "which-key" })
+    expect(findConflicts(suggestion("<leader>fz"), [group], leaders)).toEqual([])
+    expect(findConflicts(suggestion("<leader>f"), [group], leaders)[0].message).toContain('which-key group "file"')
+  })
+
+  it("reports overlaps between mode aliases", () => {
+    const [conflict] = findConflicts(suggestion("gy", "x"), [keymap("gy", "v")], leaders)
+    expect(conflict).toMatchObject({ kind: "mode-overlap", modes: ["x"] })
+    expect(expandMapMode("")).toEqual(["n", "x", "s", "o"])
+  })
+
+  it("reports buffer-local mappings shadowing or shadowed", () => {
+    const [global] = findConflicts(suggestion("K"), [keymap("K", "n", { buffer: true })], leaders)
+    expect(global.kind).toBe("buffer-shadow")
+    const scoped = suggestion("K", "n", { scope: { kind: "filetype", name: "lua" } })
+    expect(findConflicts(scoped, [keymap("K")], leaders)[0].message).toContain("lua buffers would shadow K")
+  })
+
+  it("warns before overriding a useful default", () => {
+    const [conflict] = findConflicts(suggestion("gx"), [], leaders)
+    expect(conflict).toMatchObject({ kind: "default", modes: ["n"], builtin: { lhs: "gx" } })
+    expect(conflict.message).toBe("gx overrides the built-in gx (open URL under cursor) in mode n")
+    expect(findConflicts(suggestion("<C-a>"), [keymap("<C-A>")], leaders).map((entry) => entry.kind)).toEqual(["duplicate"])
+  })
+
+  it("names the plugin that owns a lazy.nvim key", () => {
+    const lazy = keymap("<leader>ff", "n", { origin: "lazy", plugin: "telescope.nvim" })
+    const [conflict] = findConflicts(suggestion("<leader>ff"), [lazy], leaders)
+    expect(conflict.message).toBe("<leader>ff is already mapped in mode n by telescope.nvim's lazy keys (init.lua:1)")
+    expect(conflict.existing?.plugin).toBe("telescope.nvim")
+  })
+})
+
+describe("checkSuggestions", () => {
+  it("attaches an empty list to clean suggestions", () => {
+    const checked = checkSuggestions([suggestion("<leader>q"), suggestion("<leader>w")], [keymap("<leader>w")], leaders)
+    expect(checked.map((entry) => entry.conflicts?.length)).toEqual([0, 1])
+  })
+})
+
+describe("clashesWithKeymaps", () => {
+  it("only counts clashes with the user's mappings, not overridden built-ins", () => {
+    const [overridesDefault, duplicate] = checkSuggestions([suggestion("gx"), suggestion("<leader>w")], [keymap("<leader>w")], leaders)
+    expect(overridesDefault.conflicts?.map((conflict) => conflict.kind)).toEqual(["default"])
+    expect(clashesWithKeymaps(overridesDefault)).toBe(false)
+    expect(clashesWithKeymaps(duplicate)).toBe(true)
+    expect(clashesWithKeymaps(suggestion("<leader>q"))).toBe(false)
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test"
+import { parseActions, splitKeyNotation } from "../src/grammar.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+function stream(spec: [string, string][]): KeystrokeEvent[] {
+  return spec.map(([key, mode], index) => ({ seq: index + 1, raw: key, key, mode, timestamp: (index + 1) * 1_000_000 }))
+}
+
+function normal(keys: string[]): KeystrokeEvent[] {
+  return stream(keys.map((key) => [key, "n"]))
+}
+
+describe("parseActions", () => {
+  it("parses counts, registers, operators and motions", () => {
+    const actions = parseActions(normal(["3", "d", "w", '"', "a", "y", "y", "d", "2", "j"]))
+
+    expect(actions.map((action) => action.label)).toEqual(["3dw", '"ayy', "d2j"])
+    expect(actions[0]).toMatchObject({ kind: "edit", count: 3, operator: "d", motion: "w" })
+    expect(actions[1]).toMatchObject({ register: "a", operator: "y", linewise: true })
+    expect(actions[2]).toMatchObject({ motionCount: 2, motion: "j" })
+  })
+
+  it("parses text objects and pending-mode chords", () => {
+    const actions = parseActions(normal(["c", "i", '"', "g", "U", "i", "w", "<C-w>", "j", "z", "z", "f", "x", "g", "g"]))
+
+    expect(actions.map((action) => action.label)).toEqual(['ci"', "gUiw", "<C-w>j", "zz", "fx", "gg"])
+    expect(actions[1]).toMatchObject({ operator: "gU", textObject: "iw" })
+    expect(actions[2].kind).toBe("command")
+    expect(actions[4].kind).toBe("motion")
+  })
+
+  it("uses operator-pending modes to end cancelled operators", () => {
+    const actions = parseActions(
+      stream([
+        ["d", "n"],
+        ["w", "no"],
+        ["d", "n"],
+        ["j", "n"],
+      ]),
+    )
+
+    expect(actions.map((action) => action.label)).toEqual(["dw", "d", "j"])
+    expect(actions[1].incomplete).toBeTrue()
+  })
+
+  it("collapses insert and cmdline runs", () => {
+    const actions = parseActions(
+      stream([
+        ["o", "n"],
+        ["h", "i"],
+        ["i", "i"],
+        ["<Esc>", "i"],
+        [":", "n"],
+        ["w", "c"],
+        ["<CR>", "c"],
+      ]),
+    )
+
+    expect(actions.map((action) => `${action.kind}:${action.label}`)).toEqual([
+      "command:o",
+      "insert:<insert>",
+      "command::",
+      "cmdline:<cmdline>",
+    ])
+    expect(actions[1].keys).toEqual(["h", "i", "<Esc>"])
+  })
+
+  it("applies visual mode operators immediately", () => {
+    const actions = parseActions(
+      stream([
+        ["v", "n"],
+        ["i", "v"],
+        ["w", "v"],
+        ["d", "v"],
+      ]),
+    )
+    expect(actions.map((action) => action.label)).toEqual(["v", "iw", "d"])
+    expect(actions[2]).toMatchObject({ kind: "edit", mode: "v" })
+  })
+})
+
+describe("splitKeyNotation", () => {
+  it("keeps special keys together", () => {
+    expect(splitKeyNotation('<C-w>j"a')).toEqual(["<C-w>", "j", '"', "a"])
+  })
+})
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { analyzeLog } from "../src/checkpoint.ts"
+import { createGroupResolver, splitByGroup, UNGROUPED } from "../src/groups.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-groups-"))
+  await mkdir(join(tmpDir, "repo", ".git"), { recursive: true })
+  await mkdir(join(tmpDir, "repo", "src"), { recursive: true })
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+function event(seq: number, key: string, extra: Partial<KeystrokeEvent>): KeystrokeEvent {
+  return { seq, raw: key, key, mode: "n", timestamp: seq * 1_000_000, ...extra }
+}
+
+describe("createGroupResolver", () => {
+  it("resolves projects to the enclosing git root", async () => {
+    const resolveGroup = createGroupResolver("project")
+    expect(await resolveGroup(event(1, "j", { file: join(tmpDir, "repo", "src", "a.ts") }))).toBe(join(tmpDir, "repo"))
+    expect(await resolveGroup(event(2, "j", { file: "" }))).toBe(UNGROUPED)
+  })
+
+  it("splits events into contiguous runs per filetype", async () => {
+    const runs = await splitByGroup(
+      [
+        event(1, "j", { filetype: "lua" }),
+        event(2, "j", { filetype: "lua" }),
+        event(3, "k", { filetype: "markdown" }),
+        event(4, "j", { filetype: "lua" }),
+      ],
+      createGroupResolver("filetype"),
+    )
+    expect(runs.map((run) => [run.group, run.events.length])).toEqual([
+      ["lua", 2],
+      ["markdown", 1],
+      ["lua", 1],
+    ])
+  })
+})
+
+describe("analyzeLog groups", () => {
+  it("ranks sequences separately for each filetype", async () => {
+    const logPath = join(tmpDir, "grouped.jsonl")
+    const events = [
+      ...["j", "j", "j", "j", "j", "j"].map((key, index) => event(index + 1, key, { filetype: "markdown", bufnr: 1 })),
+      ...["w", "w", "w", "w", "w", "w"].map((key, index) => event(index + 7, key, { filetype: "typescript", bufnr: 2 })),
+    ]
+    await writeFile(logPath, events.map((entry) => JSON.stringify(entry)).join("\n"))
+
+    const analysis = await analyzeLog(logPath, { minOccurrences: 2 }, { useCheckpoint: false, groupBy: "filetype" })
+    const markdown = analysis.groups.find((group) => group.scope.name === "markdown")
+    const typescript = analysis.groups.find((group) => group.scope.name === "typescript")
+
+    expect(markdown?.sequences.every((seq) => seq.keys.every((key) => key === "j"))).toBeTrue()
+    expect(typescript?.sequences.every((seq) => seq.keys.every((key) => key === "w"))).toBeTrue()
+    expect(typescript?.eventCount).toBe(6)
+  })
+})
@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { compactLogs } from "../src/compact.ts"
+import { decodeScriptout, importKeystrokes, inferModes, parseDelimited } from "../src/importers.ts"
+import { decodeEvent } from "../src/schema.ts"
+import { splitKeyNotation } from "../src/grammar.ts"
+import { validateLog } from "../src/validate.ts"
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-import-"))
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+describe("decodeScriptout", () => {
+  it("decodes termcodes, modifiers and control keys to keytrans notation", () => {
+    const bytes = Buffer.concat([
+      Buffer.from("i <\x1b\r\x17"),
+      Buffer.from([0x80, 0x6b, 0x75]), // <Up>
+      Buffer.from([0x80, 0xfc, 0x04, 0x80, 0x6b, 0x72]), // <C-Right>
+      Buffer.from([0x80, 0xfd, 0x2c]), // mouse event
+      Buffer.from([0x80, 0x58, 0x59]), // unknown termcode
+    ])
+    const { keys, skipped } = decodeScriptout(bytes)
+    expect(keys.map((entry) => entry.key)).toEqual(["i", "<Space>", "<lt>", "<Esc>", "<CR>", "<C-W>", "<Up>", "<C-Right>", "<t_XY>"])
+    expect(skipped).toBe(1)
+  })
+
+  it("decodes keys Vim writes as KS_EXTRA codes", () => {
+    const bytes = Buffer.concat([
+      Buffer.from([0x80, 0xfd, 0x54]), // <C-Left>
+      Buffer.from([0x80, 0xfd, 0x04]), // <S-Up>
+      Buffer.from([0x80, 0xfc, 0x04, 0x80, 0xfd, 0x05]), // <C-S-Down>
+      Buffer.from([0x80, 0x23, 0x34]), // <S-Left>
+      Buffer.from([0x80, 0xfd, 0x61]), // focus gained
+      Buffer.from("w"),
+    ])
+    const { keys, skipped } = decodeScriptout(bytes)
+    expect(keys.map((entry) => entry.key)).toEqual(["<C-Left>", "<S-Up>", "<C-S-Down>", "<S-Left>", "w"])
+    expect(skipped).toBe(1)
+  })
+
+  it("restores multibyte characters with escaped 0x80 bytes", () => {
+    // "ŀ" is C5 80 in UTF-8, written by Vim as C5 K_SPECIAL KS_SPECIAL KE_FILLER
+    const { keys } = decodeScriptout(Buffer.from([0x61, 0xc5, 0x80, 0xfe, 0x58, 0xc3, 0xa9]))
+    expect(keys.map((entry) => entry.key)).toEqual(["a", "ŀ", "é"])
+  })
+})
+
+describe("parseDelimited", () => {
+  it("reads headers, quoted cells and timestamp units", () => {
+    const csv = 'mode,key,timestamp\nn,j,1760000000\n,",",2025-10-09T08:53:20.500Z\ni,"<C-W>x",1760000001000\n'
+    const keys = parseDelimited(csv, ",")
+    expect(keys.map((entry) => [entry.key, entry.mode, entry.time])).toEqual([
+      ["j", "n", 1_760_000_000_000],
+      [",", undefined, 1_760_000_000_500],
+      ["<C-W>", "i", 1_760_000_001_000],
+      ["x", "i", 1_760_000_001_000],
+    ])
+  })
+
+  it("treats a file without a header as key and timestamp columns", () => {
+    const keys = parseDelimited(" \t1760000000000\nk\t1760000000100\n", "\t")
+    expect(keys.map((entry) => entry.key)).toEqual(["<Space>", "k"])
+  })
+})
+
+describe("inferModes", () => {
+  it("follows Insert, operator-pending, Visual and Cmdline modes", () => {
+    const keys = splitKeyNotation("ihi<Esc>ciwx<Esc>d2fa\"ayyvjd:w<CR>Vy")
+    expect(inferModes(keys)).toEqual([
+      "n", "i", "i", "i", // ihi<Esc>
+      "n", "no", "no", "i", "i", // ciwx<Esc>
+      "n", "no", "no", "no", // d2fa
+      "n", "n", "n", "no", // "ayy
+      "n", "v", "v", // vjd
+      "n", "c", "c", // :w<CR>
+      "n", "V", // Vy
+    ])
+  })
+})
+
+describe("importKeystrokes", () => {
+  it("writes valid events with a dated session marker and command lines", async () => {
+    const path = join(tmpDir, "session.w")
+    await writeFile(path, "dd:%s/a/b/g\rx")
+
+    const { format, events } = await importKeystrokes(path, { start: Date.parse("2026-09-01T00:00:00Z"), intervalMs: 100 })
+
+    expect(format).toBe("scriptout")
+    expect(events[0]).toMatchObject({ type: "session", key: "start", time: Date.parse("2026-09-01T00:00:00Z") })
+    expect(events.map((event) => event.seq)).toEqual(events.map((_, index) => index + 1))
+    expect(events.every((event) => "event" in decodeEvent(event))).toBe(true)
+    const command = events.find((event) => event.type === "command")
+    expect(command).toMatchObject({ key: "%s/a/b/g", command_type: ":", mode: "command" })
+    expect(events[events.length - 1]).toMatchObject({ key: "x", mode: "n" })
+    expect(events[2].timestamp - events[1].timestamp).toBe(100_000_000)
+  })
+
+  it("keeps two recordings imported into one log apart", async () => {
+    const first = join(tmpDir, "first.w")
+    const second = join(tmpDir, "second.w")
+    await writeFile(first, "ddjjx")
+    await writeFile(second, "ddjjx")
+    const logPath = join(tmpDir, "imported.jsonl")
+    const imports = [
+      await importKeystrokes(first, { start: Date.parse("2026-09-01T00:00:00Z") }),
+      await importKeystrokes(second, { start: Date.parse("2026-09-02T00:00:00Z") }),
+    ]
+    const events = imports.flatMap((result) => result.events)
+    await writeFile(logPath, events.map((event) => `${JSON.stringify(event)}\n`).join(""))
+
+    expect((await validateLog(logPath)).issues).toEqual([])
+    const summary = await compactLogs(logPath, { now: Date.parse("2026-09-03T00:00:00Z") })
+    expect(summary.duplicates).toBe(0)
+    expect(summary.written).toBe(events.length)
+  })
+})
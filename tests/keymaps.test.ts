@@ -1,7 +1,7 @@
 import { afterAll, beforeAll, describe, expect, it } from "bun:test"
 import { mkdtemp, rm } from "node:fs/promises"
 import { join } from "node:path"
-import { collectKeymaps } from "../src/keymaps.ts"
+import { collectKeymaps, describeKeymapSource } from "../src/keymaps.ts"
 
 let tmpDir: string
 
@@ -16,9 +16,63 @@ beforeAll(async () => {
     nnoremap <leader>f :Files<CR>
     " comment line should be ignored
     xnoremap <leader>p :echo "paste"<CR>
+    nnoremap <buffer> <silent> <leader>s :w<CR>
+  `
+
+  const aliasedContent = `
+    local map = vim.keymap.set
+    local leader = "<leader>"
+    local function opts(desc)
+      return { desc = desc, silent = true }
+    end
+    local function nmap(lhs, rhs, desc)
+      map("n", lhs, rhs, opts(desc))
+    end
+
+    nmap(leader .. "q", function()
+      vim.cmd("q")
+    end, "Quit")
+    for i = 1, 2 do
+      map("n", leader .. i, "<cmd>BufferGoto " .. i .. "<CR>")
+    end
+    for _, entry in ipairs({ { "x", "gy", '"+y' } }) do
+      map(entry[1], entry[2], entry[3], { expr = false })
+    end
+    vim.api.nvim_create_autocmd("LspAttach", {
+      callback = function(ev)
+        map("n", "gd", vim.lsp.buf.definition, { buffer = ev.buf })
+      end,
+    })
+    vim.api.nvim_buf_set_keymap(0, "n", "K", "<cmd>Hover<CR>", {})
+  `
+
+  const lazyContent = `
+    return {
+      {
+        "nvim-telescope/telescope.nvim",
+        dependencies = { { "folke/trouble.nvim", keys = { "<leader>xx" } } },
+        keys = {
+          { "<leader>ff", "<cmd>Telescope find_files<cr>", desc = "Find files" },
+          { "<leader>fg", "<cmd>Telescope live_grep<cr>", mode = { "n", "x" }, ft = "lua" },
+        },
+      },
+    }
+  `
+  const whichKeyContent = `
+    local wk = require("which-key")
+    wk.add({
+      { "<leader>f", group = "file" },
+      { mode = "v", { "<leader>y", '"+y', desc = "Yank" } },
+    })
+    wk.register({ g = { name = "+git", s = { "<cmd>Git<cr>", "Status" } } }, { prefix = "<leader>" })
   `
 
   await Bun.write(join(tmpDir, "init.lua"), luaContent)
+  await Bun.write(join(tmpDir, "leader", "init.lua"), `vim.g.mapleader = " "\nvim.keymap.set("n", "<leader>w", "<cmd>w<CR>")\n`)
+  await Bun.write(join(tmpDir, "leader", "maps.vim"), `let maplocalleader = "\\<Bslash>"\nnnoremap <Space>W :wa<CR>\nnnoremap <LocalLeader><c-a> :A<CR>\n`)
+  await Bun.write(join(tmpDir, "plugins", "telescope.lua"), lazyContent)
+  await Bun.write(join(tmpDir, "plugins", "which-key.lua"), whichKeyContent)
+  await Bun.write(join(tmpDir, "lua", "aliases.lua"), aliasedContent)
   await Bun.write(join(tmpDir, "mappings.vim"), vimContent)
 })
 
@@ -30,7 +84,7 @@ afterAll(async () => {
 
 describe("collectKeymaps", () => {
   it("extracts Lua and Vimscript keymaps with modes", async () => {
-    const keymaps = await collectKeymaps([tmpDir])
+    const { keymaps } = await collectKeymaps([tmpDir])
 
     const leaderRNormal = keymaps.find(
       (entry) => entry.mode === "n" && entry.lhs === "<leader>r",
@@ -51,4 +105,75 @@ describe("collectKeymaps", () => {
     const visualPaste = keymaps.find((entry) => entry.mode === "x" && entry.lhs === "<leader>p")
     expect(visualPaste).toBeTruthy()
   })
+
+  it("resolves aliases, wrappers, loops and opts in Lua configs", async () => {
+    const { keymaps } = await collectKeymaps([join(tmpDir, "lua")])
+    const summary = keymaps.map(({ mode, lhs, rhs, line, desc, buffer, silent, expr }) => ({ mode, lhs, rhs, line, desc, buffer, silent, expr }))
+
+    expect(summary).toEqual([
+      { mode: "n", lhs: "<leader>q", rhs: 'function()\n      vim.cmd("q")\n    end', line: 11, desc: "Quit", buffer: undefined, silent: true, expr: undefined },
+      { mode: "n", lhs: "<leader>1", rhs: '"<cmd>BufferGoto 1<CR>"', line: 15, desc: undefined, buffer: undefined, silent: undefined, expr: undefined },
+      { mode: "n", lhs: "<leader>2", rhs: '"<cmd>BufferGoto 2<CR>"', line: 15, desc: undefined, buffer: undefined, silent: undefined, expr: undefined },
+      { mode: "x", lhs: "gy", rhs: '"\\"+y"', line: 18, desc: undefined, buffer: undefined, silent: undefined, expr: false },
+      { mode: "n", lhs: "K", rhs: '"<cmd>Hover<CR>"', line: 25, desc: undefined, buffer: 0, silent: undefined, expr: undefined },
+      { mode: "n", lhs: "gd", rhs: "vim.lsp.buf.definition", line: 22, desc: undefined, buffer: true, silent: undefined, expr: undefined },
+    ])
+  })
+
+  it("binds self in functions defined with a method name", async () => {
+    const methodContent = `
+      local M = {}
+      function M:bind(lhs)
+        vim.keymap.set("n", self.prefix .. lhs, "<cmd>q<CR>")
+      end
+      M.prefix = "<leader>"
+      M:bind("q")
+    `
+    await Bun.write(join(tmpDir, "methods", "keys.lua"), methodContent)
+
+    const { keymaps } = await collectKeymaps([join(tmpDir, "methods")])
+    expect(keymaps.map(({ mode, lhs }) => ({ mode, lhs }))).toEqual([{ mode: "n", lhs: "<leader>q" }])
+  })
+
+  it("extracts lazy.nvim keys under the plugin name", async () => {
+    const { keymaps } = await collectKeymaps([join(tmpDir, "plugins", "telescope.lua")])
+    const summary = keymaps.map(({ mode, lhs, desc, buffer, plugin, origin }) => ({ mode, lhs, desc, buffer, plugin, origin }))
+
+    expect(summary).toEqual([
+      { mode: "n", lhs: "<leader>xx", desc: undefined, buffer: undefined, plugin: "trouble.nvim", origin: "lazy" },
+      { mode: "n", lhs: "<leader>ff", desc: "Find files", buffer: undefined, plugin: "telescope.nvim", origin: "lazy" },
+      { mode: "n", lhs: "<leader>fg", desc: undefined, buffer: true, plugin: "telescope.nvim", origin: "lazy" },
+      { mode: "x", lhs: "<leader>fg", desc: undefined, buffer: true, plugin: "telescope.nvim", origin: "lazy" },
+    ])
+    expect(describeKeymapSource(keymaps[1])).toBe(`telescope.nvim's lazy keys (${join(tmpDir, "plugins", "telescope.lua")}:7)`)
+  })
+
+  it("extracts which-key v3 specs, v2 registrations and group prefixes", async () => {
+    const { keymaps } = await collectKeymaps([join(tmpDir, "plugins", "which-key.lua")])
+    const summary = keymaps.map(({ mode, lhs, rhs, desc, group }) => ({ mode, lhs, rhs, desc, group }))
+
+    expect(summary).toEqual([
+      { mode: "n", lhs: "<leader>f", rhs: undefined, desc: undefined, group: "file" },
+      { mode: "v", lhs: "<leader>y", rhs: '"\\"+y"', desc: "Yank", group: undefined },
+      { mode: "n", lhs: "<leader>g", rhs: undefined, desc: undefined, group: "git" },
+      { mode: "n", lhs: "<leader>gs", rhs: '"<cmd>Git<cr>"', desc: "Status", group: undefined },
+    ])
+    expect(keymaps.every((keymap) => keymap.origin === "which-key")).toBe(true)
+  })
+
+  it("normalises lhs with the leaders set in the dotfiles", async () => {
+    const { keymaps, leaders } = await collectKeymaps([join(tmpDir, "leader")])
+    expect(leaders).toEqual({ leader: "<Space>", localLeader: "\\" })
+    expect(keymaps.map((keymap) => [keymap.lhs, keymap.canonicalLhs])).toEqual([
+      ["<leader>w", "<Space>w"],
+      ["<Space>W", "<Space>W"],
+      ["<LocalLeader><c-a>", "\\<C-A>"],
+    ])
+  })
+
+  it("reads map arguments before the lhs in Vimscript", async () => {
+    const { keymaps } = await collectKeymaps([join(tmpDir, "mappings.vim")])
+    const silent = keymaps.find((entry) => entry.lhs === "<leader>s")
+    expect(silent).toMatchObject({ mode: "n", buffer: true, silent: true })
+  })
 })
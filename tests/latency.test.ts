@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test"
+import { findFrequentSequences } from "../src/analyzer.ts"
+import { createLatencyHistogram, isHesitation, recordLatency, summarizeLatency } from "../src/latency.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+describe("latency histogram", () => {
+  it("summarises percentiles, max and the mean gap profile", () => {
+    const histogram = createLatencyHistogram(2)
+    for (const gaps of [
+      [40, 40],
+      [50, 50],
+      [60, 60],
+      [900, 100],
+    ]) {
+      recordLatency(histogram, gaps)
+    }
+    const profile = summarizeLatency(histogram)
+
+    expect(profile.maxMs).toBe(1000)
+    expect(profile.p50Ms).toBeGreaterThan(75)
+    expect(profile.p50Ms).toBeLessThanOrEqual(100)
+    expect(profile.p90Ms).toBeGreaterThan(150)
+    expect(profile.gapProfileMs).toEqual([262.5, 62.5])
+    expect(profile.hesitationRate).toBe(0.25)
+    expect(profile.hesitation).toBeFalse()
+  })
+
+  it("treats one dominant long gap as hesitation", () => {
+    expect(isHesitation([30, 700, 40])).toBeTrue()
+    expect(isHesitation([450, 450, 450])).toBeFalse()
+    expect(isHesitation([120, 90])).toBeFalse()
+  })
+})
+
+describe("sequence latency", () => {
+  it("flags the gap where the user pauses", () => {
+    const keys = ["c", "i", "w", "x", "c", "i", "w", "x", "c", "i", "w"]
+    // Each `ciw` pauses 800ms between `c` and `i`
+    const offsets = [0, 800, 850, 2000, 3000, 3800, 3850, 5000, 6000, 6800, 6850]
+    const events: KeystrokeEvent[] = keys.map((key, index) => ({
+      seq: index + 1,
+      raw: key,
+      key,
+      mode: "n",
+      timestamp: (offsets[index] + 1) * 1_000_000,
+    }))
+
+    const sequences = findFrequentSequences(events, { minOccurrences: 3, windowSize: 3, closed: false })
+    const ciw = sequences.find((seq) => seq.keys.join("") === "ciw")
+    expect(ciw?.latency?.hesitation).toBeTrue()
+    expect(ciw?.latency?.hesitationGap).toBe(0)
+    expect(ciw?.latency?.gapProfileMs).toEqual([800, 50])
+  })
+})
@@ -1,6 +1,8 @@
 import { describe, expect, it, beforeAll, afterAll } from "bun:test"
-import { unlink } from "node:fs/promises"
-import { readKeystrokeLog } from "../src/log.ts"
+import { mkdtemp, rm, unlink, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { gzipSync } from "node:zlib"
+import { readKeystrokeLog, resolveLogPaths, streamKeystrokeLog } from "../src/log.ts"
 
 const tempFile = `${process.cwd()}/tmp-log.jsonl`
 
@@ -26,3 +28,45 @@ describe("readKeystrokeLog", () => {
     expect(events[2].seq).toBe(3)
   })
 })
+
+describe("streamKeystrokeLog", () => {
+  it("reports byte offsets that can be used to resume", async () => {
+    const records = []
+    for await (const record of streamKeystrokeLog(tempFile)) {
+      records.push(record)
+    }
+    expect(records[0].offset).toBe(0)
+
+    const resumed = []
+    for await (const record of streamKeystrokeLog(tempFile, records[1].end)) {
+      resumed.push(record.event.key)
+    }
+    expect(resumed).toEqual(["h"])
+  })
+})
+
+describe("resolveLogPaths", () => {
+  it("expands globs and orders rotated and archived logs before the live log", async () => {
+    const dir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-log-"))
+    try {
+      const line = (key: string) => `${JSON.stringify({ seq: 1, raw: key, key, mode: "n", timestamp: 1 })}\n`
+      await writeFile(join(dir, "keys.jsonl"), line("c"))
+      await writeFile(join(dir, "keys.jsonl.1"), line("b"))
+      await writeFile(join(dir, "keys.jsonl.2.gz"), gzipSync(line("a")))
+      await writeFile(join(dir, "keys.jsonl.2026-08.gz"), gzipSync(line("z")))
+      await writeFile(join(dir, "keys.jsonl.checkpoint.json"), "{}")
+      await writeFile(join(dir, "other.jsonl"), line("o"))
+
+      expect(await resolveLogPaths(join(dir, "keys.jsonl"))).toEqual(
+        ["keys.jsonl.2026-08.gz", "keys.jsonl.2.gz", "keys.jsonl.1", "keys.jsonl"].map((name) => join(dir, name)),
+      )
+      expect(await resolveLogPaths(join(dir, "keys.jsonl"), { rotated: false })).toEqual([join(dir, "keys.jsonl")])
+      expect((await resolveLogPaths(join(dir, "*.jsonl"))).length).toBe(5)
+
+      const events = await readKeystrokeLog(join(dir, "keys.jsonl"))
+      expect(events.map((event) => event.key)).toEqual(["z", "a", "b", "c"])
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test"
+import { parseLua, tokenizeLua } from "../src/lua.ts"
+
+describe("tokenizeLua", () => {
+  it("reads strings, long brackets and comments with line numbers", () => {
+    const tokens = tokenizeLua('local s = "a\\"b" --[[ skip\nme ]] .. [==[\nraw]]\n]==] -- done\nx = 0x1F')
+    expect(tokens.filter((token) => token.type === "string").map((token) => token.value)).toEqual(['a"b', "raw]]\n"])
+    expect(tokens.find((token) => token.value === "x")?.line).toBe(5)
+    expect(tokens.find((token) => token.type === "number")?.value).toBe("0x1F")
+  })
+})
+
+describe("parseLua", () => {
+  it("parses nested calls, method calls and multi-line function arguments", () => {
+    const source = `
+      local map = vim.keymap.set
+      map("n", "<leader>x", function()
+        require("foo").bar({ nested = call(1, 2) })
+      end, { desc = "x" })
+      obj:method "arg"
+    `
+    const [local, call, method] = parseLua(source)
+    expect(local).toMatchObject({ kind: "local", names: ["map"], values: [{ kind: "index" }] })
+    expect(call.kind).toBe("call")
+    if (call.kind !== "call") return
+    expect(call.call.args.map((arg) => arg.kind)).toEqual(["string", "string", "function", "table"])
+    expect(source.slice(call.call.args[2].start, call.call.args[2].end)).toStartWith("function()")
+    expect(source.slice(call.call.args[2].start, call.call.args[2].end)).toEndWith("end")
+    expect(method).toMatchObject({ kind: "call", call: { method: "method", args: [{ kind: "string", value: "arg" }] } })
+  })
+
+  it("respects operator precedence and right-associative concatenation", () => {
+    const [statement] = parseLua('x = "a" .. "b" .. 1 + 2 * 3 == 7 or not y')
+    expect(statement).toMatchObject({
+      kind: "assign",
+      values: [
+        {
+          kind: "binary",
+          operator: "or",
+          left: { operator: "==", left: { operator: "..", right: { operator: "..", right: { operator: "+" } } } },
+          right: { kind: "unary", operator: "not" },
+        },
+      ],
+    })
+  })
+
+  it("parses control flow statements", () => {
+    const statements = parseLua(`
+      for i = 1, 3 do end
+      for k, v in pairs(t) do if v then break elseif k then goto skip else end ::skip:: end
+      while true do end
+      repeat local a <const> = 1 until a
+      do return end
+    `)
+    expect(statements.map((statement) => statement.kind)).toEqual(["numericFor", "genericFor", "while", "repeat", "do"])
+  })
+
+  it("reports syntax errors with the line", () => {
+    expect(() => parseLua("local x = \n  (1 +")).toThrow(/line 2/)
+    expect(() => parseLua("x")).toThrow(/expected an assignment or a function call/)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "bun:test"
+import { canonicalKey, canonicalLhs, literalKeys } from "../src/notation.ts"
+
+describe("canonicalKey", () => {
+  it("spells keys the way keytrans() does", () => {
+    expect(canonicalKey("<c-a>")).toBe("<C-A>")
+    expect(canonicalKey("<C-w>")).toBe("<C-W>")
+    expect(canonicalKey("<cr>")).toBe("<CR>")
+    expect(canonicalKey("<Return>")).toBe("<CR>")
+    expect(canonicalKey("<f5>")).toBe("<F5>")
+    expect(canonicalKey("<a-x>")).toBe("<M-x>")
+    expect(canonicalKey("<s-c-x>")).toBe("<C-S-X>")
+    expect(canonicalKey("<S-a>")).toBe("A")
+    expect(canonicalKey("<s-tab>")).toBe("<S-Tab>")
+  })
+
+  it("folds aliases of the same key", () => {
+    expect(canonicalKey("<C-[>")).toBe("<Esc>")
+    expect(canonicalKey("<C-i>")).toBe("<Tab>")
+    expect(canonicalKey("<Bslash>")).toBe("\\")
+    expect(canonicalKey("<bar>")).toBe("|")
+    expect(canonicalKey("<")).toBe("<lt>")
+    expect(canonicalKey(" ")).toBe("<Space>")
+    expect(canonicalKey("<C-\\>")).toBe("<C-Bslash>")
+  })
+
+  it("keeps unknown names and reads <x> as plain characters", () => {
+    expect(canonicalKey("<Plug>")).toBe("<Plug>")
+    expect(canonicalKey("<foo>")).toBe("<foo>")
+    expect(canonicalKey("<a>")).toBe("<lt>a>")
+  })
+})
+
+describe("canonicalLhs", () => {
+  it("expands leaders before comparing", () => {
+    const leaders = { leader: literalKeys(" "), localLeader: "," }
+    expect(canonicalLhs("<leader>f", leaders)).toBe("<Space>f")
+    expect(canonicalLhs("<space>f", leaders)).toBe("<Space>f")
+    expect(canonicalLhs("<LocalLeader>t", leaders)).toBe(",t")
+    expect(canonicalLhs("<leader>w")).toBe("\\w")
+    expect(canonicalLhs("<Bslash>w")).toBe("\\w")
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test"
+import { findPatternTemplates } from "../src/patterns.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+function stream(keys: string[], followingMode = "n"): KeystrokeEvent[] {
+  return keys.map((key, index) => ({
+    seq: index + 1,
+    raw: key,
+    key,
+    mode: index > 0 ? followingMode : "n",
+    timestamp: (index + 1) * 1_000_000,
+  }))
+}
+
+describe("findPatternTemplates", () => {
+  it("groups text-object variants under one template", () => {
+    const events = stream(["c", "i", '"', "x", "c", "i", "'", "x", "c", "i", "("])
+    const templates = findPatternTemplates(events, { minOccurrences: 2 })
+
+    const textObject = templates.find((template) => template.template === "c i <textobj>")
+    expect(textObject?.count).toBe(3)
+    expect(textObject?.family).toBe("text-object")
+    expect(textObject?.instantiations.map((entry) => entry.keys.join(""))).toEqual(['ci"', "ci'", "ci("])
+  })
+
+  it("matches find-repeat runs with different target chars", () => {
+    const events = stream(["f", "x", ";", ";", ";", "j", "f", "(", ";"])
+    const [findRepeat] = findPatternTemplates(events, { minOccurrences: 2 })
+
+    expect(findRepeat.template).toBe("f <char> ;+")
+    expect(findRepeat.instantiations.map((entry) => entry.keys.join(""))).toEqual(["fx;;;", "f(;"])
+  })
+
+  it("treats multi-digit counts as a single slot", () => {
+    const events = stream(["1", "2", "j", "4", "k"])
+    const templates = findPatternTemplates(events, { minOccurrences: 1 })
+
+    const countMotion = templates.find((template) => template.template === "<count> <motion>")
+    expect(countMotion?.count).toBe(2)
+    expect(countMotion?.instantiations.map((entry) => entry.keys.join(""))).toEqual(["12j", "4k"])
+  })
+
+  it("includes operator-pending keys in the gesture", () => {
+    const events = [...stream(["d", "a", "w"], "no"), ...stream(["d", "a", "p"], "no")].map((event, index) => ({
+      ...event,
+      seq: index + 1,
+      timestamp: (index + 1) * 1_000_000,
+    }))
+    const templates = findPatternTemplates(events, { minOccurrences: 2 })
+    expect(templates.find((template) => template.template === "d a <textobj>")?.count).toBe(2)
+  })
+})
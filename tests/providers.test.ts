@@ -0,0 +1,123 @@
+import { describe, expect, it } from "bun:test"
+import { mkdtemp, rm } from "node:fs/promises"
+import { join } from "node:path"
+import { createResponseStore } from "../src/cache.ts"
+import { suggestOffline } from "../src/offline.ts"
+import { createSuggestionProvider } from "../src/providers.ts"
+import { KeymapDefinition, SequenceStat } from "../src/types.ts"
+
+const leaders = { leader: "<Space>", localLeader: "\\" }
+
+function sequence(keys: string[], mode = "n", estimatedSavings = 10): SequenceStat {
+  return { mode, keys, count: 5, meanDeltaMs: 120, keystrokeCost: keys.length, replacementCost: 2, estimatedSavings }
+}
+
+function keymap(lhs: string, mode = "n"): KeymapDefinition {
+  return { mode, lhs, source: "init.lua", line: 1 }
+}
+
+describe("suggestOffline", () => {
+  it("maps worthwhile sequences to free leader keys named after them", () => {
+    const suggestions = suggestOffline({
+      sequences: [sequence(["c", "i", "w"]), sequence(["y", "i", "w"]), sequence(["g", "g", "V", "G"], "V")],
+      existingKeymaps: [keymap("<leader>w")],
+      leaders,
+    })
+    expect(suggestions.map((entry) => [entry.mode, entry.lhs, entry.recommendedMapping])).toEqual([
+      ["n", "<leader>i", "ciw"],
+      ["n", "<leader>y", "yiw"],
+      ["x", "<leader>g", "ggVG"],
+    ])
+    expect(suggestions[0].canonicalLhs).toBe("<Space>i")
+  })
+
+  it("skips typed text, unprofitable runs and sequences with a built-in equivalent", () => {
+    const suggestions = suggestOffline({
+      sequences: [
+        sequence(["i", "<insert>", "<Esc>"]),
+        sequence(["d", "d", "p"], "n", 0),
+        sequence(["d", "$"]),
+        sequence([":", "w", "<CR>"], "c"),
+      ],
+      existingKeymaps: [],
+      leaders,
+    })
+    expect(suggestions).toEqual([])
+  })
+
+  it("stops at topN", () => {
+    const sequences = [["c", "i", "w"], ["y", "i", "p"], ["d", "a", "p"]].map((keys) => sequence(keys))
+    expect(suggestOffline({ sequences, existingKeymaps: [], leaders, topN: 2 })).toHaveLength(2)
+  })
+})
+
+describe("createSuggestionProvider", () => {
+  it("reports what each provider is missing", () => {
+    expect(createSuggestionProvider("openai", { env: {} }).unavailableReason()).toContain("OPENAI_API_KEY")
+    expect(createSuggestionProvider("openai", { env: { OPENAI_API_KEY: "sk-test" } }).unavailableReason()).toBeNull()
+    expect(createSuggestionProvider("openai-compatible", { env: {} }).unavailableReason()).toContain("--base-url")
+    expect(createSuggestionProvider("offline", { env: {} }).unavailableReason()).toBeNull()
+  })
+
+  it("answers offline with the same response shape", async () => {
+    const response = await createSuggestionProvider("offline").suggest({ sequences: [sequence(["c", "i", "w"])], existingKeymaps: [], leaders })
+    expect(response.provider).toBe("offline")
+    expect(response.suggestions).toHaveLength(1)
+    expect(JSON.parse(response.raw)).toEqual(response.suggestions)
+  })
+
+  it("talks Chat Completions to an OpenAI-compatible endpoint", async () => {
+    const requests: { path: string; model: string }[] = []
+    const server = chatServer(requests)
+    try {
+      const provider = createSuggestionProvider("openai-compatible", { baseURL: `http://localhost:${server.port}/v1`, env: {} })
+      const response = await provider.suggest({ sequences: [sequence(["c", "i", "w"])], existingKeymaps: [], leaders, model: "llama3" })
+      expect(requests).toEqual([{ path: "/v1/chat/completions", model: "llama3" }])
+      expect(response.provider).toBe("openai-compatible")
+      expect(response.suggestions.map((entry) => entry.canonicalLhs)).toEqual(["<Space>w"])
+    } finally {
+      server.stop(true)
+    }
+  })
+
+  it("keeps the cached answers of different servers apart", async () => {
+    const dir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-providers-"))
+    const first: { path: string; model: string }[] = []
+    const second: { path: string; model: string }[] = []
+    const servers = [chatServer(first), chatServer(second)]
+    try {
+      const cache = createResponseStore(dir, "write")
+      for (const server of [...servers, servers[0]]) {
+        const provider = createSuggestionProvider("openai-compatible", { baseURL: `http://localhost:${server.port}/v1`, cache, env: {} })
+        await provider.suggest({ sequences: [sequence(["c", "i", "w"])], existingKeymaps: [], leaders, model: "llama3" })
+      }
+      expect(first).toHaveLength(1)
+      expect(second).toHaveLength(1)
+    } finally {
+      servers.forEach((server) => server.stop(true))
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+// A Chat Completions endpoint that always suggests `<leader>w` and records each request
+function chatServer(requests: { path: string; model: string }[]) {
+  const content = JSON.stringify({
+    suggestions: [{ mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], recommendedMapping: "ciw", rationale: "often" }],
+  })
+  return Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const body = (await request.json()) as { model: string }
+      requests.push({ path: new URL(request.url).pathname, model: body.model })
+      return Response.json({
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 0,
+        model: body.model,
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+      })
+    },
+  })
+}
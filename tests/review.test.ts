@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test"
+import { reviewSuggestion, reviewSuggestions } from "../src/review.ts"
+import { CommandClusterStat, ModelSuggestion, SequenceStat } from "../src/types.ts"
+
+const leaders = { leader: "<Space>", localLeader: "\\" }
+
+function sequence(keys: string[], mode = "n"): SequenceStat {
+  return { mode, keys, count: 5, meanDeltaMs: 120, keystrokeCost: keys.length, replacementCost: 2, estimatedSavings: 5 }
+}
+
+function suggestion(lhs: string, keys: string[], recommendedMapping?: string, mode = "n"): ModelSuggestion {
+  return { mode, lhs, sequence: keys, recommendedMapping, rationale: "" }
+}
+
+const sequences = [sequence(["c", "i", "w"]), sequence(["%s/foo/bar/g"], "command"), sequence(["g", "g", "V", "G"], "V")]
+
+function failed(entry: ModelSuggestion) {
+  return reviewSuggestion(entry, { sequences }, leaders).checks.filter((check) => !check.passed).map((check) => check.name)
+}
+
+describe("reviewSuggestion", () => {
+  it("accepts short, faithful mappings", () => {
+    const review = reviewSuggestion(suggestion("<leader>w", ["c", "i", "w"], "ciw"), { sequences }, leaders)
+    expect(review).toMatchObject({ status: "accepted", reasons: [] })
+    expect(review.checks.map((check) => check.name)).toEqual(["keystrokes", "mode", "rhs", "faithfulness"])
+    expect(review.score).toBeGreaterThan(0.8)
+    expect(failed(suggestion("<leader>s", ["%s/foo/bar/g"], ":%s/foo/bar/g<CR>"))).toEqual([])
+    expect(failed(suggestion("<leader>v", ["g", "g", "V", "G"], undefined, "x"))).toEqual([])
+  })
+
+  it("rejects mappings no shorter than the sequence", () => {
+    const review = reviewSuggestion(suggestion("<leader>ciw", ["c", "i", "w"], "ciw"), { sequences }, leaders)
+    expect(review.status).toBe("rejected")
+    expect(review.reasons).toEqual(["<leader>ciw costs 4 keystrokes, no fewer than the 3 of the sequence it replaces"])
+  })
+
+  it("rejects invalid modes and modes the sequence was not typed in", () => {
+    expect(failed(suggestion("<leader>w", ["c", "i", "w"], "ciw", "normal"))).toEqual(["mode"])
+    expect(failed(suggestion("<leader>w", ["c", "i", "w"], "ciw", "i"))).toEqual(["mode"])
+  })
+
+  it("rejects malformed rhs", () => {
+    const run = reviewSuggestion(suggestion("<leader>s", ["%s/foo/bar/g"], ":%s/foo/bar/g"), { sequences }, leaders)
+    expect(run.reasons).toEqual([":%s/foo/bar/g is malformed: the : command is never run, it needs a <CR>"])
+    expect(failed(suggestion("<leader>s", ["%s/foo/bar/g"], ":call Fix(%s/foo/bar/g<CR>"))).toEqual(["rhs"])
+    expect(failed(suggestion("<leader>s", ["%s/foo/bar/g"], "<Cmd>%s/foo/bar/g<CR"))).toEqual(["rhs"])
+    expect(failed(suggestion("<leader>s", ["%s/foo/bar/g"], ":%s/foo/bar/g<Left><Left>"))).toEqual([])
+  })
+
+  it("rejects rhs that do not replay the sequence and sequences that were never mined", () => {
+    expect(failed(suggestion("<leader>w", ["c", "i", "w"], "diw"))).toEqual(["faithfulness"])
+    expect(failed(suggestion("<leader>s", ["%s/foo/bar/g"], ":%s/baz/qux/g<CR>"))).toEqual(["faithfulness"])
+    const review = reviewSuggestion(suggestion("<leader>d", ["d", "a", "p"], "dap"), { sequences }, leaders)
+    expect(review.reasons).toEqual(["[d a p] is not one of the mined sequences"])
+  })
+
+  it("lets suggestions for a command cluster generalise it", () => {
+    const cluster: CommandClusterStat = {
+      category: "ex",
+      commandType: ":",
+      name: "substitute",
+      template: "%s/<x>/<y>/g",
+      count: 4,
+      variants: [{ command: "%s/a/b/g", count: 2 }],
+    }
+    const review = reviewSuggestion(suggestion("<leader>r", [":%s/"], ":%s//g<Left><Left>"), { sequences: [], commands: [cluster] }, leaders)
+    expect(review.status).toBe("accepted")
+    expect(review.checks.find((check) => check.name === "faithfulness")?.score).toBe(0.75)
+  })
+})
+
+describe("reviewSuggestions", () => {
+  it("attaches a review to every suggestion", () => {
+    const reviewed = reviewSuggestions([suggestion("<leader>w", ["c", "i", "w"], "ciw"), suggestion("<leader>ciw", ["c", "i", "w"])], { sequences }, leaders)
+    expect(reviewed.map((entry) => entry.review?.status)).toEqual(["accepted", "rejected"])
+  })
+})
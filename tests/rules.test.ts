@@ -0,0 +1,99 @@
+import { describe, expect, it } from "bun:test"
+import { mkdtemp, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { BUILTIN_RULES, createRuleRegistry, loadRuleModule, runRules, selectRules } from "../src/rules.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+function stream(entries: [string, string][]): KeystrokeEvent[] {
+  return entries.map(([key, mode], index) => ({
+    seq: index + 1,
+    raw: key,
+    key,
+    mode,
+    timestamp: (index + 1) * 1_000_000,
+  }))
+}
+
+function normal(keys: string): [string, string][] {
+  return keys.split("").map((key) => [key, "n"])
+}
+
+describe("built-in rules", () => {
+  it("flags runs of the same uncounted hjkl motion", () => {
+    const findings = runRules(stream(normal("jjjjjkk5j")), BUILTIN_RULES)
+    const spam = findings.find((finding) => finding.rule === "hjkl-spam")
+    expect(spam?.count).toBe(1)
+    expect(spam?.severity).toBe("warning")
+    expect(spam?.evidence[0]).toMatchObject({ startSeq: 1, endSeq: 5, keys: ["j", "j", "j", "j", "j"] })
+  })
+
+  it("flags arrow keys in insert mode as one range per run", () => {
+    const events = stream([
+      ["i", "n"],
+      ["a", "i"],
+      ["<Left>", "i"],
+      ["<Left>", "i"],
+      ["b", "i"],
+      ["<Right>", "i"],
+    ])
+    const arrows = runRules(events, BUILTIN_RULES).find((finding) => finding.rule === "insert-arrow-keys")
+    expect(arrows?.evidence.map((entry) => [entry.startSeq, entry.endSeq])).toEqual([
+      [3, 4],
+      [6, 6],
+    ])
+  })
+
+  it("suggests built-in shorthands for d$, 0i and repeated x", () => {
+    const rules = runRules(stream(normal("d$0ixxxx")), BUILTIN_RULES).map((finding) => finding.rule)
+    expect(rules).toContain("d-dollar")
+    expect(rules).toContain("zero-insert")
+    expect(rules).toContain("repeated-x")
+  })
+
+  it("flags <Esc> followed by A or o", () => {
+    const events = stream([
+      ["i", "n"],
+      ["a", "i"],
+      ["<Esc>", "i"],
+      ["o", "n"],
+    ])
+    const finding = runRules(events, BUILTIN_RULES).find((entry) => entry.rule === "esc-reenter-insert")
+    expect(finding?.evidence[0]).toMatchObject({ startSeq: 3, endSeq: 4, keys: ["<Esc>", "o"] })
+  })
+})
+
+describe("rule registry", () => {
+  it("rejects duplicate names and unknown selections", () => {
+    const registry = createRuleRegistry()
+    expect(() => registry.register(BUILTIN_RULES[0])).toThrow("already registered")
+    expect(() => selectRules(registry, { disable: ["nope"] })).toThrow("Unknown rule 'nope'")
+  })
+
+  it("applies enable and disable lists", () => {
+    const registry = createRuleRegistry()
+    expect(selectRules(registry, { enable: ["d-dollar", "repeated-x"], disable: ["repeated-x"] }).map((rule) => rule.name)).toEqual([
+      "d-dollar",
+    ])
+  })
+
+  it("loads custom rules from a local module", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "ai-keymap-rules-"))
+    const path = join(dir, "rules.mjs")
+    await writeFile(
+      path,
+      `export const rules = [{
+        name: "no-q",
+        description: "q pressed",
+        severity: "error",
+        technique: "stop",
+        detect: ({ events }) => events.filter((event) => event.key === "q").map((event) => ({ startSeq: event.seq, endSeq: event.seq, keys: ["q"] })),
+      }]`,
+    )
+
+    const registry = createRuleRegistry()
+    for (const rule of await loadRuleModule(path)) registry.register(rule)
+    const [finding] = runRules(stream(normal("jqq")), selectRules(registry, { enable: ["no-q"] }))
+    expect(finding).toMatchObject({ rule: "no-q", severity: "error", count: 2 })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "bun:test"
+import { decodeEvent, LOG_SCHEMA_VERSION } from "../src/schema.ts"
+
+describe("decodeEvent", () => {
+  it("migrates unversioned key and command events", () => {
+    const key = decodeEvent({ seq: 1, raw: "j", key: "j", mode: "n", timestamp: 1, file: "" })
+    expect(key).toEqual({ event: { v: LOG_SCHEMA_VERSION, type: "key", seq: 1, raw: "j", key: "j", mode: "n", timestamp: 1 }, version: 1 })
+
+    const command = decodeEvent({ seq: 2, key: "w", mode: "command", timestamp: 2 })
+    expect("event" in command && command.event).toMatchObject({ type: "command", raw: "w", command_type: ":" })
+
+    const marker = decodeEvent({ seq: 3, raw: "", key: "start", mode: "session", timestamp: 3, time: 1000 })
+    expect("event" in marker && marker.event.type).toBe("session")
+  })
+
+  it("passes current events through unchanged", () => {
+    const event = { v: 2, type: "key", seq: 1, raw: "x", key: "x", mode: "n", timestamp: 5, typed: "<Space>" }
+    expect(decodeEvent(event)).toEqual({ event: event as never, version: 2 })
+  })
+
+  it("rejects events that would poison the analysis", () => {
+    const base = { seq: 1, raw: "j", key: "j", mode: "n", timestamp: 1 }
+    expect(decodeEvent({ ...base, timestamp: "1" })).toEqual({ error: "timestamp must be a number" })
+    expect(decodeEvent({ ...base, mode: undefined })).toEqual({ error: "mode must be a non-empty string" })
+    expect(decodeEvent({ ...base, seq: 1.5 })).toEqual({ error: "seq must be a non-negative integer" })
+    expect(decodeEvent({ ...base, bufnr: "3" })).toEqual({ error: "bufnr must be a number" })
+    expect(decodeEvent({ ...base, v: 2, type: "command" })).toEqual({ error: "type 'command' does not match mode 'n'" })
+    expect(decodeEvent({ ...base, v: LOG_SCHEMA_VERSION + 1 })).toHaveProperty("error")
+    expect(decodeEvent([base])).toEqual({ error: "event must be a JSON object" })
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test"
+import { keyCost, scoreSequence, sortSequences } from "../src/scoring.ts"
+
+describe("keyCost", () => {
+  it("weights modifier chords above plain keys", () => {
+    expect(keyCost("j")).toBe(1)
+    expect(keyCost("<Esc>")).toBe(1)
+    expect(keyCost("J")).toBe(1.5)
+    expect(keyCost("<C-w>")).toBe(1.5)
+    expect(keyCost("<C-S-x>")).toBe(2)
+  })
+})
+
+describe("scoreSequence", () => {
+  it("projects total savings against the best replacement", () => {
+    const motion = scoreSequence({ mode: "n", keys: ["j", "j", "j", "j"], count: 10, meanDeltaMs: 100 })
+    expect(motion.keystrokeCost).toBe(4)
+    expect(motion.replacementCost).toBe(2)
+    expect(motion.estimatedSavings).toBe(20)
+
+    const command = scoreSequence({ mode: "command", keys: ["w"], count: 3, meanDeltaMs: 0 })
+    expect(command.keystrokeCost).toBe(3.5)
+    expect(command.estimatedSavings).toBeCloseTo(4.5)
+  })
+
+  it("never reports negative savings", () => {
+    const pair = scoreSequence({ mode: "n", keys: ["d", "d"], count: 50, meanDeltaMs: 50 })
+    expect(pair.estimatedSavings).toBe(0)
+  })
+})
+
+describe("sortSequences", () => {
+  it("orders by savings, count or latency", () => {
+    const pair = scoreSequence({ mode: "n", keys: ["d", "d"], count: 50, meanDeltaMs: 50 })
+    const gesture = scoreSequence({ mode: "n", keys: ["c", "i", "<C-w>", "x"], count: 5, meanDeltaMs: 400 })
+
+    expect(sortSequences([pair, gesture], "savings")[0]).toBe(gesture)
+    expect(sortSequences([gesture, pair], "count")[0]).toBe(pair)
+    expect(sortSequences([pair, gesture], "latency")[0]).toBe(gesture)
+  })
+})
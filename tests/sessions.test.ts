@@ -0,0 +1,44 @@
+import { describe, expect, it } from "bun:test"
+import { splitSessions, summarizeSessions } from "../src/sessions.ts"
+import type { KeystrokeEvent } from "../src/types.ts"
+
+const MS = 1_000_000
+
+function key(seq: number, keyName: string, timestampMs: number, extra: Partial<KeystrokeEvent> = {}): KeystrokeEvent {
+  return { seq, raw: keyName, key: keyName, mode: "n", timestamp: timestampMs * MS, bufnr: 1, ...extra }
+}
+
+describe("splitSessions", () => {
+  it("splits on idle gaps, buffer switches, seq jumps and markers", () => {
+    const events: KeystrokeEvent[] = [
+      key(1, "j", 1000),
+      key(2, "j", 1100),
+      key(3, "j", 1000 + 10 * 60 * 1000),
+      key(4, "k", 1000 + 10 * 60 * 1000 + 100, { bufnr: 2 }),
+      key(9, "w", 1000 + 10 * 60 * 1000 + 200, { bufnr: 2 }),
+      { seq: 10, raw: "", key: "stop", mode: "session", timestamp: 0 },
+      { seq: 11, raw: "", key: "start", mode: "session", timestamp: 0 },
+      key(12, "b", 1000 + 10 * 60 * 1000 + 300, { bufnr: 2 }),
+    ]
+
+    const sessions = splitSessions(events, { idleGapMs: 60_000 })
+    expect(sessions.map((session) => session.boundary)).toEqual(["start", "idle", "buffer", "seq", "marker"])
+    expect(sessions.map((session) => session.events.length)).toEqual([2, 1, 1, 1, 1])
+  })
+
+  it("ignores buffer changes when disabled", () => {
+    const events = [key(1, "j", 0), key(2, "j", 10, { bufnr: 3 })]
+    expect(splitSessions(events, { splitOnBufferChange: false }).length).toBe(1)
+  })
+})
+
+describe("summarizeSessions", () => {
+  it("reports duration, event count and dominant modes", () => {
+    const events = [key(1, "j", 100), key(2, "i", 600), key(3, "a", 1600, { mode: "i" })]
+    const [summary] = summarizeSessions(splitSessions(events))
+
+    expect(summary.eventCount).toBe(3)
+    expect(summary.durationMs).toBe(1500)
+    expect(summary.dominantModes[0]).toEqual({ mode: "n", count: 2, share: 2 / 3 })
+  })
+})
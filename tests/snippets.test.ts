@@ -0,0 +1,21 @@
+import { describe, expect, it } from "bun:test"
+import { generateLuaKeymap } from "../src/snippets.ts"
+
+describe("generateLuaKeymap", () => {
+  const suggestion = { mode: "n", lhs: "<leader>w", sequence: ["c", "i", "w"], rationale: "" }
+
+  it("emits a global mapping without a scope", () => {
+    expect(generateLuaKeymap(suggestion)).toStartWith('vim.keymap.set("n", "<leader>w", "ciw"')
+  })
+
+  it("emits a buffer-local FileType autocmd for filetype scopes", () => {
+    const snippet = generateLuaKeymap({ ...suggestion, scope: { kind: "filetype", name: "markdown" } })
+    expect(snippet).toContain('pattern = "markdown"')
+    expect(snippet).toContain("buffer = args.buf")
+  })
+
+  it("points project scopes at the project-local config", () => {
+    const snippet = generateLuaKeymap({ ...suggestion, scope: { kind: "project", name: "/work/app" } })
+    expect(snippet.split("\n")[0]).toContain("/work/app/.nvim.lua")
+  })
+})
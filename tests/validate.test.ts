@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { validateLog } from "../src/validate.ts"
+
+let tmpDir: string
+
+beforeAll(async () => {
+  tmpDir = await mkdtemp(join(Bun.env.TMPDIR ?? "/tmp", "ai-keymap-validate-"))
+})
+
+afterAll(async () => {
+  await rm(tmpDir, { recursive: true, force: true })
+})
+
+const line = (event: Record<string, unknown>) => JSON.stringify({ raw: event.key, mode: "n", ...event })
+
+describe("validateLog", () => {
+  it("reports malformed, duplicate and out-of-order lines by line number", async () => {
+    const logPath = join(tmpDir, "keys.jsonl")
+    await writeFile(
+      logPath,
+      [
+        line({ seq: 1, key: "j", timestamp: 10 }),
+        "{ not json",
+        line({ seq: 2, key: "k", timestamp: "11" }),
+        line({ seq: 1, key: "j", timestamp: 10 }),
+        line({ v: 2, type: "key", seq: 3, key: "w", timestamp: 5 }),
+        line({ v: 2, type: "key", seq: 2, key: "b", timestamp: 20 }),
+        "",
+        line({ v: 2, type: "session", seq: 1, key: "start", mode: "session", timestamp: 1 }),
+        line({ v: 2, type: "key", seq: 2, key: "x", timestamp: 2 }),
+      ].join("\n"),
+    )
+
+    const report = await validateLog(logPath)
+
+    expect(report.lines).toBe(9)
+    expect(report.events).toBe(6)
+    expect(report.versions).toEqual({ 1: 2, 2: 4 })
+    expect(report.counts).toEqual({ malformed: 2, duplicate: 1, "out-of-order": 2 })
+    expect(report.issues.map((issue) => [issue.line, issue.kind])).toEqual([
+      [2, "malformed"],
+      [3, "malformed"],
+      [4, "duplicate"],
+      [5, "out-of-order"],
+      [6, "out-of-order"],
+    ])
+    expect(report.issues[3].message).toContain("timestamp goes back")
+    expect(report.issues[4].message).toBe("seq 2 follows seq 3 (line 5)")
+  })
+  it("reads a jump back in a v1 log as a restart", async () => {
+    const logPath = join(tmpDir, "v1.jsonl")
+    await writeFile(
+      logPath,
+      [
+        line({ seq: 1, key: "j", timestamp: 500 }),
+        line({ seq: 2, key: "k", timestamp: 600 }),
+        line({ seq: 1, key: "w", timestamp: 20 }),
+        line({ seq: 2, key: "b", timestamp: 30 }),
+      ].join("\n"),
+    )
+
+    const report = await validateLog(logPath)
+
+    expect(report.versions).toEqual({ 1: 4 })
+    expect(report.counts).toEqual({ malformed: 0, duplicate: 0, "out-of-order": 0 })
+  })
+})